@@ -1,14 +1,39 @@
 import * as React from 'react';
+import { TableState, Tournament } from '../types';
+import { formatClockTime } from '../utils';
 
 interface AppHeaderProps {
     tournamentName: string;
     tournamentStarted: boolean;
     playersCount: number;
     bracketsData: any | null;
-    tableAssignments: (number | null)[];
+    tables: TableState;
+    // Projected end of the event, or null when nothing is left to play
+    projectedFinish?: number | null;
+    tournaments?: Tournament[];
+    currentTournamentId?: number;
+    onSwitchTournament?: (tournamentId: number) => void;
+    onNewTournament?: () => void;
+    onDeleteTournament?: (tournamentId: number) => void;
+    onSaveTournament?: () => void;
+    onOpenTournament?: () => void;
 }
 
-const AppHeader: React.FC<AppHeaderProps> = ({ tournamentName, tournamentStarted, playersCount, bracketsData, tableAssignments }) => {
+const AppHeader: React.FC<AppHeaderProps> = ({
+    tournamentName,
+    tournamentStarted,
+    playersCount,
+    bracketsData,
+    tables,
+    projectedFinish,
+    tournaments,
+    currentTournamentId,
+    onSwitchTournament,
+    onNewTournament,
+    onDeleteTournament,
+    onSaveTournament,
+    onOpenTournament
+}) => {
     return (
         <div className="header">
             <div className="header-content">
@@ -22,14 +47,23 @@ const AppHeader: React.FC<AppHeaderProps> = ({ tournamentName, tournamentStarted
                     {tournamentStarted && bracketsData && (
                         <p className="header-subtitle">
                             {bracketsData.participant?.length || 0} participants • {bracketsData.match?.length || 0} matches
+                            {projectedFinish != null && (
+                                <span title="Projected from the matches played so far and the tables in use"> • Finish ~{formatClockTime(projectedFinish)}</span>
+                            )}
                             {(() => {
                                 const stageSettings = bracketsData.stage && bracketsData.stage[0] && (bracketsData.stage[0].settings as any);
                                 const gt = stageSettings?.gameType || '';
                                 const rw = stageSettings?.raceWinners || '';
                                 const rl = stageSettings?.raceLosers || '';
+                                const isDouble = bracketsData.stage[0]?.type === 'double_elimination';
+                                const groups = stageSettings?.groupCount || 1;
                                 return (
                                     <span style={{ display: 'block', marginTop: 4, fontSize: '0.9em', color: 'var(--text-secondary)' }}>
-                                        {gt} • Race W: {rw} • Race L: {rl}
+                                        {gt} • {isDouble ? <>Race W: {rw} • Race L: {rl}</> : <>Race: {rw}</>}
+                                        {stageSettings?.raceSchedule?.length > 0 && <> (varies by round)</>}
+                                        {stageSettings?.swiss
+                                            ? <> • Swiss, {stageSettings.swiss.rounds} rounds</>
+                                            : bracketsData.stage[0]?.type === 'round_robin' && <> • {groups} pool{groups !== 1 ? 's' : ''}</>}
                                     </span>
                                 );
                             })()}
@@ -38,7 +72,39 @@ const AppHeader: React.FC<AppHeaderProps> = ({ tournamentName, tournamentStarted
                 </div>
 
                 <div className="header-controls">
-                    {/* left intentionally minimal */}
+                    {tournaments && tournaments.length > 0 && onSwitchTournament && (
+                        <select
+                            className="tournament-switcher"
+                            value={currentTournamentId}
+                            onChange={e => onSwitchTournament(Number(e.target.value))}
+                            title="Switch tournament"
+                            style={{ marginRight: 8 }}
+                        >
+                            {tournaments.map(t => (
+                                <option key={t.id} value={t.id}>{t.name || 'Untitled Tournament'}</option>
+                            ))}
+                        </select>
+                    )}
+                    {onNewTournament && (
+                        <button className="secondary" onClick={onNewTournament} title="Add another tournament (the current one keeps running)" style={{ marginRight: 8 }}>
+                            + New
+                        </button>
+                    )}
+                    {onDeleteTournament && currentTournamentId !== undefined && (
+                        <button className="secondary" onClick={() => onDeleteTournament(currentTournamentId)} title="Delete this tournament" style={{ marginRight: 8 }}>
+                            Delete
+                        </button>
+                    )}
+                    {onOpenTournament && (
+                        <button className="secondary" onClick={onOpenTournament} title="Open a saved tournament file (Ctrl+O)">
+                            Open...
+                        </button>
+                    )}
+                    {tournamentStarted && bracketsData && onSaveTournament && (
+                        <button style={{ marginLeft: 8 }} className="secondary" onClick={onSaveTournament} title="Save this tournament to a file (Ctrl+Shift+S)">
+                            Save As...
+                        </button>
+                    )}
                 </div>
 
                 {tournamentStarted && bracketsData && (
@@ -63,12 +129,7 @@ const AppHeader: React.FC<AppHeaderProps> = ({ tournamentName, tournamentStarted
                             className="secondary"
                             onClick={() => {
                                 try {
-                                    const tablesPayload = {
-                                        tableAssignments,
-                                        participants: bracketsData.participant || [],
-                                        matches: bracketsData.match || []
-                                    };
-                                    localStorage.setItem('tournament:tablesData', JSON.stringify(tablesPayload));
+                                    localStorage.setItem('tournament:tablesData', JSON.stringify({ tables }));
                                 } catch (e) {
                                     console.error('Failed to store tables data for popout', e);
                                 }
@@ -0,0 +1,115 @@
+import * as React from 'react';
+import { AuditEvent, AuditEventType, Match, Participant } from '../types';
+import { auditEventsToCsv } from '../services/auditLog';
+
+interface AuditLogPanelProps {
+    events: AuditEvent[];
+    participants: Participant[];
+    matches: Match[];
+    operator: string;
+    onOperatorChange: (operator: string) => void;
+    fileName?: string;
+}
+
+const TYPE_LABELS: Record<AuditEventType, string> = {
+    match_score: 'Score',
+    participant_edit: 'Player edit',
+    table_assignment: 'Table',
+    table_rename: 'Table rename',
+    history: 'Undo / redo'
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const formatValue = (value: any) => {
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Read-only view of the audit log (newest first) with player / match filters
+ * and CSV export for resolving disputes after the event.
+ */
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ events, participants, matches, operator, onOperatorChange, fileName }) => {
+    const [participantId, setParticipantId] = React.useState<string>('');
+    const [matchId, setMatchId] = React.useState<string>('');
+
+    const filtered = events.filter(event => {
+        if (participantId && !event.participantIds.includes(Number(participantId))) return false;
+        if (matchId && event.matchId !== Number(matchId)) return false;
+        return true;
+    });
+
+    // Only offer matches that actually appear in the log
+    const loggedMatchIds = new Set(events.map(e => e.matchId).filter((id): id is number => id !== undefined));
+    const loggedMatches = matches.filter(m => loggedMatchIds.has(m.id)).sort((a, b) => a.number - b.number);
+
+    const exportCsv = () => {
+        const blob = new Blob([auditEventsToCsv(filtered, participants)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName || 'audit-log.csv';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div style={{ padding: 12 }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                <h3 style={{ margin: 0, flex: 1 }}>Audit Log</h3>
+                <label>
+                    Entered by{' '}
+                    <input value={operator} onChange={e => onOperatorChange(e.target.value)} placeholder="Operator" style={{ width: 120 }} />
+                </label>
+                <select value={participantId} onChange={e => setParticipantId(e.target.value)}>
+                    <option value="">All players</option>
+                    {participants.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                </select>
+                <select value={matchId} onChange={e => setMatchId(e.target.value)}>
+                    <option value="">All matches</option>
+                    {loggedMatches.map(m => (
+                        <option key={m.id} value={m.id}>Match #{m.number}</option>
+                    ))}
+                </select>
+                <button className="secondary" onClick={exportCsv} disabled={filtered.length === 0}>
+                    Export CSV
+                </button>
+            </div>
+            <p style={{ color: 'var(--text-secondary)', marginTop: 4 }}>
+                Every score, player edit and table change is recorded here. Entries cannot be edited or removed.
+            </p>
+
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 12 }}>
+                <thead>
+                    <tr style={{ textAlign: 'left', borderBottom: '1px solid var(--border)' }}>
+                        <th style={{ padding: 8, width: 170 }}>Time</th>
+                        <th style={{ padding: 8, width: 110 }}>Type</th>
+                        <th style={{ padding: 8 }}>Event</th>
+                        <th style={{ padding: 8 }}>Before</th>
+                        <th style={{ padding: 8 }}>After</th>
+                        <th style={{ padding: 8, width: 100 }}>By</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {filtered.length === 0 ? (
+                        <tr><td colSpan={6} style={{ padding: 12 }}>No events recorded.</td></tr>
+                    ) : [...filtered].reverse().map(event => (
+                        <tr key={event.id} style={{ borderBottom: '1px solid var(--border)' }}>
+                            <td style={{ padding: 8 }}>{formatTime(event.timestamp)}</td>
+                            <td style={{ padding: 8 }}>{TYPE_LABELS[event.type] || event.type}</td>
+                            <td style={{ padding: 8 }}>{event.description}</td>
+                            <td style={{ padding: 8, fontFamily: 'monospace', fontSize: 12 }}>{formatValue(event.before)}</td>
+                            <td style={{ padding: 8, fontFamily: 'monospace', fontSize: 12 }}>{formatValue(event.after)}</td>
+                            <td style={{ padding: 8 }}>{event.operator}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default AuditLogPanel;
@@ -1,6 +1,8 @@
 import * as React from 'react';
 import { useState, useEffect, useRef } from 'react';
-import { Match, Participant } from '../types';
+import { ForfeitReason, Match, Participant, RaceScheduleEntry, Stage } from '../types';
+import { getForfeitLabel, getMatchLabel, getOpponentForfeitLabel, getScheduledRace } from '../utils';
+import { getGameTypeRules } from '../services/gameTypes';
 
 export interface BracketScoreModalProps {
     match: Match;
@@ -10,12 +12,26 @@ export interface BracketScoreModalProps {
     // Race limits: maximum racks for winners/losers bracket (UI enforces max)
     raceWinners?: number;
     raceLosers?: number;
+    // Race lengths of individual rounds, overriding raceWinners/raceLosers
+    raceSchedule?: RaceScheduleEntry[];
     // whether this stage uses true double elimination
     trueDouble?: boolean;
-    // indicates this match is the grand-final reset (GF round 2)
-    isGFReset?: boolean;
+    // All matches of the tournament, used to place the match within its stage
+    allMatches?: Match[];
+    // Type of the match's stage; only double elimination has a losers side
+    stageType?: Stage['type'];
+    // Game type of the match's stage, which decides how scores are validated
+    gameType?: string;
+    // Record that one side forfeits an unfinished match
+    onForfeit?: (matchId: number, side: 1 | 2, reason: ForfeitReason) => Promise<void>;
+    // Reopen a finished match, after showing the later matches it would reopen too
+    getResetImpact?: (matchId: number) => Promise<Match[]>;
+    onReset?: (matchId: number) => Promise<void>;
 }
 
+// Reasons that can be given for a single match; withdrawals are made from the players list
+const MATCH_FORFEIT_REASONS: ForfeitReason[] = ['forfeit', 'no_show', 'disqualified'];
+
 /**
  * ScoreModal component specifically for brackets-manager Match objects
  */
@@ -26,8 +42,14 @@ export const BracketScoreModal: React.FC<BracketScoreModalProps> = ({
     onClose,
     raceWinners,
     raceLosers,
+    raceSchedule,
     trueDouble,
-    isGFReset
+    allMatches,
+    stageType,
+    gameType,
+    onForfeit,
+    getResetImpact,
+    onReset
 }) => {
     // Get participant names
     const participant1 = participants.find(p => p.id === match.opponent1?.id);
@@ -37,6 +59,7 @@ export const BracketScoreModal: React.FC<BracketScoreModalProps> = ({
     const [score1, setScore1] = useState(match.opponent1?.score?.toString() || '');
     const [score2, setScore2] = useState(match.opponent2?.score?.toString() || '');
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [forfeitReason, setForfeitReason] = useState<ForfeitReason>('forfeit');
     const modalRef = useRef<HTMLDivElement>(null);
 
     const isEditing = match.opponent1?.score !== undefined && match.opponent2?.score !== undefined;
@@ -45,18 +68,25 @@ export const BracketScoreModal: React.FC<BracketScoreModalProps> = ({
     const isByeMatch = !participant1?.name || !participant2?.name ||
         participant1?.name === null || participant2?.name === null;
 
-    // compute max allowed score from provided props (renderer passes raceWinners/raceLosers)
-    // If this match is on the losers side (group_id === 2) use raceLosers; otherwise use raceWinners.
-    // Additionally, treat Grand Final round 2 (reset match) as a losers-side match so it uses raceLosers.
-    const rawGroupId = match.group_id ?? (match as any).groupId;
-    const rawRoundId = match.round_id ?? (match as any).roundId;
-    const isGrandFinal = rawGroupId !== undefined && rawGroupId >= 3;
-    // Prefer explicit isGFReset flag when provided by renderer; otherwise fall back to the
-    // legacy heuristic of treating GF round 2 as a reset (losers-side).
-    const isLosersMatch = (rawGroupId === 2) || Boolean(isGFReset) || (isGrandFinal && rawRoundId === 2);
-    const winnersMax = propsToNumber(raceWinners);
-    const losersMax = propsToNumber(raceLosers) || winnersMax; // fallback to winnersMax if not provided
-    const maxAllowedScore = isLosersMatch ? losersMax : winnersMax;
+    // compute max allowed score from provided props (renderer passes raceWinners/raceLosers and the
+    // stage's race schedule). A scheduled round uses its own race; otherwise losers-side matches and
+    // the grand final reset use raceLosers and every other match uses raceWinners.
+    const maxAllowedScore = getScheduledRace(match, allMatches, stageType, {
+        raceWinners: propsToNumber(raceWinners),
+        raceLosers: propsToNumber(raceLosers),
+        ...(raceSchedule ? { raceSchedule } : {})
+    });
+    // Handicapped matches carry a race per opponent
+    const race1 = match.opponent1?.race || maxAllowedScore;
+    const race2 = match.opponent2?.race || maxAllowedScore;
+    const rules = getGameTypeRules(gameType);
+    // Racks are picked from a list; points games can run to 100 or more
+    const useSelect = rules.unit === 'racks';
+    const raceSuffix = (race: number) => {
+        if (race <= 0) return '';
+        if (rules.unit === 'points') return ` (to ${race} ${rules.unitLabel})`;
+        return race1 !== race2 ? ` (race ${race})` : '';
+    };
 
     function propsToNumber(v: any) {
         if (v === undefined || v === null) return 0;
@@ -99,22 +129,15 @@ export const BracketScoreModal: React.FC<BracketScoreModalProps> = ({
         }
 
         // Prevent tied scores - someone must win
-        if (s1 === s2) {
+        if (s1 === s2 && race1 === race2) {
             return;
         }
 
-        // Validate against max allowed score if configured
-        if (maxAllowedScore > 0) {
-            if (s1 > maxAllowedScore || s2 > maxAllowedScore) {
-                alert(`Scores cannot exceed ${maxAllowedScore}.`);
-                return;
-            }
-            // Ensure exactly one player has the race-winning score and the other is less
-            const oneHasMax = (s1 === maxAllowedScore && s2 < maxAllowedScore) || (s2 === maxAllowedScore && s1 < maxAllowedScore);
-            if (!oneHasMax) {
-                alert(`One player must reach ${maxAllowedScore} and the other must be less than ${maxAllowedScore}.`);
-                return;
-            }
+        // Validate against each player's race with the rules of the game type
+        const invalid = rules.validateResult(s1, race1, s2, race2);
+        if (invalid) {
+            alert(invalid);
+            return;
         }
 
         setIsSubmitting(true);
@@ -129,10 +152,54 @@ export const BracketScoreModal: React.FC<BracketScoreModalProps> = ({
         }
     };
 
+    const handleForfeit = async (side: 1 | 2) => {
+        if (!onForfeit) return;
+        const name = (side === 1 ? participant1 : participant2)?.name || 'TBD';
+        if (!window.confirm(`${name} forfeits this match (${getForfeitLabel(forfeitReason)})?`)) return;
+
+        setIsSubmitting(true);
+        try {
+            await onForfeit(match.id, side, forfeitReason);
+            onClose();
+        } catch (error) {
+            console.error('Error forfeiting match:', error);
+            alert(error instanceof Error ? error.message : 'Failed to record the forfeit.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleReset = async () => {
+        if (!onReset || !getResetImpact) return;
+        setIsSubmitting(true);
+        try {
+            const impact = await getResetImpact(match.id);
+            const list = impact.map(m => `\n  • ${getMatchLabel(m, participants)}`).join('');
+            const message = impact.length > 0
+                ? `Reset this match? These matches will be reopened as well and their results cleared:${list}`
+                : 'Reset this match and clear its result?';
+            if (!window.confirm(message)) return;
+            await onReset(match.id);
+            onClose();
+        } catch (error) {
+            console.error('Error resetting match:', error);
+            alert(error instanceof Error ? error.message : 'Failed to reset the match.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // A finished match (completed or archived) can be reopened
+    const canReset = Boolean(onReset && getResetImpact) && (match.status === 4 || match.status === 5);
+
+    // A forfeit can only be given before the match has a result
+    const canForfeit = Boolean(onForfeit) && (match.status === 2 || match.status === 3);
+    const forfeitLabel = getOpponentForfeitLabel(match.opponent1) || getOpponentForfeitLabel(match.opponent2);
+
     const hasValidScores = () => {
         const s1 = parseInt(score1, 10);
         const s2 = parseInt(score2, 10);
-        return !isNaN(s1) && !isNaN(s2) && s1 !== s2;
+        return !isNaN(s1) && !isNaN(s2) && (s1 !== s2 || race1 !== race2);
     };
 
     const hasScores = () => {
@@ -140,7 +207,7 @@ export const BracketScoreModal: React.FC<BracketScoreModalProps> = ({
     };
 
     const hasTie = () => {
-        if (!hasScores()) return false;
+        if (!hasScores() || race1 !== race2) return false;
         return parseInt(score1, 10) === parseInt(score2, 10);
     };
 
@@ -164,20 +231,26 @@ export const BracketScoreModal: React.FC<BracketScoreModalProps> = ({
                 }}>
                     <div style={{ fontSize: 'var(--font-size-sm)', color: 'var(--color-text-secondary)' }}>
                         Match ID: {match.id} | Status: {match.status}
+                        {gameType && <> | {rules.name} • {rules.breakFormat === 'winner' ? 'Winner breaks' : 'Alternate breaks'}{rules.callShot ? ' • Call shot' : ''}</>}
                     </div>
+                    {forfeitLabel && (
+                        <div style={{ fontSize: 'var(--font-size-sm)', color: 'var(--accent-error)', marginTop: 4 }}>
+                            {(match.opponent1?.forfeit ? participant1 : participant2)?.name} forfeited: {forfeitLabel}
+                        </div>
+                    )}
                 </div>
 
                 <form onSubmit={handleSubmit}>
                     <div className="score-inputs">
                         <div className="score-input-row">
                             <label className="score-input-label" htmlFor="score1">
-                                {participant1?.name || 'TBD'}
+                                {participant1?.name || 'TBD'}{raceSuffix(race1)}
                             </label>
-                            {maxAllowedScore > 0 ? (
+                            {useSelect && race1 > 0 ? (
                                 <select id="score1" value={score1} onChange={(e) => setScore1(e.target.value)} disabled={isSubmitting}>
                                     <option value="">--</option>
-                                    {Array.from({ length: maxAllowedScore + 1 }, (_, n) => {
-                                        const disableMax = n === maxAllowedScore && score2 === String(maxAllowedScore);
+                                    {Array.from({ length: race1 + 1 }, (_, n) => {
+                                        const disableMax = n === race1 && score2 === String(race2);
                                         return <option key={n} value={String(n)} disabled={disableMax}>{n}</option>;
                                     })}
                                 </select>
@@ -191,20 +264,21 @@ export const BracketScoreModal: React.FC<BracketScoreModalProps> = ({
                                     placeholder="0"
                                     required
                                     disabled={isSubmitting}
-                                    min="0"
+                                    {...(rules.unit === 'racks' ? { min: '0' } : {})}
+                                    {...(race1 > 0 ? { max: String(race1) } : {})}
                                 />
                             )}
                         </div>
 
                         <div className="score-input-row">
                             <label className="score-input-label" htmlFor="score2">
-                                {participant2?.name || 'TBD'}
+                                {participant2?.name || 'TBD'}{raceSuffix(race2)}
                             </label>
-                            {maxAllowedScore > 0 ? (
+                            {useSelect && race2 > 0 ? (
                                 <select id="score2" value={score2} onChange={(e) => setScore2(e.target.value)} disabled={isSubmitting}>
                                     <option value="">--</option>
-                                    {Array.from({ length: maxAllowedScore + 1 }, (_, n) => {
-                                        const disableMax = n === maxAllowedScore && score1 === String(maxAllowedScore);
+                                    {Array.from({ length: race2 + 1 }, (_, n) => {
+                                        const disableMax = n === race2 && score1 === String(race1);
                                         return <option key={n} value={String(n)} disabled={disableMax}>{n}</option>;
                                     })}
                                 </select>
@@ -218,7 +292,8 @@ export const BracketScoreModal: React.FC<BracketScoreModalProps> = ({
                                     placeholder="0"
                                     required
                                     disabled={isSubmitting}
-                                    min="0"
+                                    {...(rules.unit === 'racks' ? { min: '0' } : {})}
+                                    {...(race2 > 0 ? { max: String(race2) } : {})}
                                 />
                             )}
                         </div>
@@ -237,7 +312,37 @@ export const BracketScoreModal: React.FC<BracketScoreModalProps> = ({
                         </div>
                     )}
 
+                    {canForfeit && (
+                        <div className="forfeit-actions" style={{
+                            display: 'flex',
+                            flexWrap: 'wrap',
+                            gap: 'var(--spacing-sm)',
+                            alignItems: 'center',
+                            margin: 'var(--spacing-sm) 0',
+                            fontSize: 'var(--font-size-sm)'
+                        }}>
+                            <select value={forfeitReason} onChange={(e) => setForfeitReason(e.target.value as ForfeitReason)} disabled={isSubmitting}>
+                                {MATCH_FORFEIT_REASONS.map(reason => <option key={reason} value={reason}>{getForfeitLabel(reason)}</option>)}
+                            </select>
+                            {([1, 2] as const).map(side => (
+                                <button key={side} type="button" onClick={() => handleForfeit(side)} disabled={isSubmitting}>
+                                    {(side === 1 ? participant1 : participant2)?.name} forfeits
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
                     <div className="modal-actions">
+                        {canReset && (
+                            <button
+                                type="button"
+                                onClick={handleReset}
+                                disabled={isSubmitting}
+                                title="Clear this result and the results of the matches that followed from it"
+                            >
+                                Reset Match
+                            </button>
+                        )}
                         <button
                             type="button"
                             onClick={onClose}
@@ -275,9 +380,9 @@ export const useBracketScoreModal = () => {
 
     const openModal = (match: Match) => {
         // brackets-manager uses numeric statuses:
-        // 1 = locked, 2 = ready, 3 = running, 4 = completed
-        // Only open modal for matches that can be scored (ready, running, or completed)
-        if (match.status === 2 || match.status === 3 || match.status === 4 ||
+        // 1 = locked, 2 = ready, 3 = running, 4 = completed, 5 = archived
+        // Only open modal for matches that can be scored (ready, running, or completed) or reset (archived)
+        if (match.status === 2 || match.status === 3 || match.status === 4 || match.status === 5 ||
             match.status === 'ready' || match.status === 'running' || match.status === 'completed') {
             setCurrentMatch(match);
         }
@@ -1,6 +1,7 @@
 import * as React from 'react';
 import { useEffect, useRef } from 'react';
 import { BracketsData } from '../types';
+import { getOpponentForfeitLabel } from '../utils';
 
 // Import brackets-viewer CSS and JS from node_modules
 // Note: We need to import these at build time, not runtime
@@ -93,22 +94,82 @@ const BracketsViewer: React.FC<BracketsViewerProps> = ({
                 renderOptions.onMatchClick = onMatchClick;
             }
 
-            // Render the brackets
+            // Render the brackets; seeded players are shown with their seed
             const renderData = {
                 stages: data.stage || [],
                 groups: data.group || [],
                 rounds: data.round || [],
                 matches: data.match || [],
                 matchGames: data.match_game || [],
-                participants: data.participant || []
+                participants: (data.participant || []).map(p => p.seed ? { ...p, name: `(${p.seed}) ${p.name}` } : p)
             };
 
             window.bracketsViewer.render(renderData, renderOptions);
+            showRaces();
+            showLiveMatches();
+            showForfeits();
         } catch (error) {
             console.error('Error rendering brackets:', error);
         }
     };
 
+    // The viewer has no notion of handicaps, so append each player's race to the rendered match
+    const showRaces = () => {
+        const container = containerRef.current;
+        if (!container) return;
+        (data.match || []).forEach(match => {
+            const race1 = match.opponent1?.race;
+            const race2 = match.opponent2?.race;
+            if (!race1 || !race2) return;
+            const names = container.querySelectorAll(`[data-match-id='${match.id}'] .participant .name`);
+            [race1, race2].forEach((race, i) => {
+                const name = names[i];
+                if (!name || name.querySelector('.race')) return;
+                const label = document.createElement('span');
+                label.className = 'race';
+                label.textContent = ` (race ${race})`;
+                label.style.opacity = '0.7';
+                name.appendChild(label);
+            });
+        });
+    };
+
+    // The viewer marks a forfeit with an F; add why the player forfeited
+    const showForfeits = () => {
+        const container = containerRef.current;
+        if (!container) return;
+        (data.match || []).forEach(match => {
+            const names = container.querySelectorAll(`[data-match-id='${match.id}'] .participant .name`);
+            [match.opponent1, match.opponent2].forEach((opponent, i) => {
+                const reason = getOpponentForfeitLabel(opponent);
+                const name = names[i];
+                if (!reason || !name || name.querySelector('.forfeit-reason')) return;
+                const label = document.createElement('span');
+                label.className = 'forfeit-reason';
+                label.textContent = ` (${reason})`;
+                label.style.color = 'var(--accent-error)';
+                name.appendChild(label);
+            });
+        });
+    };
+
+    // The viewer already prints the scores; mark the matches still being played
+    const showLiveMatches = () => {
+        const container = containerRef.current;
+        if (!container) return;
+        (data.match || []).filter(match => match.status === 3).forEach(match => {
+            const element = container.querySelector<HTMLElement>(`[data-match-id='${match.id}']`);
+            if (!element || element.querySelector('.live')) return;
+            element.style.outline = '2px solid var(--accent-error)';
+            element.title = 'Live';
+            const label = document.createElement('span');
+            label.className = 'live';
+            label.textContent = '● LIVE';
+            label.style.cssText = 'color: var(--accent-error); font-size: 10px; font-weight: 700;';
+            element.prepend(label);
+        });
+    };
+
     return (
         <div>
             <div
@@ -0,0 +1,103 @@
+import * as React from 'react';
+import { useEffect, useState } from 'react';
+import { CallTimerSettings, Match } from '../types';
+import { CallTimerLevel, formatCountdown, getCallTimerState } from '../utils';
+
+interface CallTimerProps {
+    match: Match;
+    calledAt: number;
+    settings: CallTimerSettings;
+    player1: string;
+    player2: string;
+    // Both players are at the table
+    onStart: () => Promise<void>;
+    // Forfeit the absent player once the time is up
+    onNoShow: (side: 1 | 2) => Promise<void>;
+}
+
+const LEVEL_COLORS: Record<CallTimerLevel, string> = {
+    waiting: 'var(--text-secondary)',
+    warning: 'var(--accent-warning)',
+    urgent: 'var(--accent-error)',
+    expired: 'var(--accent-error)'
+};
+
+/**
+ * No-show countdown on a table card, from the moment the match was sent to the table
+ * until both players are there. Asks for the players to be called again at the
+ * configured interval and offers to forfeit the absent player once the time is up.
+ */
+const CallTimer: React.FC<CallTimerProps> = ({ match, calledAt, settings, player1, player2, onStart, onNoShow }) => {
+    const [now, setNow] = useState(() => Date.now());
+    // Calls the operator has made, so a due re-call is only shown until it is done
+    const [callsMade, setCallsMade] = useState(1);
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(timer);
+    }, []);
+
+    // A new assignment starts with its first call
+    useEffect(() => setCallsMade(1), [match.id, calledAt]);
+
+    const { remainingMs, calls, level } = getCallTimerState(calledAt, now, settings);
+    const recallDue = calls > callsMade && level !== 'expired';
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        try {
+            await action();
+        } catch (error) {
+            console.error('Error updating called match:', error);
+            alert(error instanceof Error ? error.message : 'Failed to update the match.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const noShow = (side: 1 | 2) => {
+        const name = side === 1 ? player1 : player2;
+        if (!window.confirm(`${name} did not show up within ${settings.minutes} minutes. Forfeit the match?`)) return;
+        run(() => onNoShow(side));
+    };
+
+    return (
+        <div
+            className={`call-timer call-timer-${level}`}
+            style={{
+                marginTop: 6,
+                padding: '4px 6px',
+                borderRadius: 4,
+                fontSize: 12,
+                border: `1px solid ${LEVEL_COLORS[level]}`,
+                background: level === 'expired' ? 'var(--accent-error)' : 'transparent',
+                color: level === 'expired' ? '#fff' : LEVEL_COLORS[level]
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 6 }}>
+                <strong>{level === 'expired' ? 'No-show' : 'Called'} {formatCountdown(remainingMs)}</strong>
+                <button className="table-action-btn" onClick={() => run(onStart)} disabled={busy}>Players here</button>
+            </div>
+
+            {recallDue && (
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 6, marginTop: 4, fontWeight: 700 }}>
+                    <span>📢 Call again ({calls === 2 ? '2nd' : calls === 3 ? '3rd' : `${calls}th`} call)</span>
+                    <button className="table-action-btn" onClick={() => setCallsMade(calls)} disabled={busy}>Called</button>
+                </div>
+            )}
+
+            {level === 'expired' && (
+                <div style={{ display: 'flex', gap: 4, marginTop: 4 }}>
+                    {([1, 2] as const).map(side => (
+                        <button key={side} className="table-action-btn" onClick={() => noShow(side)} disabled={busy}>
+                            Forfeit {side === 1 ? player1 : player2}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CallTimer;
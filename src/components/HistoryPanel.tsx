@@ -0,0 +1,63 @@
+import * as React from 'react';
+import { HistoryEntry } from '../services/commandHistory';
+
+interface HistoryPanelProps {
+    done: HistoryEntry[];
+    undone: HistoryEntry[];
+    onUndo: () => void;
+    onRedo: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+/**
+ * Lists every undoable action (newest first). Undone actions stay visible,
+ * greyed out, until a new action replaces them.
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ done, undone, onUndo, onRedo }) => {
+    // Next redo is last in `undone`; show it directly above the latest applied step
+    const rows = [
+        ...undone.map(entry => ({ entry, undone: true })),
+        ...[...done].reverse().map(entry => ({ entry, undone: false }))
+    ];
+
+    return (
+        <div style={{ padding: 12 }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <h3 style={{ margin: 0, flex: 1 }}>History</h3>
+                <button className="secondary" onClick={onUndo} disabled={done.length === 0} title="Undo (Ctrl+Z)">
+                    ↶ Undo
+                </button>
+                <button className="secondary" onClick={onRedo} disabled={undone.length === 0} title="Redo (Ctrl+Shift+Z)">
+                    ↷ Redo
+                </button>
+            </div>
+            <p style={{ color: 'var(--text-secondary)', marginTop: 4 }}>
+                Score entries and table moves can be undone with Ctrl+Z and redone with Ctrl+Shift+Z.
+            </p>
+
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 12 }}>
+                <thead>
+                    <tr style={{ textAlign: 'left', borderBottom: '1px solid var(--border)' }}>
+                        <th style={{ padding: 8, width: 120 }}>Time</th>
+                        <th style={{ padding: 8 }}>Action</th>
+                        <th style={{ padding: 8, width: 100 }}>Status</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.length === 0 ? (
+                        <tr><td colSpan={3} style={{ padding: 12 }}>No actions yet.</td></tr>
+                    ) : rows.map(({ entry, undone: isUndone }) => (
+                        <tr key={entry.id} style={{ borderBottom: '1px solid var(--border)', opacity: isUndone ? 0.5 : 1 }}>
+                            <td style={{ padding: 8 }}>{formatTime(entry.timestamp)}</td>
+                            <td style={{ padding: 8, textDecoration: isUndone ? 'line-through' : undefined }}>{entry.label}</td>
+                            <td style={{ padding: 8 }}>{isUndone ? 'Undone' : 'Applied'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,76 @@
+import * as React from 'react';
+import { useState } from 'react';
+import { Match } from '../types';
+import { GameTypeRules, getRaceWinner } from '../services/gameTypes';
+
+interface LiveScoreProps {
+    match: Match;
+    player1: string;
+    player2: string;
+    race1: number;
+    race2: number;
+    rules: GameTypeRules;
+    onAdjust: (side: 1 | 2, delta: number) => Promise<void>;
+    // Called once the operator confirms the score that reaches a race
+    onFinish: (score1: number, score2: number) => Promise<void> | void;
+}
+
+/**
+ * Score buttons on a table card for keeping the score during play. The match is shown
+ * as running from the first point; the point that reaches a race asks to finish the match.
+ */
+const LiveScore: React.FC<LiveScoreProps> = ({ match, player1, player2, race1, race2, rules, onAdjust, onFinish }) => {
+    const [busy, setBusy] = useState(false);
+    const scores: Record<1 | 2, number> = { 1: match.opponent1?.score ?? 0, 2: match.opponent2?.score ?? 0 };
+    const races: Record<1 | 2, number> = { 1: race1, 2: race2 };
+
+    const adjust = async (side: 1 | 2, delta: number) => {
+        const next = { ...scores, [side]: scores[side] + delta };
+        setBusy(true);
+        try {
+            const winner = race1 > 0 && race2 > 0 ? getRaceWinner(next[1], race1, next[2], race2) : null;
+            if (winner) {
+                const name = winner === 1 ? player1 : player2;
+                if (window.confirm(`${name} has reached ${races[winner]}. Finish the match ${next[1]}-${next[2]}?`)) {
+                    await onFinish(next[1], next[2]);
+                }
+                return;
+            }
+            await onAdjust(side, delta);
+        } catch (error) {
+            console.error('Error updating live score:', error);
+            alert(error instanceof Error ? error.message : 'Failed to update the score.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="live-score" style={{ display: 'flex', flexDirection: 'column', gap: 4, marginTop: 6, fontSize: 12 }}>
+            {([1, 2] as const).map(side => (
+                <div key={side} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                    <button
+                        className="table-action-btn"
+                        onClick={() => adjust(side, -1)}
+                        disabled={busy || rules.validateScore(scores[side] - 1, races[side]) !== null}
+                        title={`Take a ${rules.unit === 'racks' ? 'rack' : 'point'} from ${side === 1 ? player1 : player2}`}
+                    >
+                        −
+                    </button>
+                    <strong style={{ minWidth: 24, textAlign: 'center' }}>{scores[side]}</strong>
+                    <button
+                        className="table-action-btn"
+                        onClick={() => adjust(side, 1)}
+                        disabled={busy || rules.validateScore(scores[side] + 1, races[side]) !== null}
+                        title={`Add a ${rules.unit === 'racks' ? 'rack' : 'point'} for ${side === 1 ? player1 : player2}`}
+                    >
+                        +
+                    </button>
+                    <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{side === 1 ? player1 : player2}</span>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default LiveScore;
@@ -0,0 +1,68 @@
+import * as React from 'react';
+import { BracketsData, Match, TableState } from '../types';
+import { Projection } from '../services/projection';
+import { getTableName } from '../services/tableManager';
+import { formatEstimatedStart, getForfeitLabel, getUserFriendlyRoundNumber } from '../utils';
+
+// Most players listed for one search
+const MAX_RESULTS = 8;
+
+interface PlayerLookupProps {
+    bracketsData: BracketsData;
+    tables?: TableState;
+    projection?: Projection | null;
+}
+
+// "When do I play?": find a player and see their next match and when it should start
+const PlayerLookup: React.FC<PlayerLookupProps> = ({ bracketsData, tables, projection }) => {
+    const [query, setQuery] = React.useState<string>('');
+    const search = query.trim().toLowerCase();
+    const found = search ? bracketsData.participant.filter(p => p.name.toLowerCase().includes(search)).slice(0, MAX_RESULTS) : [];
+
+    const nameOf = (id: number | null | undefined) => bracketsData.participant.find(p => p.id === id)?.name || 'TBD';
+    const startOf = (m: Match) => projection?.matches.get(m.id)?.start ?? Infinity;
+
+    // The player's unfinished match due first: one on a table, then by estimated start
+    const nextMatchOf = (participantId: number): Match | undefined => bracketsData.match
+        .filter(m => typeof m.status === 'number' && m.status < 4 && (m.opponent1?.id === participantId || m.opponent2?.id === participantId))
+        .sort((a, b) => (a.table != null ? 0 : 1) - (b.table != null ? 0 : 1) || startOf(a) - startOf(b) || a.id - b.id)[0];
+
+    const describe = (participantId: number): string => {
+        const match = nextMatchOf(participantId);
+        if (!match) return 'No matches left to play';
+        const opponentId = match.opponent1?.id === participantId ? match.opponent2?.id : match.opponent1?.id;
+        const round = getUserFriendlyRoundNumber(match, bracketsData.match, bracketsData.stage);
+        const where = `Match #${match.number} (${round}) vs ${nameOf(opponentId)}`;
+        if (match.table != null) return `${where}: at ${tables ? getTableName(tables, match.table) : `table ${match.table}`} now`;
+        const projected = projection?.matches.get(match.id);
+        return projected ? `${where}: est. start ${formatEstimatedStart(projected.start, Date.now())}` : where;
+    };
+
+    return (
+        <div className="player-lookup" style={{ padding: '12px 12px 0' }}>
+            <input
+                type="search"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="When do I play? Type a player's name"
+                aria-label="Find a player"
+                style={{ width: '100%', maxWidth: 360 }}
+            />
+            {search && (
+                <ul style={{ listStyle: 'none', padding: 0, margin: '8px 0 0' }}>
+                    {found.length === 0 && <li style={{ color: 'var(--text-secondary)' }}>No player matches "{query.trim()}"</li>}
+                    {found.map(p => (
+                        <li key={p.id} style={{ padding: '4px 0' }}>
+                            <strong>{p.name}</strong>{' '}
+                            <span style={{ color: 'var(--text-secondary)' }}>
+                                {p.withdrawn ? `Out of the event (${getForfeitLabel(p.withdrawn)})` : describe(p.id)}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default PlayerLookup;
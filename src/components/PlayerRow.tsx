@@ -1,5 +1,7 @@
 import * as React from 'react';
 import TournamentService from '../services/tournamentService';
+import { WithdrawalReason } from '../types';
+import { getForfeitLabel } from '../utils';
 
 interface PlayerRowProps {
     participant: any;
@@ -11,11 +13,12 @@ const PlayerRow: React.FC<PlayerRowProps> = ({ participant, tournamentService, o
     const [editing, setEditing] = React.useState<boolean>(false);
     const [phone, setPhone] = React.useState<string>(participant.phone || '');
     const [saving, setSaving] = React.useState<boolean>(false);
+    const [withdrawReason, setWithdrawReason] = React.useState<WithdrawalReason>('withdrawn');
 
     const save = async () => {
         setSaving(true);
         try {
-            await tournamentService.getStorage().update('participant', { id: participant.id }, { phone: phone });
+            await tournamentService.updateParticipant(participant.id, { phone });
             await onSaved();
             setEditing(false);
         } catch (err) {
@@ -26,9 +29,27 @@ const PlayerRow: React.FC<PlayerRowProps> = ({ participant, tournamentService, o
         }
     };
 
+    // The rest of the player's matches are forfeited
+    const withdraw = async () => {
+        if (!window.confirm(`${getForfeitLabel(withdrawReason)}: ${participant.name} forfeits every remaining match. Continue?`)) return;
+        setSaving(true);
+        try {
+            await tournamentService.withdrawParticipant(participant.id, withdrawReason);
+            await onSaved();
+        } catch (err) {
+            console.error('Failed to withdraw player:', err);
+            alert(err instanceof Error ? err.message : 'Failed to withdraw the player.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
     return (
         <tr style={{ borderBottom: '1px solid var(--border)' }}>
-            <td style={{ padding: 8 }}>{participant.name}</td>
+            <td style={{ padding: 8 }}>
+                {participant.name}
+                {participant.withdrawn && <span style={{ marginLeft: 6, color: 'var(--accent-error)' }}>({getForfeitLabel(participant.withdrawn)})</span>}
+            </td>
             <td style={{ padding: 8 }}>
                 {editing ? (
                     <input value={phone} onChange={e => setPhone(e.target.value)} style={{ width: 140 }} />
@@ -49,7 +70,18 @@ const PlayerRow: React.FC<PlayerRowProps> = ({ participant, tournamentService, o
                         <button onClick={() => { setEditing(false); setPhone(participant.phone || ''); }} disabled={saving}>Cancel</button>
                     </>
                 ) : (
-                    <button onClick={() => setEditing(true)}>Edit Phone</button>
+                    <>
+                        <button onClick={() => setEditing(true)} style={{ marginRight: 6 }}>Edit Phone</button>
+                        {!participant.withdrawn && (
+                            <>
+                                <select value={withdrawReason} onChange={e => setWithdrawReason(e.target.value as WithdrawalReason)} disabled={saving} style={{ marginRight: 6 }}>
+                                    <option value="withdrawn">Withdrawn</option>
+                                    <option value="disqualified">Disqualified</option>
+                                </select>
+                                <button onClick={withdraw} disabled={saving}>Withdraw</button>
+                            </>
+                        )}
+                    </>
                 )}
             </td>
         </tr>
@@ -18,8 +18,8 @@ export const PlayerUpload: React.FC<PlayerUploadProps> = ({ onPlayersParsed }) =
             const lines = text.split(/\r?\n/).filter(Boolean);
             const players: Player[] = lines.map(line => {
                 // Support CSV formats with these columns (in order):
-                // name, phone, email, membershipId, city, state, effectiveRating, robustness
-                // email/membershipId/city/state/effectiveRating/robustness are optional
+                // name, phone, email, membershipId, city, state, effectiveRating, robustness, club
+                // email/membershipId/city/state/effectiveRating/robustness/club are optional
                 const parts = line.split(',').map(p => p.trim());
                 const name = parts[0] || '';
                 const phone = parts[1] || '';
@@ -29,6 +29,7 @@ export const PlayerUpload: React.FC<PlayerUploadProps> = ({ onPlayersParsed }) =
                 const state = parts[5] || undefined;
                 const effectiveRating = parts[6] !== undefined && parts[6] !== '' ? Number(parts[6]) : undefined;
                 const robustness = parts[7] !== undefined && parts[7] !== '' ? Number(parts[7]) : undefined;
+                const club = parts[8] || undefined;
                 const player: any = { name, phone };
                 if (email) player.email = email;
                 if (membershipId) player.membershipId = membershipId;
@@ -36,6 +37,7 @@ export const PlayerUpload: React.FC<PlayerUploadProps> = ({ onPlayersParsed }) =
                 if (state) player.state = state;
                 if (effectiveRating !== undefined && !Number.isNaN(effectiveRating)) player.effectiveRating = effectiveRating;
                 if (robustness !== undefined && !Number.isNaN(robustness)) player.robustness = robustness;
+                if (club) player.club = club;
                 return player as Player;
             });
             onPlayersParsed(players);
@@ -52,7 +54,7 @@ export const PlayerUpload: React.FC<PlayerUploadProps> = ({ onPlayersParsed }) =
                 onChange={handleFileChange}
                 style={{ display: 'block', marginBottom: '1em' }}
             />
-            <small>CSV format: name,phone,email,membershipId,city,state,effectiveRating,robustness</small>
+            <small>CSV format: name,phone,email,membershipId,city,state,effectiveRating,robustness,club</small>
         </div>
     );
 };
@@ -2,7 +2,10 @@ import * as React from 'react';
 import PlayerRow from './PlayerRow';
 import PreStartPlayerRow from './PreStartPlayerRow';
 import PlayersTable from './PlayersTable';
+import PlayerLookup from './PlayerLookup';
 import TournamentService from '../services/tournamentService';
+import { Projection } from '../services/projection';
+import { TableState } from '../types';
 
 interface PlayersPanelProps {
     bracketsData: any | null;
@@ -10,24 +13,29 @@ interface PlayersPanelProps {
     setPlayers: (p: any[]) => void;
     tournamentService: TournamentService;
     setBracketsData: (d: any) => void;
+    tables?: TableState;
+    projection?: Projection | null;
 }
 
-const PlayersPanel: React.FC<PlayersPanelProps> = ({ bracketsData, players, setPlayers, tournamentService, setBracketsData }) => {
+const PlayersPanel: React.FC<PlayersPanelProps> = ({ bracketsData, players, setPlayers, tournamentService, setBracketsData, tables, projection }) => {
     if (bracketsData) {
         return (
-            <PlayersTable caption="Players" subtitle="Edit phone numbers; other data is read-only.">
-                {bracketsData.participant.map((p: any) => (
-                    <PlayerRow
-                        key={p.id}
-                        participant={p}
-                        tournamentService={tournamentService}
-                        onSaved={async () => {
-                            const updated = await tournamentService.getTournamentData();
-                            setBracketsData(updated);
-                        }}
-                    />
-                ))}
-            </PlayersTable>
+            <>
+                <PlayerLookup bracketsData={bracketsData} {...(tables ? { tables } : {})} projection={projection ?? null} />
+                <PlayersTable caption="Players" subtitle="Edit phone numbers or withdraw a player; other data is read-only.">
+                    {bracketsData.participant.map((p: any) => (
+                        <PlayerRow
+                            key={p.id}
+                            participant={p}
+                            tournamentService={tournamentService}
+                            onSaved={async () => {
+                                const updated = await tournamentService.getTournamentData();
+                                setBracketsData(updated);
+                            }}
+                        />
+                    ))}
+                </PlayersTable>
+            </>
         );
     }
 
@@ -0,0 +1,112 @@
+import * as React from 'react';
+import { useState } from 'react';
+import { Match, MatchGame, RackEntry } from '../types';
+import { BreakFormat, getNextBreaker, getRaceWinner } from '../services/gameTypes';
+
+interface RackScorerProps {
+    match: Match;
+    // Match games of this match, played or not
+    racks: MatchGame[];
+    player1: string;
+    player2: string;
+    race1: number;
+    race2: number;
+    breakFormat: BreakFormat;
+    onRecordRack: (rack: RackEntry) => Promise<void>;
+}
+
+/**
+ * Rack-by-rack entry on a table card: who broke, who won the rack, and whether it
+ * was a break and run or the game ball on the snap. The breaker is suggested
+ * from the game type's break format. The rack that reaches a race is confirmed
+ * first, since it finishes the match.
+ */
+const RackScorer: React.FC<RackScorerProps> = ({ match, racks, player1, player2, race1, race2, breakFormat, onRecordRack }) => {
+    const [breakerOverride, setBreakerOverride] = useState<1 | 2 | null>(null);
+    const [breakAndRun, setBreakAndRun] = useState(false);
+    const [snap, setSnap] = useState(false);
+    const [busy, setBusy] = useState(false);
+
+    const played = racks
+        .filter(r => r.opponent1?.result === 'win' || r.opponent2?.result === 'win')
+        .sort((a, b) => a.number - b.number);
+    const breaker = breakerOverride ?? getNextBreaker(played, breakFormat);
+    const nameOf = (side: 1 | 2) => side === 1 ? player1 : player2;
+    // A break and run or a snap can only be won by the breaker
+    const onBreak = breakAndRun || snap;
+
+    const record = async (winner: 1 | 2) => {
+        const score1 = (match.opponent1?.score ?? 0) + (winner === 1 ? 1 : 0);
+        const score2 = (match.opponent2?.score ?? 0) + (winner === 2 ? 1 : 0);
+        if (getRaceWinner(score1, race1, score2, race2) === winner
+            && !window.confirm(`${nameOf(winner)} has reached ${winner === 1 ? race1 : race2}. Finish the match ${score1}-${score2}?`)) {
+            return;
+        }
+        setBusy(true);
+        try {
+            await onRecordRack({
+                winner,
+                ...(breaker ? { breaker } : {}),
+                ...(breakAndRun ? { breakAndRun: true } : {}),
+                ...(snap ? { snap: true } : {})
+            });
+            setBreakerOverride(null);
+            setBreakAndRun(false);
+            setSnap(false);
+        } catch (error) {
+            console.error('Error recording rack:', error);
+            alert(error instanceof Error ? error.message : 'Failed to record the rack.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="rack-scorer" style={{ marginTop: 6, fontSize: 12 }}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, alignItems: 'center' }}>
+                <strong>{match.opponent1?.score ?? 0} - {match.opponent2?.score ?? 0}</strong>
+                {played.map(r => {
+                    const winner = r.opponent1?.result === 'win' ? 1 : 2;
+                    const notes = [r.breaker ? `${nameOf(r.breaker)} broke` : '', r.breakAndRun ? 'break and run' : '', r.snap ? 'on the snap' : ''].filter(Boolean);
+                    return (
+                        <span
+                            key={r.id}
+                            title={`Rack ${r.number}: ${nameOf(winner)}${notes.length ? ` (${notes.join(', ')})` : ''}`}
+                            style={{ padding: '0 4px', borderRadius: 3, background: winner === 1 ? 'var(--accent-primary)' : 'var(--accent-secondary)', color: '#fff' }}
+                        >
+                            {winner}{r.breakAndRun ? '★' : ''}{r.snap ? '⚡' : ''}
+                        </span>
+                    );
+                })}
+            </div>
+
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center', marginTop: 4 }}>
+                <label>
+                    Break{' '}
+                    <select value={breaker ?? ''} onChange={(e) => setBreakerOverride(e.target.value ? Number(e.target.value) as 1 | 2 : null)} disabled={busy}>
+                        <option value="">--</option>
+                        <option value="1">{player1}</option>
+                        <option value="2">{player2}</option>
+                    </select>
+                </label>
+                <label><input type="checkbox" checked={breakAndRun} onChange={(e) => setBreakAndRun(e.target.checked)} disabled={busy || !breaker} /> B&amp;R</label>
+                <label><input type="checkbox" checked={snap} onChange={(e) => setSnap(e.target.checked)} disabled={busy || !breaker} /> Snap</label>
+            </div>
+
+            <div style={{ display: 'flex', gap: 4, marginTop: 4 }}>
+                {([1, 2] as const).map(side => (
+                    <button
+                        key={side}
+                        className="table-action-btn"
+                        onClick={() => record(side)}
+                        disabled={busy || (onBreak && breaker !== side)}
+                    >
+                        Rack → {nameOf(side)}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default RackScorer;
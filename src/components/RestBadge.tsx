@@ -0,0 +1,42 @@
+import * as React from 'react';
+import { useEffect, useState } from 'react';
+import { formatCountdown } from '../utils';
+
+interface RestBadgeProps {
+    // When the players of the match have had their minimum rest
+    until: number;
+}
+
+/**
+ * Countdown on a waiting match whose players are still resting from their last match.
+ * Disappears once the rest is over.
+ */
+const RestBadge: React.FC<RestBadgeProps> = ({ until }) => {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(timer);
+    }, []);
+
+    if (until <= now) return null;
+    return (
+        <span
+            className="rest-badge"
+            title="Auto-assignment leaves this match waiting until its players have rested"
+            style={{
+                display: 'inline-block',
+                marginTop: 6,
+                padding: '2px 6px',
+                borderRadius: 4,
+                fontSize: 12,
+                border: '1px solid var(--text-secondary)',
+                color: 'var(--text-secondary)'
+            }}
+        >
+            💤 Resting {formatCountdown(until - now)}
+        </span>
+    );
+};
+
+export default RestBadge;
@@ -0,0 +1,137 @@
+import * as React from 'react';
+import { Placing, PoolStandings } from '../services/standings';
+import { SwissStandingRow } from '../services/swiss';
+import { WithdrawalReason } from '../types';
+import { getForfeitLabel } from '../utils';
+
+interface StandingsTableProps {
+    standings: PoolStandings[];
+    swiss?: SwissStandingRow[];
+    // Final places of an elimination bracket
+    placings?: Placing[];
+}
+
+const formatDifferential = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+const PlayerName: React.FC<{ name: string; withdrawn?: WithdrawalReason | undefined }> = ({ name, withdrawn }) => (
+    <>
+        {name}
+        {withdrawn && <span style={{ marginLeft: 6, color: 'var(--accent-error)' }}>({getForfeitLabel(withdrawn)})</span>}
+    </>
+);
+
+/**
+ * Standings of every round-robin pool. Ties on wins are broken by head-to-head,
+ * then rack differential, then racks won. A Swiss stage is shown as a single
+ * table ranked by points, Buchholz and Sonneborn-Berger, and a finished elimination
+ * bracket as its final places. Players who left the event are marked with the reason.
+ */
+const StandingsTable: React.FC<StandingsTableProps> = ({ standings, swiss = [], placings = [] }) => {
+    if (swiss.length > 0) {
+        return (
+            <div style={{ padding: 12 }}>
+                <h3 style={{ margin: 0 }}>Standings</h3>
+                <p style={{ color: 'var(--text-secondary)', marginTop: 4 }}>
+                    Ranked by points; ties are broken by Buchholz, then Sonneborn-Berger, then rack differential.
+                </p>
+                <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 12 }}>
+                    <thead>
+                        <tr style={{ textAlign: 'left', borderBottom: '1px solid var(--border)' }}>
+                            <th style={{ padding: 8, width: 50 }}>#</th>
+                            <th style={{ padding: 8 }}>Player</th>
+                            <th style={{ padding: 8, width: 70 }}>Pts</th>
+                            <th style={{ padding: 8, width: 90 }}>W-L-D</th>
+                            <th style={{ padding: 8, width: 70 }}>Byes</th>
+                            <th style={{ padding: 8, width: 70 }}>Buch</th>
+                            <th style={{ padding: 8, width: 70 }}>SB</th>
+                            <th style={{ padding: 8, width: 70 }}>Diff</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {swiss.map(row => (
+                            <tr key={row.participantId} style={{ borderBottom: '1px solid var(--border)' }}>
+                                <td style={{ padding: 8 }}>{row.rank}</td>
+                                <td style={{ padding: 8 }}><PlayerName name={row.name} withdrawn={row.withdrawn} /></td>
+                                <td style={{ padding: 8 }}>{row.points}</td>
+                                <td style={{ padding: 8 }}>{row.wins}-{row.losses}-{row.draws}</td>
+                                <td style={{ padding: 8 }}>{row.byes}</td>
+                                <td style={{ padding: 8 }}>{row.buchholz}</td>
+                                <td style={{ padding: 8 }}>{row.sonnebornBerger}</td>
+                                <td style={{ padding: 8 }}>{formatDifferential(row.rackDifferential)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        );
+    }
+
+    if (standings.length === 0 && placings.length > 0) {
+        return (
+            <div style={{ padding: 12 }}>
+                <h3 style={{ margin: 0 }}>Final Standings</h3>
+                <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 12 }}>
+                    <thead>
+                        <tr style={{ textAlign: 'left', borderBottom: '1px solid var(--border)' }}>
+                            <th style={{ padding: 8, width: 50 }}>#</th>
+                            <th style={{ padding: 8 }}>Player</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {placings.map(row => (
+                            <tr key={row.participantId} style={{ borderBottom: '1px solid var(--border)' }}>
+                                <td style={{ padding: 8 }}>{row.rank}</td>
+                                <td style={{ padding: 8 }}><PlayerName name={row.name} withdrawn={row.withdrawn} /></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        );
+    }
+
+    if (standings.length === 0) return null;
+
+    return (
+        <div style={{ padding: 12 }}>
+            <h3 style={{ margin: 0 }}>Standings</h3>
+            <p style={{ color: 'var(--text-secondary)', marginTop: 4 }}>
+                Ranked by wins; ties are broken by head-to-head, then rack differential.
+            </p>
+
+            {standings.map(pool => (
+                <div key={pool.groupId} style={{ marginTop: 12 }}>
+                    {standings.length > 1 && <h4 style={{ margin: '8px 0' }}>Pool {pool.groupNumber}</h4>}
+                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                        <thead>
+                            <tr style={{ textAlign: 'left', borderBottom: '1px solid var(--border)' }}>
+                                <th style={{ padding: 8, width: 50 }}>#</th>
+                                <th style={{ padding: 8 }}>Player</th>
+                                <th style={{ padding: 8, width: 70 }}>Played</th>
+                                <th style={{ padding: 8, width: 70 }}>W</th>
+                                <th style={{ padding: 8, width: 70 }}>L</th>
+                                <th style={{ padding: 8, width: 100 }}>Racks</th>
+                                <th style={{ padding: 8, width: 70 }}>Diff</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {pool.rows.map(row => (
+                                <tr key={row.participantId} style={{ borderBottom: '1px solid var(--border)' }}>
+                                    <td style={{ padding: 8 }}>{row.rank}</td>
+                                    <td style={{ padding: 8 }}><PlayerName name={row.name} withdrawn={row.withdrawn} /></td>
+                                    <td style={{ padding: 8 }}>{row.played}</td>
+                                    <td style={{ padding: 8 }}>{row.wins}</td>
+                                    <td style={{ padding: 8 }}>{row.losses}</td>
+                                    <td style={{ padding: 8 }}>{row.racksWon}-{row.racksLost}</td>
+                                    <td style={{ padding: 8 }}>{formatDifferential(row.rackDifferential)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default StandingsTable;
@@ -1,14 +1,25 @@
 import * as React from 'react';
 import { useState, useEffect, useRef } from 'react';
-import { Match, Participant } from '../types';
-import { getUserFriendlyRoundNumber } from '../utils';
-
-// TUNABLE: Increase >1 to make Losers Bracket matches more aggressive (higher priority)
-// Decrease <1 to make losers less aggressive. Default 1.05 gives a modest boost to LB.
-const LB_AGGRESSIVENESS = 1.25;
+import { CallTimerSettings, ForfeitReason, Match, MatchGame, Participant, RackEntry, Stage, TableRule, TableSettings, TableState } from '../types';
+import { formatClockTime, formatEstimatedStart, getUserFriendlyRoundNumber, getMatchPositions, getMatchRaces, getRaceLabel, isPoolMatch, isSwissMatch } from '../utils';
+import { getGameTypeRules } from '../services/gameTypes';
+import RackScorer from './RackScorer';
+import LiveScore from './LiveScore';
+import CallTimer from './CallTimer';
+import RestBadge from './RestBadge';
+import TableSettingsEditor from './TableSettingsEditor';
+import TableRulesEditor from './TableRulesEditor';
+import { getRestRemaining, getSchedulingStrategies, getSchedulingStrategy, pickNextMatch } from '../services/scheduler';
+import { getHoldReason, getTableName as getTableLabel } from '../services/tableManager';
+import { canPlayOnTable, isTableInService } from '../services/tableRules';
+import { Projection } from '../services/projection';
+
+// Later matches listed under the waiting ones
+const LATER_MATCHES_SHOWN = 12;
 
 interface TableAssignmentProps {
-    tables: number;
+    // Table layout; the matches on the tables carry their table number
+    tables: TableState;
     matches: Match[];
     onMoveMatch: (match: Match, tableId?: number) => void;
     onReturnToWaiting: (match: Match) => void;
@@ -20,6 +31,28 @@ interface TableAssignmentProps {
     onRemoveTable: () => void;
     participants: Participant[];
     allMatches?: Match[]; // All tournament matches for proper round calculation
+    stages?: Stage[]; // Stages of the tournament, to recognise round-robin pools
+    onRenameTable?: (tableId: number, name: string) => void;
+    // Racks of all matches; with onRecordRack, matches scored in racks can be scored rack by rack
+    matchGames?: MatchGame[];
+    onRecordRack?: (match: Match, rack: RackEntry) => Promise<void>;
+    // Keeps the score of a match during play; other matches are scored rack by rack or with the score modal
+    onAdjustScore?: (match: Match, side: 1 | 2, delta: number) => Promise<void>;
+    // No-show countdown for matches sent to a table, with the actions it offers
+    callTimer?: CallTimerSettings;
+    onCallTimerChange?: (settings: CallTimerSettings) => void;
+    onStartMatch?: (match: Match) => Promise<void>;
+    onForfeit?: (match: Match, side: 1 | 2, reason: ForfeitReason) => Promise<void>;
+    // Switch auto-assignment of free tables, and the scheduling strategy used by it and "Assign Next"
+    onAutoAssignChange?: (enabled: boolean) => void;
+    onSchedulerChange?: (name: string) => void;
+    // Minimum rest between a player's matches, in minutes
+    onMinRestChange?: (minutes: number) => void;
+    // Table attributes (size, cloth, featured, out of service) and the rules tying rounds to tables
+    onTableSettingsChange?: (tableId: number, updates: Partial<TableSettings>) => void;
+    onRulesChange?: (rules: TableRule[]) => void;
+    // Estimated start times of the matches to come and the projected finish
+    projection?: Projection | null;
 }
 
 export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
@@ -33,8 +66,24 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
     onRemoveTable,
     participants,
     allMatches,
-    onOpenScoreModal
+    stages,
+    onOpenScoreModal,
+    onRenameTable,
+    matchGames = [],
+    onRecordRack,
+    onAdjustScore,
+    callTimer,
+    onCallTimerChange,
+    onStartMatch,
+    onForfeit,
+    onAutoAssignChange,
+    onSchedulerChange,
+    onMinRestChange,
+    onTableSettingsChange,
+    onRulesChange,
+    projection
 }) => {
+    const tableCount = tables.tableCount;
     // score modal is handled by the shared BracketScoreModal in the renderer
     // selected table per waiting match id
     const [selectedTableByMatch, setSelectedTableByMatch] = React.useState<Record<number, number | null>>({});
@@ -75,179 +124,47 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [matches]);
 
+    // Stage-relative bracket group (1 = WB, 2 = LB, 3 = finals); storage group ids are global.
+    // Round-robin pools have no bracket sides, so their matches are all handled like group 1.
+    const positions = React.useMemo(
+        () => getMatchPositions(allMatches || [...matches, ...waitingMatches]),
+        [allMatches, matches, waitingMatches]
+    );
+    const groupOf = (m: Match) => isPoolMatch(m, stages) ? 1 : positions.get(m.id)?.groupNumber ?? m.group_id;
+    const hasPools = waitingMatches.some(m => isPoolMatch(m, stages));
+    const hasSwiss = waitingMatches.some(m => isSwissMatch(m, stages));
+
     // Use shared utility for friendly round labels
-    const friendlyRound = (m: Match) => getUserFriendlyRoundNumber(m, allMatches);
-
-    // Parse friendly round into structured info for scoring
-    const parseFriendlyRound = (m: Match) => {
-        const label = friendlyRound(m) || '';
-        const wbMatch = label.match(/^WB Round\s*(\d+)/i);
-        if (wbMatch) return { bracket: 'WB', roundNum: parseInt(String(wbMatch[1]), 10) };
-        const lbMatch = label.match(/^LB Round\s*(\d+)/i);
-        if (lbMatch) return { bracket: 'LB', roundNum: parseInt(String(lbMatch[1]), 10) };
-        if (/finals/i.test(label)) return { bracket: 'F', roundNum: null };
-        // If friendly label cannot be determined, return unknown and no roundNum to avoid using internal ids
-        return { bracket: 'UNK', roundNum: null };
-    };
+    const friendlyRound = (m: Match) => getUserFriendlyRoundNumber(m, allMatches, stages);
 
-    // Calculate priority score for a match based on double elimination tournament flow
-    const getMatchPriority = (match: Match): number => {
-        const { group_id } = match;
-        const parsed = parseFriendlyRound(match);
-        const r = parsed.roundNum ?? 0;
-
-        if (group_id === 1) {
-            // Winners Bracket Priority — use friendly WB numbering
-            return 10000 - (r * 100);
-        } else if (group_id === 2) {
-            // Losers Bracket Priority — use friendly LB numbering
-            if (r === 1) {
-                return Math.round(9900 * LB_AGGRESSIVENESS); // Just below WB1
-            } else if (r % 2 === 0) {
-                const correspondingWBRound = (r / 2) + 1;
-                return Math.round((10000 - (correspondingWBRound * 100) - 10) * LB_AGGRESSIVENESS);
-            } else {
-                const correspondingWBRound = Math.ceil(r / 2);
-                return Math.round((10000 - (correspondingWBRound * 100) - 50) * LB_AGGRESSIVENESS);
-            }
-        } else {
-            if (group_id === 3) {
-                return 15000 - (r || 0);
-            }
-            return 14000 - (r || 0);
-        }
+    // The scheduler's view of the tournament, with the rest rule of the tables
+    const restContext = {
+        allMatches: allMatches || [...matches, ...waitingMatches],
+        minRestMinutes: tables.minRestMinutes || 0,
+        ...(stages ? { stages } : {})
     };
 
-    /*
-     * DOUBLE ELIMINATION TOURNAMENT FLOW ALGORITHM
-     * 
-     * This algorithm implements optimal match assignment following these principles:
-     * 
-     * 1. WINNERS BRACKET PRIORITY: WB matches form the foundation - they must progress to unlock LB matches
-     * 2. PARALLEL EXECUTION: LB matches can run simultaneously with WB matches when dependencies allow
-     * 3. DEPENDENCY MANAGEMENT: LB matches only become available after their WB dependencies complete
-     * 
-     * PRIORITY ORDER (for any tournament size):
-     * 1. Grand Finals - Highest priority when available
-     * 2. Winners Bracket - Foundation matches, prioritized by round (WB1 → WB2 → WB3...)
-     * 3. Parallel Losers Bracket - LB matches that can run alongside WB matches
-     * 4. Sequential Losers Bracket - LB matches that must wait for WB completion
-     * 
-     * PARALLEL EXECUTION RULES:
-     * - LB1 must wait for WB1 to complete (needs WB1 losers)
-     * - LB2 can run parallel with WB2 (has WB1 losers vs LB1 winners)
-     * - LB3 must wait for WB2 to complete (needs WB2 losers)  
-     * - LB4 can run parallel with WB3 (has WB2 losers vs LB3 winners)
-     * - Pattern: Even LB rounds can run parallel, odd LB rounds must wait
-     * 
-     * This maximizes table utilization while respecting tournament dependencies.
-     */
-
-    // Get all currently assigned matches to understand tournament state
-    const getAssignedMatchesByBracket = () => {
-        const assigned = matches.filter(m => m.table !== null && m.table !== undefined);
-        return {
-            wb: assigned.filter(m => m.group_id === 1),
-            lb: assigned.filter(m => m.group_id === 2),
-            gf: assigned.filter(m => m.group_id >= 3)
-        };
+    // When the players of a waiting match are rested, or null when they already are
+    const restedAt = (m: Match): number | null => {
+        const remaining = getRestRemaining(m, { ...restContext, onTables: matches });
+        return remaining > 0 ? Date.now() + remaining : null;
     };
 
-    // Advanced priority function following double elimination tournament flow
-    const getOptimalMatch = (availableMatches: Match[]): Match | null => {
-        if (availableMatches.length === 0) return null;
-        const assignedMatches = getAssignedMatchesByBracket();
-
-        // Build a set of participant IDs currently playing to avoid double-assigning a player
-        const currentlyPlaying = new Set<number>();
-        const assigned = matches.filter(m => m.table !== null && m.table !== undefined);
-        assigned.forEach(a => {
-            if (a.opponent1 && a.opponent1.id != null) currentlyPlaying.add(a.opponent1.id);
-            if (a.opponent2 && a.opponent2.id != null) currentlyPlaying.add(a.opponent2.id);
-        });
-
-        // Exclude any available matches where one of the opponents is already playing
-        const filteredAvailable = availableMatches.filter(m => {
-            const o1 = m.opponent1 && m.opponent1.id != null ? m.opponent1.id : null;
-            const o2 = m.opponent2 && m.opponent2.id != null ? m.opponent2.id : null;
-            if (o1 !== null && currentlyPlaying.has(o1)) return false;
-            if (o2 !== null && currentlyPlaying.has(o2)) return false;
-            return true;
-        });
-
-        const usableMatches = filteredAvailable.length > 0 ? filteredAvailable : availableMatches;
+    // Why the table rules keep a waiting match off the free tables
+    const holdReason = (m: Match) => getHoldReason(m, restContext.allMatches, stages, tables);
 
-        // Group usable matches
-        const gfMatches = usableMatches.filter(m => m.group_id >= 3);
-        const wbMatches = usableMatches.filter(m => m.group_id === 1);
-        const lbMatches = usableMatches.filter(m => m.group_id === 2);
-
-        // (debug instrumentation removed)
-
-        // If grand finals available, choose the highest priority GF
-        if (gfMatches.length > 0) {
-            // Use existing priority function for finals
-            const sortedGF = gfMatches.sort((a, b) => getMatchPriority(b) - getMatchPriority(a));
-            return sortedGF[0] || null;
-        }
-
-        // Heuristic scoring: higher score = higher priority
-        const scoreMatch = (m: Match) => {
-            const parsed = parseFriendlyRound(m);
-            const rr = parsed.roundNum ?? 0;
-            // base values
-            if (m.group_id === 1) {
-                // Winners: earlier friendly rounds higher priority
-                return 80000 - (rr) * 1000 - (m.number || 0);
-            }
-
-            if (m.group_id === 2) {
-                // Losers using friendly LB numbering
-                if (rr === 1) return Math.round((20000 - (m.number || 0)) * LB_AGGRESSIVENESS);
-
-                if (rr % 2 === 0) {
-                    const correspondingWBRound = (rr / 2) + 1;
-                    const wbInPlayOrWaiting = assignedMatches.wb.some(x => {
-                        const p = parseFriendlyRound(x);
-                        return p.bracket === 'WB' && p.roundNum === correspondingWBRound;
-                    }) || wbMatches.some(x => {
-                        const p = parseFriendlyRound(x);
-                        return p.bracket === 'WB' && p.roundNum === correspondingWBRound;
-                    });
-                    if (wbInPlayOrWaiting) {
-                        return Math.round((79000 - correspondingWBRound * 1000 - (m.number || 0)) * LB_AGGRESSIVENESS);
-                    }
-                    return Math.round((40000 - (rr) * 100) * LB_AGGRESSIVENESS);
-                }
-
-                const correspondingWBRound = Math.ceil(rr / 2);
-                const wbInPlay = assignedMatches.wb.some(x => {
-                    const p = parseFriendlyRound(x);
-                    return p.bracket === 'WB' && p.roundNum === correspondingWBRound;
-                });
-                return Math.round(((wbInPlay ? 70000 : 30000) - (rr) * 100 - (m.number || 0)) * LB_AGGRESSIVENESS);
-            }
-
-            return 0;
-        };
-
-        // Build scored list and pick highest score
-        const scored = usableMatches.map(m => ({ m, score: scoreMatch(m) }));
-        // sort using score first, then friendly round number, then match number
-        scored.sort((a, b) => {
-            const diff = (b.score || 0) - (a.score || 0);
-            if (diff !== 0) return diff;
-            const aRound = parseFriendlyRound(a.m).roundNum || 0;
-            const bRound = parseFriendlyRound(b.m).roundNum || 0;
-            const roundDiff = aRound - bRound;
-            if (roundDiff !== 0) return roundDiff;
-            return (a.m.number || 0) - (b.m.number || 0);
-        });
-
-        return scored[0] ? scored[0].m : null;
+    // " • Est. start ~14:35" for a match with a projection
+    const estimatedStart = (m: Match) => {
+        const projected = projection?.matches.get(m.id);
+        return projected ? ` • Est. start ${formatEstimatedStart(projected.start, Date.now())}` : '';
     };
 
-    // Manual assign function with proper double elimination priority
+    // Matches still waiting for their players, in the order they are expected to start
+    const laterMatches = (allMatches || [])
+        .filter(m => (m.status === 0 || m.status === 1) && m.opponent1 !== null && m.opponent2 !== null && projection?.matches.has(m.id))
+        .sort((a, b) => projection!.matches.get(a.id)!.start - projection!.matches.get(b.id)!.start);
+
+    // Manual assign: the scheduler picks the same match auto-assignment would
     const handleAssignNext = (tableId: number) => {
         // Re-check occupancy before assigning
         const occupied = matches.some(mm => mm.table === tableId);
@@ -257,7 +174,9 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
             return;
         }
 
-        const nextMatch = getOptimalMatch(waitingMatches);
+        const context = { ...restContext, onTables: matches };
+        const allowed = waitingMatches.filter(m => canPlayOnTable(m, tableId, tables, restContext.allMatches, stages));
+        const nextMatch = pickNextMatch(allowed, context, tables.scheduler);
         if (nextMatch) {
             console.log(`Assigning match #${nextMatch.number} (${friendlyRound(nextMatch)}) to table ${tableId}`);
             onMoveMatch(nextMatch, tableId);
@@ -267,6 +186,27 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
     };
 
     // Helper function to get participant name by ID
+    // Inline table rename (click the table title)
+    const [renamingTable, setRenamingTable] = useState<number | null>(null);
+    const [renameValue, setRenameValue] = useState<string>('');
+    // Table whose attributes are being edited on its card
+    const [editingTable, setEditingTable] = useState<number | null>(null);
+
+    const startRename = (tableId: number) => {
+        if (!onRenameTable) return;
+        setRenamingTable(tableId);
+        setRenameValue(getTableName(tableId));
+    };
+
+    const commitRename = () => {
+        if (renamingTable === null) return;
+        const name = renameValue.trim();
+        if (name && name !== getTableName(renamingTable) && onRenameTable) {
+            onRenameTable(renamingTable, name);
+        }
+        setRenamingTable(null);
+    };
+
     const getParticipantName = (participantId: number | null | undefined): string => {
         if (!participantId) return 'TBD';
         const participant = participants.find(p => p.id === participantId);
@@ -275,10 +215,7 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
 
     // Helper function to get table name
     const getTableName = (tableId: number): string => {
-        if (tableId === 1) {
-            return 'Stream Table';
-        }
-        return `Table ${tableId - 1}`;
+        return getTableLabel(tables, tableId);
     };
 
 
@@ -289,9 +226,9 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
             <div className="waiting-matches-header-section">
                 {(() => {
                     // Separate matches by group (Winners vs Losers bracket vs Grand Finals)
-                    const winnersBracketMatches = waitingMatches.filter(m => m.group_id === 1);
-                    const losersBracketMatches = waitingMatches.filter(m => m.group_id === 2);
-                    const grandFinalsMatches = waitingMatches.filter(m => m.group_id >= 3);
+                    const winnersBracketMatches = waitingMatches.filter(m => groupOf(m) === 1);
+                    const losersBracketMatches = waitingMatches.filter(m => groupOf(m) === 2);
+                    const grandFinalsMatches = waitingMatches.filter(m => groupOf(m) >= 3);
 
                     return (
                         <>
@@ -300,7 +237,7 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
                                 <div className="bracket-section">
                                     <div className="waiting-matches-header">
                                         <h3 className="waiting-matches-title">
-                                            🏆 Winners Bracket
+                                            {hasSwiss ? '🎱 Swiss Matches' : hasPools ? '🎱 Pool Matches' : '🏆 Winners Bracket'}
                                         </h3>
                                         <span className="matches-count-badge">
                                             {winnersBracketMatches.length}
@@ -309,6 +246,8 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
 
                                     <div className="waiting-matches-horizontal">
                                         {winnersBracketMatches.map((match) => {
+                                            const restUntil = restedAt(match);
+                                            const heldBack = holdReason(match);
                                             return (
                                                 <div
                                                     key={match.id}
@@ -327,11 +266,11 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
                                                                 aria-label={`Select table for match ${match.number}`}
                                                             >
                                                                 <option value="">Pick table...</option>
-                                                                {Array.from({ length: tables }).map((_, ti) => {
+                                                                {Array.from({ length: tableCount }).map((_, ti) => {
                                                                     const tnum = ti + 1;
-                                                                    const occupied = matches.some(mm => mm.table === tnum);
+                                                                    const occupied = matches.some(mm => mm.table === tnum) || !isTableInService(tables, tnum);
                                                                     return (
-                                                                        <option key={tnum} value={tnum} disabled={occupied}>{tnum === 1 ? 'Stream' : `Table ${tnum - 1}`}</option>
+                                                                        <option key={tnum} value={tnum} disabled={occupied}>{getTableName(tnum)}</option>
                                                                     );
                                                                 })}
                                                             </select>
@@ -365,8 +304,14 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
                                                         </div>
                                                     </div>
                                                     <div className="waiting-match-details">
-                                                        Match #{match.number} • {friendlyRound(match)}
+                                                        Match #{match.number} • {friendlyRound(match)}{getRaceLabel(match) && ` • ${getRaceLabel(match)}`}{estimatedStart(match)}
                                                     </div>
+                                                    {restUntil !== null && <RestBadge until={restUntil} />}
+                                                    {heldBack && (
+                                                        <div className="hold-reason" style={{ marginTop: 6, fontSize: 12, color: 'var(--accent-warning)' }}>
+                                                            ⏸ Held back: {heldBack}
+                                                        </div>
+                                                    )}
                                                 </div>
                                             );
                                         })}
@@ -388,6 +333,8 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
 
                                     <div className="waiting-matches-horizontal">
                                         {losersBracketMatches.map((match) => {
+                                            const restUntil = restedAt(match);
+                                            const heldBack = holdReason(match);
                                             return (
                                                 <div
                                                     key={match.id}
@@ -405,11 +352,11 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
                                                             aria-label={`Select table for match ${match.number}`}
                                                         >
                                                             <option value="">Pick table...</option>
-                                                            {Array.from({ length: tables }).map((_, ti) => {
+                                                            {Array.from({ length: tableCount }).map((_, ti) => {
                                                                 const tnum = ti + 1;
-                                                                const occupied = matches.some(mm => mm.table === tnum);
+                                                                const occupied = matches.some(mm => mm.table === tnum) || !isTableInService(tables, tnum);
                                                                 return (
-                                                                    <option key={tnum} value={tnum} disabled={occupied}>{tnum === 1 ? 'Stream' : `Table ${tnum - 1}`}</option>
+                                                                    <option key={tnum} value={tnum} disabled={occupied}>{getTableName(tnum)}</option>
                                                                 );
                                                             })}
                                                         </select>
@@ -425,8 +372,14 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
                                                         </button>
                                                     </div>
                                                     <div className="waiting-match-details">
-                                                        Match #{match.number} • {friendlyRound(match)}
+                                                        Match #{match.number} • {friendlyRound(match)}{getRaceLabel(match) && ` • ${getRaceLabel(match)}`}{estimatedStart(match)}
                                                     </div>
+                                                    {restUntil !== null && <RestBadge until={restUntil} />}
+                                                    {heldBack && (
+                                                        <div className="hold-reason" style={{ marginTop: 6, fontSize: 12, color: 'var(--accent-warning)' }}>
+                                                            ⏸ Held back: {heldBack}
+                                                        </div>
+                                                    )}
                                                 </div>
                                             );
                                         })}
@@ -448,6 +401,8 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
 
                                     <div className="waiting-matches-horizontal">
                                         {grandFinalsMatches.map((match) => {
+                                            const restUntil = restedAt(match);
+                                            const heldBack = holdReason(match);
                                             return (
                                                 <div
                                                     key={match.id}
@@ -465,11 +420,11 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
                                                             aria-label={`Select table for match ${match.number}`}
                                                         >
                                                             <option value="">Pick table...</option>
-                                                            {Array.from({ length: tables }).map((_, ti) => {
+                                                            {Array.from({ length: tableCount }).map((_, ti) => {
                                                                 const tnum = ti + 1;
-                                                                const occupied = matches.some(mm => mm.table === tnum);
+                                                                const occupied = matches.some(mm => mm.table === tnum) || !isTableInService(tables, tnum);
                                                                 return (
-                                                                    <option key={tnum} value={tnum} disabled={occupied}>{tnum === 1 ? 'Stream' : `Table ${tnum - 1}`}</option>
+                                                                    <option key={tnum} value={tnum} disabled={occupied}>{getTableName(tnum)}</option>
                                                                 );
                                                             })}
                                                         </select>
@@ -485,8 +440,14 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
                                                         </button>
                                                     </div>
                                                     <div className="waiting-match-details">
-                                                        Match #{match.number} • {friendlyRound(match)}
+                                                        Match #{match.number} • {friendlyRound(match)}{getRaceLabel(match) && ` • ${getRaceLabel(match)}`}{estimatedStart(match)}
                                                     </div>
+                                                    {restUntil !== null && <RestBadge until={restUntil} />}
+                                                    {heldBack && (
+                                                        <div className="hold-reason" style={{ marginTop: 6, fontSize: 12, color: 'var(--accent-warning)' }}>
+                                                            ⏸ Held back: {heldBack}
+                                                        </div>
+                                                    )}
                                                 </div>
                                             );
                                         })}
@@ -514,6 +475,35 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
                                     </div>
                                 </div>
                             )}
+
+                            {/* Matches whose players are still playing their way in */}
+                            {laterMatches.length > 0 && (
+                                <div className="bracket-section">
+                                    <div className="waiting-matches-header">
+                                        <h3 className="waiting-matches-title">
+                                            🔒 Later Matches
+                                        </h3>
+                                        <span className="matches-count-badge">
+                                            {laterMatches.length}
+                                        </span>
+                                    </div>
+
+                                    <div className="waiting-matches-horizontal">
+                                        {laterMatches.slice(0, LATER_MATCHES_SHOWN).map(match => (
+                                            <div key={match.id} className="waiting-match-card" style={{ opacity: 0.75 }}>
+                                                <div className="waiting-match-players">
+                                                    {getParticipantName(match.opponent1?.id)}
+                                                    <span className="waiting-match-vs"> vs </span>
+                                                    {getParticipantName(match.opponent2?.id)}
+                                                </div>
+                                                <div className="waiting-match-details">
+                                                    Match #{match.number} • {friendlyRound(match)}{estimatedStart(match)}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
                         </>
                     );
                 })()}
@@ -523,41 +513,164 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
             <div className="tables-main-section">
                 <div className="tables-main-header">
                     <h3 className="tables-main-title">
-                        Tables ({tables})
+                        Tables ({tableCount})
                     </h3>
+                    {projection?.finish != null && (
+                        <span
+                            className="projected-finish"
+                            style={{ fontSize: 'var(--font-size-sm)', color: 'var(--text-secondary)' }}
+                            title={projection.averages.length > 0
+                                ? projection.averages.map(a => `Race to ${a.race}: ${Math.round(a.minutes)} min average over ${a.count} match${a.count !== 1 ? 'es' : ''}`).join('\n')
+                                : 'No matches timed yet; using the usual pace of the game'}
+                        >
+                            Projected finish ~{formatClockTime(projection.finish)}
+                        </span>
+                    )}
                     <div className="table-controls">
 
                         <button
                             onClick={onAddTable}
                             className="table-control-btn add-table-btn"
-                            disabled={tables >= 100}
+                            disabled={tableCount >= 100}
                         >
                             + Add Table
                         </button>
                         <button
                             onClick={onRemoveTable}
-                            disabled={tables <= 1}
+                            disabled={tableCount <= 1}
                             className="table-control-btn remove-table-btn"
                         >
                             - Remove Table
                         </button>
                     </div>
+                    {onAutoAssignChange && (
+                        <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 'var(--font-size-sm)' }}>
+                            <input
+                                type="checkbox"
+                                checked={tables.globalAutoAssign}
+                                onChange={e => onAutoAssignChange(e.target.checked)}
+                            />
+                            Auto-assign free tables
+                        </label>
+                    )}
+                    {onSchedulerChange && (
+                        <label className="scheduler-settings" style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 'var(--font-size-sm)' }}>
+                            Next match by
+                            <select
+                                value={getSchedulingStrategy(tables.scheduler).name}
+                                onChange={e => onSchedulerChange(e.target.value)}
+                                title={getSchedulingStrategy(tables.scheduler).description}
+                            >
+                                {getSchedulingStrategies().map(strategy => (
+                                    <option key={strategy.name} value={strategy.name} title={strategy.description}>{strategy.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+                    {onMinRestChange && (
+                        <label className="rest-settings" style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 'var(--font-size-sm)' }} title="Players rest this long after a match before auto-assignment or Assign Next sends them out again, unless every table would sit idle">
+                            Min. rest
+                            <input
+                                type="number"
+                                min={0}
+                                value={tables.minRestMinutes || 0}
+                                onChange={e => onMinRestChange(Math.max(0, Number(e.target.value) || 0))}
+                                style={{ width: 48 }}
+                            />
+                            min
+                        </label>
+                    )}
+                    {onRulesChange && <TableRulesEditor rules={tables.rules || []} onChange={onRulesChange} />}
+                    {callTimer && onCallTimerChange && (
+                        <div className="call-timer-settings" style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 'var(--font-size-sm)' }}>
+                            <label>
+                                <input
+                                    type="checkbox"
+                                    checked={callTimer.enabled}
+                                    onChange={e => onCallTimerChange({ ...callTimer, enabled: e.target.checked })}
+                                />{' '}
+                                No-show timer
+                            </label>
+                            <input
+                                type="number"
+                                min={1}
+                                value={callTimer.minutes}
+                                onChange={e => onCallTimerChange({ ...callTimer, minutes: Math.max(1, Number(e.target.value) || 1) })}
+                                disabled={!callTimer.enabled}
+                                style={{ width: 48 }}
+                            />
+                            <span>min, call again every</span>
+                            <input
+                                type="number"
+                                min={0}
+                                value={callTimer.recallMinutes}
+                                onChange={e => onCallTimerChange({ ...callTimer, recallMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                                disabled={!callTimer.enabled}
+                                style={{ width: 48 }}
+                                title="0 = call once"
+                            />
+                            <span>min</span>
+                        </div>
+                    )}
                 </div>
 
                 <div className="tables-grid">
-                    {Array.from({ length: tables }).map((_, i) => {
+                    {Array.from({ length: tableCount }).map((_, i) => {
                         const tableId = i + 1;
                         const assignedMatch = matches.find(m => m.table === tableId);
+                        const settings = tables.tableSettings[tableId];
+                        const inService = isTableInService(tables, tableId);
+                        const attributes = [settings?.size, settings?.cloth, settings?.featured ? '★ Featured' : ''].filter(Boolean).join(' • ');
 
                         return (
                             <div
                                 key={tableId}
-                                className={`table-assignment-card ${assignedMatch ? 'occupied' : ''}`}
+                                className={`table-assignment-card ${assignedMatch ? 'occupied' : ''} ${inService ? '' : 'out-of-service'}`}
+                                style={inService ? undefined : { opacity: 0.6 }}
                             >
                                 <div className="table-card-header">
-                                    <h4 className="table-card-title">{getTableName(tableId)}</h4>
+                                    {renamingTable === tableId ? (
+                                        <input
+                                            className="table-card-title"
+                                            value={renameValue}
+                                            autoFocus
+                                            onChange={e => setRenameValue(e.target.value)}
+                                            onBlur={commitRename}
+                                            onKeyDown={e => {
+                                                if (e.key === 'Enter') commitRename();
+                                                if (e.key === 'Escape') setRenamingTable(null);
+                                            }}
+                                        />
+                                    ) : (
+                                        <h4
+                                            className="table-card-title"
+                                            onClick={() => startRename(tableId)}
+                                            title={onRenameTable ? 'Click to rename' : undefined}
+                                            style={onRenameTable ? { cursor: 'text' } : undefined}
+                                        >
+                                            {getTableName(tableId)}
+                                        </h4>
+                                    )}
                                     <span className="table-card-number">{tableId === 1 ? 'S' : tableId - 1}</span>
+                                    {onTableSettingsChange && (
+                                        <button
+                                            className="secondary"
+                                            onClick={() => setEditingTable(editingTable === tableId ? null : tableId)}
+                                            title="Table settings"
+                                            aria-expanded={editingTable === tableId}
+                                        >
+                                            ⚙
+                                        </button>
+                                    )}
                                 </div>
+                                {attributes && (
+                                    <div className="table-card-attributes" style={{ fontSize: 'var(--font-size-xs)', color: 'var(--text-secondary)' }}>
+                                        {attributes}
+                                    </div>
+                                )}
+                                {editingTable === tableId && onTableSettingsChange && (
+                                    <TableSettingsEditor settings={settings || {}} onChange={updates => onTableSettingsChange(tableId, updates)} />
+                                )}
 
                                 <div className="table-card-content">
                                     {assignedMatch ? (
@@ -568,9 +681,59 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
                                                 {getParticipantName(assignedMatch.opponent2?.id)}
                                             </div>
                                             <div className="table-match-round">
-                                                Match #{assignedMatch.number} • {friendlyRound(assignedMatch)}
+                                                Match #{assignedMatch.number} • {friendlyRound(assignedMatch)}{getRaceLabel(assignedMatch) && ` • ${getRaceLabel(assignedMatch)}`}
+                                                {assignedMatch.status === 3 && <span style={{ marginLeft: 6, color: 'var(--accent-error)', fontWeight: 700 }}>● LIVE</span>}
                                             </div>
 
+                                            {callTimer?.enabled && assignedMatch.status === 2 && assignedMatch.calledAt && onStartMatch && onForfeit && (
+                                                <CallTimer
+                                                    match={assignedMatch}
+                                                    calledAt={assignedMatch.calledAt}
+                                                    settings={callTimer}
+                                                    player1={getParticipantName(assignedMatch.opponent1?.id)}
+                                                    player2={getParticipantName(assignedMatch.opponent2?.id)}
+                                                    onStart={() => onStartMatch(assignedMatch)}
+                                                    onNoShow={(side) => onForfeit(assignedMatch, side, 'no_show')}
+                                                />
+                                            )}
+
+                                            {(() => {
+                                                // Rack entry needs a game scored in racks and a race to finish the match at;
+                                                // any other match is scored point by point
+                                                const stage = stages?.find(s => s.id === assignedMatch.stage_id);
+                                                const rules = getGameTypeRules(stage?.settings.gameType);
+                                                const [race1, race2] = getMatchRaces(assignedMatch, allMatches || matches, stage);
+                                                const player1 = getParticipantName(assignedMatch.opponent1?.id);
+                                                const player2 = getParticipantName(assignedMatch.opponent2?.id);
+                                                if (onRecordRack && rules.unit === 'racks' && race1 > 0 && race2 > 0) {
+                                                    return (
+                                                        <RackScorer
+                                                            match={assignedMatch}
+                                                            racks={matchGames.filter(g => g.parent_id === assignedMatch.id)}
+                                                            player1={player1}
+                                                            player2={player2}
+                                                            race1={race1}
+                                                            race2={race2}
+                                                            breakFormat={rules.breakFormat}
+                                                            onRecordRack={(rack) => onRecordRack(assignedMatch, rack)}
+                                                        />
+                                                    );
+                                                }
+                                                if (!onAdjustScore || assignedMatch.child_count > 0) return null;
+                                                return (
+                                                    <LiveScore
+                                                        match={assignedMatch}
+                                                        player1={player1}
+                                                        player2={player2}
+                                                        race1={race1}
+                                                        race2={race2}
+                                                        rules={rules}
+                                                        onAdjust={(side, delta) => onAdjustScore(assignedMatch, side, delta)}
+                                                        onFinish={(score1, score2) => onSubmitScore(assignedMatch, score1, score2)}
+                                                    />
+                                                );
+                                            })()}
+
                                             <div className="table-actions">
                                                 <button
                                                     onClick={() => onOpenScoreModal ? onOpenScoreModal(assignedMatch) : undefined}
@@ -593,8 +756,8 @@ export const TableAssignmentNew: React.FC<TableAssignmentProps> = ({
                                     ) : (
                                         <div className="table-empty-state">
                                             <div>🏓</div>
-                                            <div>Table Available</div>
-                                            {waitingMatches.length > 0 ? (
+                                            <div>{inService ? 'Table Available' : 'Out of Service'}</div>
+                                            {!inService ? null : waitingMatches.length > 0 ? (
                                                 <button
                                                     onClick={() => handleAssignNext(tableId)}
                                                     className="table-action-btn manual-assign-btn"
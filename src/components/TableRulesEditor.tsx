@@ -0,0 +1,49 @@
+import * as React from 'react';
+import { TableRule, TableSize } from '../types';
+import { describeRule, ROUND_SCOPES, TABLE_SIZES } from '../services/tableRules';
+
+interface TableRulesEditorProps {
+    rules: TableRule[];
+    onChange: (rules: TableRule[]) => void;
+}
+
+// 'featured' or a table size
+type Requirement = 'featured' | TableSize;
+
+// Rules tying rounds to tables, listed in the tables header with a form to add one
+const TableRulesEditor: React.FC<TableRulesEditorProps> = ({ rules, onChange }) => {
+    const [round, setRound] = React.useState<string>(ROUND_SCOPES[0]!.name);
+    const [requirement, setRequirement] = React.useState<Requirement>('featured');
+
+    const addRule = () => {
+        const rule: TableRule = requirement === 'featured' ? { rounds: [round], featured: true } : { rounds: [round], size: requirement };
+        onChange([...rules, rule]);
+    };
+
+    return (
+        <details className="table-rules" style={{ fontSize: 'var(--font-size-sm)' }}>
+            <summary style={{ cursor: 'pointer' }}>Table rules ({rules.length})</summary>
+            <ul style={{ listStyle: 'none', padding: 0, margin: '6px 0' }}>
+                {rules.map((rule, i) => (
+                    <li key={i} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                        {describeRule(rule)}
+                        <button className="secondary" onClick={() => onChange(rules.filter((_, j) => j !== i))} title="Remove rule">×</button>
+                    </li>
+                ))}
+            </ul>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <select value={round} onChange={e => setRound(e.target.value)} aria-label="Rounds">
+                    {ROUND_SCOPES.map(scope => <option key={scope.name} value={scope.name}>{scope.label}</option>)}
+                </select>
+                only on
+                <select value={requirement} onChange={e => setRequirement(e.target.value as Requirement)} aria-label="Tables">
+                    <option value="featured">featured tables</option>
+                    {TABLE_SIZES.map(size => <option key={size} value={size}>{size} tables</option>)}
+                </select>
+                <button className="secondary" onClick={addRule}>Add rule</button>
+            </div>
+        </details>
+    );
+};
+
+export default TableRulesEditor;
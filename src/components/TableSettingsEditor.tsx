@@ -0,0 +1,53 @@
+import * as React from 'react';
+import { TableSettings, TableSize } from '../types';
+import { TABLE_SIZES } from '../services/tableRules';
+
+interface TableSettingsEditorProps {
+    settings: Partial<TableSettings>;
+    onChange: (updates: Partial<TableSettings>) => void;
+}
+
+// Attributes of one table, edited on its card
+const TableSettingsEditor: React.FC<TableSettingsEditorProps> = ({ settings, onChange }) => {
+    const [cloth, setCloth] = React.useState<string>(settings.cloth || '');
+    React.useEffect(() => setCloth(settings.cloth || ''), [settings.cloth]);
+
+    return (
+        <div className="table-settings-editor" style={{ display: 'flex', flexDirection: 'column', gap: 4, fontSize: 'var(--font-size-sm)', marginBottom: 8 }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                Size
+                <select
+                    value={settings.size || ''}
+                    onChange={e => onChange({ size: e.target.value ? e.target.value as TableSize : undefined })}
+                >
+                    <option value="">Not set</option>
+                    {TABLE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                Cloth
+                <input
+                    value={cloth}
+                    onChange={e => setCloth(e.target.value)}
+                    onBlur={() => { if (cloth.trim() !== (settings.cloth || '')) onChange({ cloth: cloth.trim() || undefined }); }}
+                    placeholder="e.g. Simonis 860"
+                    style={{ width: 120 }}
+                />
+            </label>
+            <label>
+                <input type="checkbox" checked={!!settings.featured} onChange={e => onChange({ featured: e.target.checked })} />{' '}
+                Featured (stream) table
+            </label>
+            <label>
+                <input type="checkbox" checked={!!settings.doNotAutoAssign} onChange={e => onChange({ doNotAutoAssign: e.target.checked })} />{' '}
+                Skip when auto-assigning
+            </label>
+            <label>
+                <input type="checkbox" checked={!!settings.outOfService} onChange={e => onChange({ outOfService: e.target.checked })} />{' '}
+                Out of service
+            </label>
+        </div>
+    );
+};
+
+export default TableSettingsEditor;
@@ -1,9 +1,21 @@
 import * as React from 'react';
 import { useEffect, useState } from 'react';
-import { BracketsData, Match, Participant } from '../types';
-import { getUserFriendlyRoundNumber } from '../utils';
+import { BracketsData, Match, Participant, TableState } from '../types';
+import { getUserFriendlyRoundNumber, getMatchPositions, getRaceLabel, isPoolMatch } from '../utils';
+import { createTableState, getTableName, getWaitingMatches } from '../services/tableManager';
 
 const STORAGE_KEY = 'tournament:bracketsData';
+// Table layout written by the main window; matches carry their own table number
+const TABLES_KEY = 'tournament:tablesData';
+
+const readTables = (raw: string | null): TableState => {
+    try {
+        return (raw && JSON.parse(raw).tables) || createTableState();
+    } catch (e) {
+        console.error('Failed to parse table layout from storage', e);
+        return createTableState();
+    }
+};
 
 const TablesPopout: React.FC = () => {
     const [data, setData] = useState<BracketsData | null>(() => {
@@ -15,9 +27,14 @@ const TablesPopout: React.FC = () => {
             return null;
         }
     });
+    const [tables, setTables] = useState<TableState>(() => readTables(localStorage.getItem(TABLES_KEY)));
 
     useEffect(() => {
         const onStorage = (e: StorageEvent) => {
+            if (e.key === TABLES_KEY) {
+                setTables(readTables(e.newValue));
+                return;
+            }
             if (e.key !== STORAGE_KEY) return;
             try {
                 const newData = e.newValue ? JSON.parse(e.newValue) : null;
@@ -40,23 +57,21 @@ const TablesPopout: React.FC = () => {
         );
     }
 
-    // Partition matches into winners (group_id === 1) and losers (group_id === 2)
-    const assignedMatches = data.match.filter(m => m.table !== null && m.table !== undefined) as Match[];
+    // Partition matches into winners (group 1) and losers (group 2) of their stage.
+    // Round-robin pools are listed in the first column.
+    const positions = getMatchPositions(data.match);
+    const groupOf = (m: Match) => isPoolMatch(m, data.stage) ? 1 : positions.get(m.id)?.groupNumber ?? m.group_id;
+    const roundOf = (m: Match) => positions.get(m.id)?.roundNumber ?? m.round_id;
 
-    const isReadyStatus = (status: any) => {
-        if (typeof status === 'number') return status === 2; // numeric legacy mapping
-        return status === 'ready' || status === 'waiting' || status === 'running';
-    };
+    const assignedMatches = data.match.filter(m => m.table != null && m.table <= tables.tableCount)
+        .sort((a, b) => (a.table || 0) - (b.table || 0));
+    const waitingMatches = getWaitingMatches(data.match);
 
-    const waitingMatches = data.match.filter(m => {
-        const isNotAssigned = m.table === null || m.table === undefined;
-        const isReady = isReadyStatus(m.status);
-        const hasPlayers = m.opponent1 && m.opponent2 && m.opponent1.id != null && m.opponent2.id != null;
-        return isNotAssigned && isReady && hasPlayers;
-    }) as Match[];
+    // Once the pools are done a playoff bracket takes over the columns
+    const hasPools = [...assignedMatches, ...waitingMatches].some(m => isPoolMatch(m, data.stage));
 
     // Sort waiting matches for deterministic ordering
-    waitingMatches.sort((a, b) => (a.round_id || 0) - (b.round_id || 0) || (a.number || 0) - (b.number || 0));
+    waitingMatches.sort((a, b) => (roundOf(a) || 0) - (roundOf(b) || 0) || (a.number || 0) - (b.number || 0));
 
     const getPlayerName = (pObj: any) => {
         if (!pObj || pObj.id == null) return 'TBD';
@@ -64,33 +79,36 @@ const TablesPopout: React.FC = () => {
         return participant ? participant.name : `#${pObj.id}`;
     };
 
-    const winnersAssigned = assignedMatches.filter(m => m.group_id === 1);
-    const losersAssigned = assignedMatches.filter(m => m.group_id === 2);
-    const winnersWaiting = waitingMatches.filter(m => m.group_id === 1);
-    const losersWaiting = waitingMatches.filter(m => m.group_id === 2);
+    // Score of a match being played, e.g. "LIVE 3 - 2"
+    const liveScore = (match: Match) =>
+        match.status === 3 ? ` • LIVE ${match.opponent1?.score ?? 0} - ${match.opponent2?.score ?? 0}` : '';
+
+    const winnersAssigned = assignedMatches.filter(m => groupOf(m) === 1);
+    const losersAssigned = assignedMatches.filter(m => groupOf(m) === 2);
+    const winnersWaiting = waitingMatches.filter(m => groupOf(m) === 1);
+    const losersWaiting = waitingMatches.filter(m => groupOf(m) === 2);
 
     return (
         <div style={{ width: '100vw', height: '100vh', padding: 12, boxSizing: 'border-box', overflow: 'auto' }}>
             <div style={{ maxWidth: 1200, margin: '0 auto' }}>
-                <h2>Tables — Winners / Losers</h2>
+                <h2>{hasPools ? 'Tables — Pools' : 'Tables — Winners / Losers'}</h2>
 
-                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16, marginTop: 8 }}>
+                <div style={{ display: 'grid', gridTemplateColumns: hasPools ? '1fr' : '1fr 1fr', gap: 16, marginTop: 8 }}>
                     {/* Winners Column */}
                     <div>
-                        <h3>Winners Bracket</h3>
+                        <h3>{hasPools ? 'Pool Matches' : 'Winners Bracket'}</h3>
 
                         <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
                             {winnersAssigned.length === 0 && winnersWaiting.length === 0 && (
-                                <div style={{ padding: 12, border: '1px solid #ddd', borderRadius: 8 }}>No winners-bracket matches</div>
+                                <div style={{ padding: 12, border: '1px solid #ddd', borderRadius: 8 }}>{hasPools ? 'No pool matches' : 'No winners-bracket matches'}</div>
                             )}
 
                             {winnersAssigned.map(match => {
-                                const t = typeof match.table === 'number' ? match.table : 0;
-                                const displayLabel = t === 1 ? 'Stream' : `Table ${Math.max(0, t - 1)}`;
+                                const displayLabel = getTableName(tables, match.table || 0);
                                 return (
                                     <div key={match.id} style={{ padding: 12, border: '1px solid var(--border-light)', borderRadius: 8, background: 'var(--bg-secondary)' }}>
                                         <div style={{ fontWeight: 700 }}>{displayLabel} — {getPlayerName(match.opponent1)} vs {getPlayerName(match.opponent2)}</div>
-                                        <div style={{ marginTop: 8, fontSize: 12, color: 'var(--text-secondary)' }}>{getUserFriendlyRoundNumber(match, data.match)}</div>
+                                        <div style={{ marginTop: 8, fontSize: 12, color: 'var(--text-secondary)' }}>{getUserFriendlyRoundNumber(match, data.match, data.stage)}{getRaceLabel(match) && ` • ${getRaceLabel(match)}`}{liveScore(match)}</div>
                                     </div>
                                 );
                             })}
@@ -98,40 +116,41 @@ const TablesPopout: React.FC = () => {
                             {winnersWaiting.map(match => (
                                 <div key={match.id} style={{ padding: 12, border: '1px solid var(--border-light)', borderRadius: 8, background: 'var(--bg-primary)' }}>
                                     <div style={{ fontWeight: 700 }}>{getPlayerName(match.opponent1)} vs {getPlayerName(match.opponent2)}</div>
-                                    <div style={{ marginTop: 6, fontSize: 13, color: 'var(--text-secondary)' }}>{getUserFriendlyRoundNumber(match, data.match)} • Match #{match.number}</div>
+                                    <div style={{ marginTop: 6, fontSize: 13, color: 'var(--text-secondary)' }}>{getUserFriendlyRoundNumber(match, data.match, data.stage)} • Match #{match.number}{getRaceLabel(match) && ` • ${getRaceLabel(match)}`}{liveScore(match)}</div>
                                 </div>
                             ))}
                         </div>
                     </div>
 
-                    {/* Losers Column */}
-                    <div>
-                        <h3>Losers Bracket</h3>
-
-                        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
-                            {losersAssigned.length === 0 && losersWaiting.length === 0 && (
-                                <div style={{ padding: 12, border: '1px solid #ddd', borderRadius: 8 }}>No losers-bracket matches</div>
-                            )}
-
-                            {losersAssigned.map(match => {
-                                const t = typeof match.table === 'number' ? match.table : 0;
-                                const displayLabel = t === 1 ? 'Stream' : `Table ${Math.max(0, t - 1)}`;
-                                return (
-                                    <div key={match.id} style={{ padding: 12, border: '1px solid var(--border-light)', borderRadius: 8, background: 'var(--bg-secondary)' }}>
-                                        <div style={{ fontWeight: 700 }}>{displayLabel} — {getPlayerName(match.opponent1)} vs {getPlayerName(match.opponent2)}</div>
-                                        <div style={{ marginTop: 8, fontSize: 12, color: 'var(--text-secondary)' }}>{getUserFriendlyRoundNumber(match, data.match)}</div>
+                    {/* Losers Column (elimination stages only) */}
+                    {!hasPools && (
+                        <div>
+                            <h3>Losers Bracket</h3>
+
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+                                {losersAssigned.length === 0 && losersWaiting.length === 0 && (
+                                    <div style={{ padding: 12, border: '1px solid #ddd', borderRadius: 8 }}>No losers-bracket matches</div>
+                                )}
+
+                                {losersAssigned.map(match => {
+                                    const displayLabel = getTableName(tables, match.table || 0);
+                                    return (
+                                        <div key={match.id} style={{ padding: 12, border: '1px solid var(--border-light)', borderRadius: 8, background: 'var(--bg-secondary)' }}>
+                                            <div style={{ fontWeight: 700 }}>{displayLabel} — {getPlayerName(match.opponent1)} vs {getPlayerName(match.opponent2)}</div>
+                                            <div style={{ marginTop: 8, fontSize: 12, color: 'var(--text-secondary)' }}>{getUserFriendlyRoundNumber(match, data.match, data.stage)}{getRaceLabel(match) && ` • ${getRaceLabel(match)}`}{liveScore(match)}</div>
+                                        </div>
+                                    );
+                                })}
+
+                                {losersWaiting.map(match => (
+                                    <div key={match.id} style={{ padding: 12, border: '1px solid var(--border-light)', borderRadius: 8, background: 'var(--bg-primary)' }}>
+                                        <div style={{ fontWeight: 700 }}>{getPlayerName(match.opponent1)} vs {getPlayerName(match.opponent2)}</div>
+                                        <div style={{ marginTop: 6, fontSize: 13, color: 'var(--text-secondary)' }}>{getUserFriendlyRoundNumber(match, data.match, data.stage)} • Match #{match.number}{getRaceLabel(match) && ` • ${getRaceLabel(match)}`}{liveScore(match)}</div>
                                     </div>
-                                );
-                            })}
-
-                            {losersWaiting.map(match => (
-                                <div key={match.id} style={{ padding: 12, border: '1px solid var(--border-light)', borderRadius: 8, background: 'var(--bg-primary)' }}>
-                                    <div style={{ fontWeight: 700 }}>{getPlayerName(match.opponent1)} vs {getPlayerName(match.opponent2)}</div>
-                                    <div style={{ marginTop: 6, fontSize: 13, color: 'var(--text-secondary)' }}>{getUserFriendlyRoundNumber(match, data.match)} • Match #{match.number}</div>
-                                </div>
-                            ))}
+                                ))}
+                            </div>
                         </div>
-                    </div>
+                    )}
                 </div>
             </div>
         </div>
@@ -1,35 +1,61 @@
 import * as React from 'react';
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 // Resolve image asset via webpack so the dev server serves the correct path
 const fargoLogo = require('../../assets/images/fargo-logo-circle.png');
-import { Player } from '../types';
+import { Player, BracketType, SeedingMode, RaceChartRow, RaceScheduleEntry, RaceSide, TournamentSettings } from '../types';
 import { generateDemoPlayers } from '../utils';
+import { getDefaultSwissRounds } from '../services/swiss';
+import { orderPlayersForSeeding } from '../services/seeding';
+import { getSeparationReport } from '../services/separation';
+import { DEFAULT_RACE_CHART } from '../services/handicap';
+import { getGameTypeRules, getGameTypes } from '../services/gameTypes';
 import { PlayerUpload } from './PlayerUpload';
 
+type PlayoffType = NonNullable<TournamentSettings['playoffType']>;
+type SeparateBy = NonNullable<TournamentSettings['separateBy']>;
+
 type Props = {
     initialName?: string;
-    initialBracketType?: 'single' | 'double';
+    initialBracketType?: BracketType;
     initialDescription?: string;
     initialGameType?: string;
     initialTrueDouble?: boolean;
     initialRaceWinners?: number;
     initialRaceLosers?: number;
+    initialGroupCount?: number;
+    initialPlayoffType?: PlayoffType;
+    initialAdvancePerGroup?: number;
+    initialSwissRounds?: number;
+    initialSeedingMode?: SeedingMode;
+    initialSeparateBy?: SeparateBy;
+    initialHandicap?: boolean;
+    initialRaceChart?: RaceChartRow[];
+    initialRaceSchedule?: RaceScheduleEntry[];
     players?: Player[];
     onPlayersChange?: (players: Player[]) => void;
     onStart: (config: {
         name: string;
         description?: string;
         gameType: string;
-        bracketType: 'single' | 'double';
+        bracketType: BracketType;
         trueDouble?: boolean;
         raceWinners?: number;
         raceLosers?: number;
+        groupCount?: number;
+        playoffType?: PlayoffType;
+        advancePerGroup?: number;
+        swissRounds?: number;
+        seedingMode?: SeedingMode;
+        separateBy?: SeparateBy;
+        handicap?: boolean;
+        raceChart?: RaceChartRow[];
+        raceSchedule?: RaceScheduleEntry[];
         players: Player[];
     }) => void;
     inline?: boolean;
 };
 
-export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initialBracketType = 'double', initialDescription = '', initialGameType = 'Nine Ball', initialTrueDouble = true, initialRaceWinners = 7, initialRaceLosers = 5, players: initialPlayers = [], onPlayersChange, onStart, inline = false }) => {
+export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initialBracketType = 'double', initialDescription = '', initialGameType = 'Nine Ball', initialTrueDouble = true, initialRaceWinners = 7, initialRaceLosers = 5, initialGroupCount = 1, initialPlayoffType = 'none', initialAdvancePerGroup = 2, initialSwissRounds = 0, initialSeedingMode = 'random', initialSeparateBy = 'none', initialHandicap = false, initialRaceChart = DEFAULT_RACE_CHART, initialRaceSchedule = [], players: initialPlayers = [], onPlayersChange, onStart, inline = false }) => {
     const [step, setStep] = useState<number>(1);
     const wrapperRef = useRef<HTMLDivElement | null>(null);
     const [availableHeight, setAvailableHeight] = useState<number | null>(null);
@@ -39,10 +65,35 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
     const [name, setName] = useState(initialName);
     const [description, setDescription] = useState(initialDescription);
     const [gameType, setGameType] = useState(initialGameType);
-    const [bracketType, setBracketType] = useState<'single' | 'double'>(initialBracketType);
+    const [bracketType, setBracketType] = useState<BracketType>(initialBracketType);
     const [trueDouble, setTrueDouble] = useState(initialTrueDouble);
     const [raceWinners, setRaceWinners] = useState<number>(initialRaceWinners);
     const [raceLosers, setRaceLosers] = useState<number>(initialRaceLosers);
+    const [groupCount, setGroupCount] = useState<number>(initialGroupCount);
+    const [playoffType, setPlayoffType] = useState<PlayoffType>(initialPlayoffType);
+    const [advancePerGroup, setAdvancePerGroup] = useState<number>(initialAdvancePerGroup);
+    // 0 = as many rounds as the field needs
+    const [swissRounds, setSwissRounds] = useState<number>(initialSwissRounds);
+    const [seedingMode, setSeedingMode] = useState<SeedingMode>(initialSeedingMode);
+    const [separateBy, setSeparateBy] = useState<SeparateBy>(initialSeparateBy);
+    const [handicap, setHandicap] = useState<boolean>(initialHandicap);
+    const [raceChart, setRaceChart] = useState<RaceChartRow[]>(initialRaceChart);
+    const [raceSchedule, setRaceSchedule] = useState<RaceScheduleEntry[]>(initialRaceSchedule);
+    const [showRaceSchedule, setShowRaceSchedule] = useState<boolean>(initialRaceSchedule.length > 0);
+    const gameRules = getGameTypeRules(gameType);
+    // Each game type comes with its usual races
+    const selectGameType = (name: string) => {
+        const rules = getGameTypeRules(name);
+        setGameType(name);
+        setRaceWinners(rules.defaultRaceWinners);
+        setRaceLosers(rules.defaultRaceLosers);
+    };
+    const isRoundRobin = bracketType === 'round_robin';
+    const isSwiss = bracketType === 'swiss';
+    // Double elimination, played directly or as the playoff after the pools
+    const hasLosersBracket = bracketType === 'double' || (isRoundRobin && playoffType === 'double');
+    // Elimination bracket, played directly or as the playoff after the pools
+    const hasBracket = bracketType === 'single' || bracketType === 'double' || (isRoundRobin && playoffType !== 'none');
 
     // Step 2: players
     const [players, setPlayers] = useState<Player[]>(initialPlayers || []);
@@ -203,7 +254,8 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
             const key = `${(p.name || '').toLowerCase()}|${(p as any).membershipId || ''}`;
             if (!p.name) return;
             const cleanedPhone = p.phone ? p.phone.replace(/[^+0-9]/g, '') : '';
-            if (!map.has(key)) map.set(key, { name: p.name, phone: cleanedPhone, ...(p as any).membershipId ? { membershipId: (p as any).membershipId } : {} });
+            // Keep the optional details (location, club, rating) of uploaded players
+            if (!map.has(key)) map.set(key, { ...p, phone: cleanedPhone });
         });
         setPlayers(Array.from(map.values()));
     };
@@ -217,6 +269,7 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
         const city = (p as any).city;
         const state = (p as any).state;
         const membershipId = (p as any).membershipId;
+        const club = p.club;
 
         // build composite key using membershipId when present so same names with different IDs are allowed
         const makeKey = (nameStr: string, mid?: string | undefined) => `${(nameStr || '').toLowerCase()}|${mid || ''}`;
@@ -231,7 +284,7 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
 
         setPlayers(prev => {
             const map = new Map(prev.map(x => [`${(x.name || '').toLowerCase()}|${(x as any).membershipId || ''}`, x]));
-            map.set(key, { name, phone: cleanedPhone, ...(effectiveRating !== undefined ? { effectiveRating } : {}), ...(robustness !== undefined ? { robustness } : {}), ...(city ? { city } : {}), ...(state ? { state } : {}), ...(membershipId ? { membershipId } : {}) });
+            map.set(key, { name, phone: cleanedPhone, ...(effectiveRating !== undefined ? { effectiveRating } : {}), ...(robustness !== undefined ? { robustness } : {}), ...(city ? { city } : {}), ...(state ? { state } : {}), ...(membershipId ? { membershipId } : {}), ...(club ? { club } : {}) });
             return Array.from(map.values());
         });
     };
@@ -302,7 +355,7 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
             return;
         }
 
-        setPlayers(prev => prev.map((p, i) => i === idx ? { name, phone, ...(p as any).membershipId ? { membershipId: (p as any).membershipId } : {}, ...(p as any).city ? { city: (p as any).city } : {}, ...(p as any).state ? { state: (p as any).state } : {}, ...(p as any).effectiveRating !== undefined ? { effectiveRating: (p as any).effectiveRating } : {}, ...(p as any).email ? { email: (p as any).email } : {}, ...(p as any).robustness !== undefined ? { robustness: (p as any).robustness } : {} } : p));
+        setPlayers(prev => prev.map((p, i) => i === idx ? { name, phone, ...(p as any).membershipId ? { membershipId: (p as any).membershipId } : {}, ...(p as any).city ? { city: (p as any).city } : {}, ...(p as any).state ? { state: (p as any).state } : {}, ...(p as any).effectiveRating !== undefined ? { effectiveRating: (p as any).effectiveRating } : {}, ...(p as any).email ? { email: (p as any).email } : {}, ...(p as any).robustness !== undefined ? { robustness: (p as any).robustness } : {}, ...p.club ? { club: p.club } : {} } : p));
         cancelEdit();
     };
 
@@ -327,6 +380,14 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
             trueDouble,
             raceWinners,
             raceLosers,
+            ...(isRoundRobin ? { groupCount, playoffType, advancePerGroup } : {}),
+            ...(isSwiss ? { swissRounds } : {}),
+            // Manual seeding follows the order shown on the review step
+            seedingMode,
+            separateBy,
+            handicap,
+            ...(handicap ? { raceChart } : {}),
+            ...(hasBracket && showRaceSchedule && raceSchedule.length > 0 ? { raceSchedule } : {}),
             players
         });
     };
@@ -424,10 +485,67 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
         );
     });
 
-    const playerReviewRows = players.map((p, i) => {
+    const movePlayer = (idx: number, offset: number) => {
+        setPlayers(prev => {
+            const target = idx + offset;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[idx], next[target]] = [next[target]!, next[idx]!];
+            return next;
+        });
+    };
+
+    // Rounds of the elimination bracket that can get their own race, sized for the
+    // current field (the playoff field after pools; 8 players before any are entered)
+    const bracketPlayers = isRoundRobin ? groupCount * advancePerGroup : players.length;
+    const bracketRounds = Math.ceil(Math.log2(Math.max(2, bracketPlayers || 8)));
+    const losersRounds = 2 * (bracketRounds - 1);
+    const raceScheduleRows: { side: RaceSide; round?: number; label: string; fallback: number }[] = [
+        ...Array.from({ length: bracketRounds }, (_, i) => ({
+            side: 'winners' as const,
+            round: i + 1,
+            label: `${hasLosersBracket ? 'WB ' : ''}${i + 1 === bracketRounds ? 'Final' : `Round ${i + 1}`}`,
+            fallback: raceWinners
+        })),
+        ...(hasLosersBracket ? [
+            ...Array.from({ length: losersRounds }, (_, i) => ({
+                side: 'losers' as const,
+                round: i + 1,
+                label: `LB ${i + 1 === losersRounds ? 'Final' : `Round ${i + 1}`}`,
+                fallback: raceLosers
+            })),
+            { side: 'grand_final' as const, label: 'Grand Final', fallback: raceWinners },
+            ...(trueDouble ? [{ side: 'gf_reset' as const, label: 'Grand Final Reset', fallback: raceLosers }] : [])
+        ] : [])
+    ];
+    const getScheduledRace = (side: RaceSide, round?: number) => raceSchedule.find(e => e.side === side && e.round === round)?.race;
+    // A blank race removes the round from the schedule
+    const setScheduledRace = (side: RaceSide, round: number | undefined, value: string) => {
+        const race = parseInt(value, 10);
+        setRaceSchedule(prev => [
+            ...prev.filter(e => e.side !== side || e.round !== round),
+            ...(race >= 1 ? [{ side, ...(round !== undefined ? { round } : {}), race }] : [])
+        ]);
+    };
+    const scheduledRows = raceScheduleRows.filter(row => getScheduledRace(row.side, row.round) !== undefined);
+
+    // The review step lists players in seed order (entry order for a random draw)
+    const reviewPlayers = useMemo(() => seedingMode === 'rating' ? orderPlayersForSeeding(players, 'rating') : players, [players, seedingMode]);
+    const isElimination = bracketType === 'single' || bracketType === 'double';
+    // Only worked out on the review step, where it is shown
+    const separationConflicts = useMemo(() => step === 3 && isElimination && separateBy !== 'none'
+        ? getSeparationReport(reviewPlayers, separateBy, seedingMode !== 'random', bracketType === 'double')
+        : [], [step, reviewPlayers, separateBy, seedingMode, bracketType]);
+    const playerReviewRows = reviewPlayers.map((p, i) => {
         const missing = getMissingFields(p);
         return (
             <div key={`${p.name}-${i}`} className="review-player-row" style={rowStyleFor(p)} title={missing.length ? `Missing: ${missing.join(', ')}` : JSON.stringify((p as any).__raw || {})}>
+                {seedingMode === 'manual' && (
+                    <span className="seed-controls" style={{ display: 'inline-flex', gap: 4, marginRight: 8 }}>
+                        <button className="secondary" onClick={() => movePlayer(i, -1)} disabled={i === 0} title="Move up">↑</button>
+                        <button className="secondary" onClick={() => movePlayer(i, 1)} disabled={i === players.length - 1} title="Move down">↓</button>
+                    </span>
+                )}
                 <span>{i + 1}. {p.name}{computeDisambiguator(p) || ''}</span>
                 {typeof (p as any).effectiveRating === 'number' && (
                     <span className="player-rating"><img src={fargoLogo} alt="Fargo" />{(p as any).effectiveRating}</span>
@@ -466,7 +584,7 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
                             <button
                                 className="primary"
                                 onClick={handleStart}
-                                disabled={!name.trim() || players.length < 2 || raceWinners < 1 || raceLosers < 1}
+                                disabled={!name.trim() || players.length < 2 || raceWinners < 1 || raceLosers < 1 || (isRoundRobin && (groupCount < 1 || advancePerGroup < 1))}
                             >
                                 Start Tournament
                             </button>
@@ -490,13 +608,14 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
 
                                 <div>
                                     <label>Game Type</label>
-                                    <select value={gameType} onChange={(e) => setGameType(e.target.value)}>
-                                        <option>Nine Ball</option>
-                                        <option>Ten Ball</option>
-                                        <option>Eight Ball</option>
-                                        <option>One Pocket</option>
-                                        <option>Bank Pool</option>
+                                    <select value={gameType} onChange={(e) => selectGameType(e.target.value)}>
+                                        {getGameTypes().map(g => <option key={g.name}>{g.name}</option>)}
+                                        {/* Free-form game type of an older tournament */}
+                                        {!getGameTypes().some(g => g.name === gameType) && <option>{gameType}</option>}
                                     </select>
+                                    <small style={{ color: 'var(--text-secondary)' }}>
+                                        Scored in {gameRules.unitLabel} • {gameRules.breakFormat === 'winner' ? 'winner breaks' : 'alternate breaks'}{gameRules.callShot ? ' • call shot' : ''}
+                                    </small>
                                 </div>
 
                                 <div>
@@ -504,10 +623,67 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
                                     <select value={bracketType} onChange={(e) => setBracketType(e.target.value as any)}>
                                         <option value="single">Single Elimination</option>
                                         <option value="double">Double Elimination</option>
+                                        <option value="round_robin">Round Robin</option>
+                                        <option value="swiss">Swiss</option>
                                     </select>
                                 </div>
 
-                                {bracketType === 'double' && (
+                                <div>
+                                    <label>Seeding</label>
+                                    <select value={seedingMode} onChange={(e) => setSeedingMode(e.target.value as SeedingMode)}>
+                                        <option value="random">Random draw</option>
+                                        <option value="rating">By Fargo rating</option>
+                                        <option value="manual">Manual order</option>
+                                    </select>
+                                </div>
+
+                                {(bracketType === 'single' || bracketType === 'double') && (
+                                    <div>
+                                        <label>Keep Apart Early</label>
+                                        <select value={separateBy} onChange={(e) => setSeparateBy(e.target.value as SeparateBy)}>
+                                            <option value="none">No separation</option>
+                                            <option value="club">Same club</option>
+                                            <option value="city">Same city</option>
+                                            <option value="state">Same state</option>
+                                        </select>
+                                    </div>
+                                )}
+
+                                {isSwiss && (
+                                    <div>
+                                        <label>Number of Rounds</label>
+                                        <input className="race-input" type="number" min={0} value={swissRounds || ''} placeholder={`Auto (${getDefaultSwissRounds(players.length)})`} onChange={(e) => setSwissRounds(parseInt(e.target.value || '0', 10))} />
+                                    </div>
+                                )}
+
+                                {isRoundRobin && (
+                                    <div>
+                                        <label>Number of Pools</label>
+                                        <input className="race-input" type="number" min={1} value={groupCount} onChange={(e) => setGroupCount(parseInt(e.target.value || '1', 10))} />
+                                    </div>
+                                )}
+
+                                {isRoundRobin && (
+                                    <div className="race-pair">
+                                        <div className="race-col">
+                                            <label>Playoff Bracket</label>
+                                            <select value={playoffType} onChange={(e) => setPlayoffType(e.target.value as PlayoffType)}>
+                                                <option value="none">Pools only</option>
+                                                <option value="single">Single Elimination</option>
+                                                <option value="double">Double Elimination</option>
+                                            </select>
+                                        </div>
+
+                                        {playoffType !== 'none' && (
+                                            <div className="race-col">
+                                                <label>Advance per Pool</label>
+                                                <input className="race-input" type="number" min={1} value={advancePerGroup} onChange={(e) => setAdvancePerGroup(parseInt(e.target.value || '1', 10))} />
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {hasLosersBracket && (
                                     <div>
                                         <label>True Double Elimination</label>
                                         <select value={trueDouble ? 'yes' : 'no'} onChange={(e) => setTrueDouble(e.target.value === 'yes')}>
@@ -519,15 +695,89 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
 
                                 <div className="race-pair">
                                     <div className="race-col">
-                                        <label>Race (Winners)</label>
+                                        <label>{hasLosersBracket ? 'Race (Winners)' : 'Race'}</label>
                                         <input className="race-input" type="number" min={1} value={raceWinners} onChange={(e) => setRaceWinners(parseInt(e.target.value || '1', 10))} />
                                     </div>
 
-                                    <div className="race-col">
-                                        <label>Race (Losers)</label>
-                                        <input className="race-input" type="number" min={1} value={raceLosers} onChange={(e) => setRaceLosers(parseInt(e.target.value || '1', 10))} />
+                                    {hasLosersBracket && (
+                                        <div className="race-col">
+                                            <label>Race (Losers)</label>
+                                            <input className="race-input" type="number" min={1} value={raceLosers} onChange={(e) => setRaceLosers(parseInt(e.target.value || '1', 10))} />
+                                        </div>
+                                    )}
+                                </div>
+
+                                {hasBracket && (
+                                    <div>
+                                        <label>
+                                            <input type="checkbox" checked={showRaceSchedule} onChange={(e) => { setShowRaceSchedule(e.target.checked); if (!e.target.checked) setRaceSchedule([]); }} />
+                                            {' '}Vary race by round
+                                        </label>
                                     </div>
+                                )}
+
+                                {hasBracket && showRaceSchedule && (
+                                    <div>
+                                        <small style={{ color: 'var(--text-secondary)' }}>
+                                            Rounds of a {Math.pow(2, bracketRounds)}-player bracket. Leave a round blank to play the race above.
+                                        </small>
+                                        <table style={{ borderCollapse: 'collapse', marginTop: 4 }}>
+                                            <tbody>
+                                                {raceScheduleRows.map(row => (
+                                                    <tr key={`${row.side}-${row.round ?? 0}`}>
+                                                        <td style={{ padding: 4 }}>{row.label}</td>
+                                                        <td style={{ padding: 4 }}>
+                                                            <input className="race-input" type="number" min={1} placeholder={String(row.fallback)} value={getScheduledRace(row.side, row.round) ?? ''} onChange={(e) => setScheduledRace(row.side, row.round, e.target.value)} />
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+
+                                <div>
+                                    <label>
+                                        <input type="checkbox" checked={handicap} onChange={(e) => setHandicap(e.target.checked)} />
+                                        {' '}Handicapped races (Fargo race chart)
+                                    </label>
                                 </div>
+
+                                {handicap && (
+                                    <div>
+                                        <small style={{ color: 'var(--text-secondary)' }}>
+                                            From each rating gap up, the higher-rated player races to the first number and the lower-rated player to the second. Unrated players play the race above.
+                                        </small>
+                                        <table style={{ borderCollapse: 'collapse', marginTop: 4 }}>
+                                            <thead>
+                                                <tr style={{ textAlign: 'left' }}>
+                                                    <th style={{ padding: 4 }}>Gap from</th>
+                                                    <th style={{ padding: 4 }}>Higher</th>
+                                                    <th style={{ padding: 4 }}>Lower</th>
+                                                    <th />
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {raceChart.map((row, i) => {
+                                                    const setField = (field: keyof RaceChartRow, value: string) =>
+                                                        setRaceChart(prev => prev.map((r, j) => j === i ? { ...r, [field]: parseInt(value || '0', 10) } : r));
+                                                    return (
+                                                        <tr key={i}>
+                                                            <td style={{ padding: 4 }}><input className="race-input" type="number" min={0} value={row.minGap} onChange={(e) => setField('minGap', e.target.value)} /></td>
+                                                            <td style={{ padding: 4 }}><input className="race-input" type="number" min={1} value={row.higher} onChange={(e) => setField('higher', e.target.value)} /></td>
+                                                            <td style={{ padding: 4 }}><input className="race-input" type="number" min={1} value={row.lower} onChange={(e) => setField('lower', e.target.value)} /></td>
+                                                            <td style={{ padding: 4 }}><button className="secondary" onClick={() => setRaceChart(prev => prev.filter((_, j) => j !== i))} disabled={raceChart.length === 1}>Remove</button></td>
+                                                        </tr>
+                                                    );
+                                                })}
+                                            </tbody>
+                                        </table>
+                                        <div style={{ display: 'flex', gap: 8, marginTop: 4 }}>
+                                            <button className="secondary" onClick={() => setRaceChart(prev => [...prev, { ...(prev[prev.length - 1] || DEFAULT_RACE_CHART[0]!), minGap: (prev[prev.length - 1]?.minGap ?? 0) + 50 }])}>Add Row</button>
+                                            <button className="secondary" onClick={() => setRaceChart(DEFAULT_RACE_CHART)}>Reset Chart</button>
+                                        </div>
+                                    </div>
+                                )}
                             </div>
 
                             <div className="wizard-actions">
@@ -601,12 +851,43 @@ export const TournamentSetupWizard: React.FC<Props> = ({ initialName = '', initi
                                     <div style={{ color: 'var(--accent-error)', marginTop: 6 }}>Tournament name is required.</div>
                                 )}
                                 <div><strong>Description:</strong> {description}</div>
-                                <div><strong>Game:</strong> {gameType}</div>
-                                <div><strong>Type:</strong> {bracketType} {bracketType === 'double' ? `(True double: ${trueDouble ? 'Yes' : 'No'})` : ''}</div>
-                                <div><strong>Race (Winners):</strong> {raceWinners}</div>
-                                <div><strong>Race (Losers):</strong> {raceLosers}</div>
+                                <div><strong>Game:</strong> {gameType} ({gameRules.unitLabel}, {gameRules.breakFormat === 'winner' ? 'winner breaks' : 'alternate breaks'}{gameRules.callShot ? ', call shot' : ''})</div>
+                                <div><strong>Type:</strong> {bracketType} {bracketType === 'double' ? `(True double: ${trueDouble ? 'Yes' : 'No'})` : ''}{isRoundRobin ? `(${groupCount} pool${groupCount !== 1 ? 's' : ''})` : ''}{isSwiss ? `(${swissRounds || getDefaultSwissRounds(players.length)} rounds)` : ''}</div>
+                                {isRoundRobin && playoffType !== 'none' && (
+                                    <div><strong>Playoff:</strong> top {advancePerGroup} per pool into {playoffType} elimination {playoffType === 'double' ? `(True double: ${trueDouble ? 'Yes' : 'No'})` : ''}</div>
+                                )}
+                                {hasLosersBracket ? (
+                                    <>
+                                        <div><strong>Race (Winners):</strong> {raceWinners}</div>
+                                        <div><strong>Race (Losers):</strong> {raceLosers}</div>
+                                    </>
+                                ) : (
+                                    <div><strong>Race:</strong> {raceWinners}</div>
+                                )}
+
+                                {hasBracket && showRaceSchedule && scheduledRows.length > 0 && (
+                                    <div><strong>Race Schedule:</strong> {scheduledRows.map(row => `${row.label} ${getScheduledRace(row.side, row.round)}`).join(', ')}</div>
+                                )}
+
+                                {handicap && (
+                                    <div><strong>Handicap:</strong> {raceChart.map(r => `${r.minGap}+: ${r.higher}-${r.lower}`).join(', ')}</div>
+                                )}
+
+                                {isElimination && separateBy !== 'none' && (
+                                    <div style={{ marginTop: 8 }}>
+                                        <strong>Separation by {separateBy}:</strong>{' '}
+                                        {separationConflicts.length === 0 ? 'no early meetings' : `${separationConflicts.length} unavoidable conflict${separationConflicts.length !== 1 ? 's' : ''}`}
+                                        {separationConflicts.length > 0 && (
+                                            <ul style={{ margin: '4px 0', color: 'var(--accent-error)' }}>
+                                                {separationConflicts.map((c, i) => (
+                                                    <li key={i}>{c.players[0]} vs {c.players[1]} ({c.value}) can meet in {c.bracket === 'winners' ? 'WB' : 'LB'} round {c.round}</li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                )}
 
-                                <h4>Players ({players.length})</h4>
+                                <h4>Players ({players.length}){seedingMode === 'random' ? '' : ' — seed order'}</h4>
                                 <div className="players-list-review">
                                     {playerReviewRows}
                                 </div>
@@ -840,6 +1121,7 @@ const AddPlayerModal: React.FC<AddPlayerModalProps> = ({ open, onClose, onAdd, o
     const [phone, setPhone] = useState('');
     const [city, setCity] = useState('');
     const [stateVal, setStateVal] = useState('');
+    const [club, setClub] = useState('');
     const [email, setEmail] = useState('');
 
     const [suggestions, setSuggestions] = useState<any[]>([]);
@@ -850,13 +1132,14 @@ const AddPlayerModal: React.FC<AddPlayerModalProps> = ({ open, onClose, onAdd, o
 
     useEffect(() => {
         if (!open) {
-            setName(''); setPhone(''); setCity(''); setStateVal(''); setEmail(''); setSuggestions([]); lastSuggestionRef.current = null;
+            setName(''); setPhone(''); setCity(''); setStateVal(''); setClub(''); setEmail(''); setSuggestions([]); lastSuggestionRef.current = null;
         } else if (initial) {
             // populate fields for edit
             setName(initial.name || '');
             setPhone(initial.phone || '');
             setCity((initial as any).city || '');
             setStateVal((initial as any).state || '');
+            setClub(initial.club || '');
             setEmail(initial.email || '');
             lastSuggestionRef.current = null;
         }
@@ -936,7 +1219,7 @@ const AddPlayerModal: React.FC<AddPlayerModalProps> = ({ open, onClose, onAdd, o
         if (!name.trim()) { if (showToast) showToast('Name is required', 'error'); return; }
         const cleanedPhone = phone.trim().replace(/[^+0-9]/g, '');
         if (cleanedPhone && !/^\+?[0-9]{4,15}$/.test(cleanedPhone)) { if (showToast) showToast('Please enter a valid phone number (digits, optional leading +).', 'error'); return; }
-        const p: any = { name: name.trim(), phone: cleanedPhone, email: email.trim() || undefined, city: city.trim() || undefined, state: stateVal.trim() || undefined };
+        const p: any = { name: name.trim(), phone: cleanedPhone, email: email.trim() || undefined, city: city.trim() || undefined, state: stateVal.trim() || undefined, club: club.trim() || undefined };
         if (lastSuggestionRef.current) {
             const s = lastSuggestionRef.current;
             if (s.effectiveRating !== undefined) p.effectiveRating = s.effectiveRating;
@@ -986,6 +1269,7 @@ const AddPlayerModal: React.FC<AddPlayerModalProps> = ({ open, onClose, onAdd, o
                         <input placeholder="City" value={city} onChange={(e) => setCity(e.target.value)} style={{ flex: 1 }} />
                         <input placeholder="State" value={stateVal} onChange={(e) => setStateVal(e.target.value)} style={{ width: 120 }} />
                     </div>
+                    <input placeholder="Club (optional)" value={club} onChange={(e) => setClub(e.target.value)} />
                     <input placeholder="Email (optional)" value={email} onChange={(e) => setEmail(e.target.value)} />
 
                     <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8 }}>
@@ -0,0 +1,37 @@
+import * as React from 'react';
+import TournamentService from '../services/tournamentService';
+import { Projection } from '../services/projection';
+import { TableState } from '../types';
+
+// Refresh the estimates this often, so they follow the clock between results
+const REFRESH_MS = 60 * 1000;
+
+// Estimated start times and finish of the current tournament (see projection.ts), recomputed
+// whenever the bracket or the tables change
+export default function useProjection(svc: TournamentService, bracketsData: unknown, tables: TableState): Projection | null {
+    const [projection, setProjection] = React.useState<Projection | null>(null);
+
+    React.useEffect(() => {
+        if (!bracketsData) {
+            setProjection(null);
+            return;
+        }
+        let cancelled = false;
+        const refresh = async () => {
+            try {
+                const next = await svc.getProjection();
+                if (!cancelled) setProjection(next);
+            } catch (error) {
+                console.error('Error projecting start times:', error);
+            }
+        };
+        refresh();
+        const timer = window.setInterval(refresh, REFRESH_MS);
+        return () => {
+            cancelled = true;
+            window.clearInterval(timer);
+        };
+    }, [svc, bracketsData, tables]);
+
+    return projection;
+}
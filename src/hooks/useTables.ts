@@ -1,58 +1,78 @@
 import * as React from 'react';
-import { autoAssignMatches, assignMatchToTable, removeMatchFromTable, updateTableSettings } from '../services/tableManager';
-
-export default function useTables(initialCount = 1) {
-    const [tableCount, setTableCount] = React.useState<number>(initialCount);
-    const [tableAssignments, setTableAssignments] = React.useState<(number | null)[]>([]);
-    const [globalAutoAssign, setGlobalAutoAssign] = React.useState<boolean>(true);
-    const [tableSettings, setTableSettings] = React.useState<{ [key: number]: { name: string, doNotAutoAssign: boolean } }>({
-        1: { name: 'Stream', doNotAutoAssign: false }
-    });
-
-    // Keep assignments array in sync with tableCount
-    React.useEffect(() => {
-        setTableAssignments(prev => {
-            const newAssignments = [...prev];
-            while (newAssignments.length < tableCount) newAssignments.push(null);
-            if (newAssignments.length > tableCount) return newAssignments.slice(0, tableCount);
-            return newAssignments;
-        });
-    }, [tableCount]);
-
-    const autoAssign = React.useCallback((matches: any[] | undefined) => {
-        if (!matches) return;
-        setTableAssignments(prev => autoAssignMatches(matches, prev, tableCount, tableSettings, globalAutoAssign));
-    }, [tableCount, tableSettings, globalAutoAssign]);
-
-    const assignToTable = React.useCallback((matchId: number, tableIndex: number) => {
-        setTableAssignments(prev => assignMatchToTable(prev, matchId, tableIndex));
-    }, []);
-
-    const removeFromTable = React.useCallback((tableIndex: number) => {
-        setTableAssignments(prev => removeMatchFromTable(prev, tableIndex));
-    }, []);
-
-    const updateSettings = React.useCallback((tableNumber: number, updates: Partial<{ name: string; doNotAutoAssign: boolean; }>) => {
-        setTableSettings(prev => updateTableSettings(prev, tableNumber, updates));
-    }, []);
-
-    const addTable = React.useCallback(() => setTableCount(prev => prev + 1), []);
-
-    const removeTable = React.useCallback(() => setTableCount(prev => Math.max(1, prev - 1)), []);
+import TournamentService from '../services/tournamentService';
+import { createTableState, updateTableSettings } from '../services/tableManager';
+import { TableRule, TableSettings, TableState } from '../types';
+
+// Table layout of the current tournament, as kept by the tournament service. Which match
+// is on which table lives on the matches in bracketsData. Layout changes can move matches
+// (auto-assignment, removed tables), so onMatchesChange is called after each one.
+export default function useTables(svc: TournamentService, onMatchesChange: () => Promise<unknown>) {
+    const [tables, setTables] = React.useState<TableState>(() => createTableState());
+
+    // Reload the layout, e.g. after switching tournaments
+    const refreshTables = React.useCallback(async () => {
+        setTables(await svc.getTables());
+    }, [svc]);
+
+    const apply = React.useCallback(async (change: () => Promise<TableState>) => {
+        try {
+            setTables(await change());
+            await onMatchesChange();
+        } catch (error) {
+            console.error('Error updating tables:', error);
+        }
+    }, [onMatchesChange]);
+
+    const updateTables = React.useCallback((changes: Partial<TableState>) => apply(() => svc.updateTables(changes)), [svc, apply]);
+
+    const setGlobalAutoAssign = React.useCallback((enabled: boolean) => updateTables({ globalAutoAssign: enabled }), [updateTables]);
+
+    const setScheduler = React.useCallback((scheduler: string) => updateTables({ scheduler }), [updateTables]);
+
+    const setMinRest = React.useCallback((minRestMinutes: number) => updateTables({ minRestMinutes }), [updateTables]);
+
+    const setRules = React.useCallback((rules: TableRule[]) => updateTables({ rules }), [updateTables]);
+
+    const setTableSettings = React.useCallback((tableNumber: number, updates: Partial<TableSettings>) => apply(async () => {
+        const current = await svc.getTables();
+        return svc.updateTables({ tableSettings: updateTableSettings(current.tableSettings, tableNumber, updates) });
+    }), [svc, apply]);
+
+    const renameTable = React.useCallback((tableNumber: number, name: string) => apply(() => svc.renameTable(tableNumber, name)), [svc, apply]);
+
+    const addTable = React.useCallback(() => apply(async () => {
+        const current = await svc.getTables();
+        return svc.updateTables({ tableCount: Math.min(100, current.tableCount + 1) });
+    }), [svc, apply]);
+
+    // Matches on the removed table go back to waiting
+    const removeTable = React.useCallback(() => apply(async () => {
+        const current = await svc.getTables();
+        return svc.updateTables({ tableCount: current.tableCount - 1 });
+    }), [svc, apply]);
+
+    const autoAssign = React.useCallback(() => apply(async () => {
+        await svc.autoAssignTables();
+        return svc.getTables();
+    }), [svc, apply]);
 
     return {
-        tableCount,
-        tableAssignments,
-        globalAutoAssign,
+        tables,
+        tableCount: tables.tableCount,
+        tableSettings: tables.tableSettings,
+        globalAutoAssign: tables.globalAutoAssign,
         setGlobalAutoAssign,
-        tableSettings,
-        setTableSettings: updateSettings,
+        scheduler: tables.scheduler,
+        setScheduler,
+        minRestMinutes: tables.minRestMinutes || 0,
+        setMinRest,
+        rules: tables.rules || [],
+        setRules,
+        setTableSettings,
+        renameTable,
         autoAssign,
-        assignToTable,
-        removeFromTable,
         addTable,
         removeTable,
-        setTableAssignments,
-        setTableCount
+        refreshTables
     };
 }
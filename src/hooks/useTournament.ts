@@ -1,7 +1,10 @@
 import * as React from 'react';
 import TournamentService from '../services/tournamentService';
-import { Player, BracketsData, BracketType } from '../types';
-import { shuffleArray, generateDemoPlayers } from '../utils';
+import { Player, BracketsData, BracketType, CallTimerSettings, ForfeitReason, RackEntry, SeedingMode, RaceChartRow, RaceScheduleEntry, TableState, TournamentSettings, AuditEvent, Stage, Tournament, TournamentSession } from '../types';
+import { DEFAULT_CALL_TIMER, generateDemoPlayers, getMatchLabel, getMatchRaces } from '../utils';
+import { orderPlayersForSeeding } from '../services/seeding';
+import { DEFAULT_RACE_CHART } from '../services/handicap';
+import { getRaceWinner } from '../services/gameTypes';
 
 interface StartConfig extends Partial<{
     players: Player[];
@@ -12,8 +15,40 @@ interface StartConfig extends Partial<{
     trueDouble: boolean;
     raceWinners: number;
     raceLosers: number;
+    groupCount: number;
+    playoffType: PlayoffType;
+    advancePerGroup: number;
+    swissRounds: number;
+    seedingMode: SeedingMode;
+    separateBy: SeparateBy;
+    handicap: boolean;
+    raceChart: RaceChartRow[];
+    raceSchedule: RaceScheduleEntry[];
 }> { }
 
+type PlayoffType = NonNullable<TournamentSettings['playoffType']>;
+type SeparateBy = NonNullable<TournamentSettings['separateBy']>;
+
+const DEFAULT_SETTINGS: TournamentSettings = {
+    name: '',
+    description: '',
+    gameType: 'Nine Ball',
+    bracketType: 'double',
+    trueDouble: true,
+    raceWinners: 7,
+    raceLosers: 5,
+    groupCount: 1,
+    playoffType: 'none',
+    advancePerGroup: 2,
+    swissRounds: 0,
+    seedingMode: 'random',
+    separateBy: 'none',
+    handicap: false,
+    raceChart: DEFAULT_RACE_CHART,
+    raceSchedule: [],
+    callTimer: DEFAULT_CALL_TIMER
+};
+
 export default function useTournament(tournamentService?: TournamentService) {
     const svc = tournamentService || new TournamentService();
 
@@ -28,6 +63,26 @@ export default function useTournament(tournamentService?: TournamentService) {
     const [raceWinners, setRaceWinners] = React.useState<number>(7);
     const [raceLosers, setRaceLosers] = React.useState<number>(5);
     const [trueDouble, setTrueDouble] = React.useState<boolean>(true);
+    const [groupCount, setGroupCount] = React.useState<number>(1);
+    const [playoffType, setPlayoffType] = React.useState<PlayoffType>('none');
+    const [advancePerGroup, setAdvancePerGroup] = React.useState<number>(2);
+    // 0 = as many rounds as the field needs
+    const [swissRounds, setSwissRounds] = React.useState<number>(0);
+    const [seedingMode, setSeedingMode] = React.useState<SeedingMode>('random');
+    const [separateBy, setSeparateBy] = React.useState<SeparateBy>('none');
+    const [handicap, setHandicap] = React.useState<boolean>(false);
+    const [raceChart, setRaceChart] = React.useState<RaceChartRow[]>(DEFAULT_RACE_CHART);
+    const [raceSchedule, setRaceSchedule] = React.useState<RaceScheduleEntry[]>([]);
+    const [callTimer, setCallTimer] = React.useState<CallTimerSettings>(DEFAULT_CALL_TIMER);
+
+    // Tournament library
+    const [tournaments, setTournaments] = React.useState<Tournament[]>([]);
+    const [currentTournamentId, setCurrentTournamentId] = React.useState<number>(() => svc.getCurrentTournamentId());
+
+    const refreshTournaments = React.useCallback(async () => {
+        setTournaments(await svc.listTournaments());
+        setCurrentTournamentId(svc.getCurrentTournamentId());
+    }, [svc]);
 
     const startTournament = React.useCallback(async (config?: StartConfig) => {
         const usePlayers = config?.players ?? [];
@@ -38,6 +93,15 @@ export default function useTournament(tournamentService?: TournamentService) {
         const useTrueDouble = config?.trueDouble ?? trueDouble;
         const useRaceWinners = config?.raceWinners ?? raceWinners;
         const useRaceLosers = config?.raceLosers ?? raceLosers;
+        const useGroupCount = config?.groupCount ?? groupCount;
+        const usePlayoffType = config?.playoffType ?? playoffType;
+        const useAdvancePerGroup = config?.advancePerGroup ?? advancePerGroup;
+        const useSwissRounds = config?.swissRounds ?? swissRounds;
+        const useSeedingMode = config?.seedingMode ?? seedingMode;
+        const useSeparateBy = config?.separateBy ?? separateBy;
+        const useHandicap = config?.handicap ?? handicap;
+        const useRaceChart = config?.raceChart ?? raceChart;
+        const useRaceSchedule = config?.raceSchedule ?? raceSchedule;
 
         if (!usePlayers || usePlayers.length === 0) {
             throw new Error('No players provided');
@@ -45,13 +109,15 @@ export default function useTournament(tournamentService?: TournamentService) {
 
         const bracketTypeMap = {
             'single': 'single_elimination' as const,
-            'double': 'double_elimination' as const
+            'double': 'double_elimination' as const,
+            'round_robin': 'round_robin' as const,
+            'swiss': 'swiss' as const
         };
 
-        const shuffledPlayers = shuffleArray(usePlayers);
+        const seededPlayers = orderPlayersForSeeding(usePlayers, useSeedingMode);
 
         const data = await svc.createTournament(
-            shuffledPlayers,
+            seededPlayers,
             bracketTypeMap[useBracketType],
             useTournamentName,
             {
@@ -59,7 +125,19 @@ export default function useTournament(tournamentService?: TournamentService) {
                 gameType: useGameType,
                 trueDouble: useTrueDouble,
                 raceWinners: useRaceWinners,
-                raceLosers: useRaceLosers
+                raceLosers: useRaceLosers,
+                groupCount: useGroupCount,
+                ...(usePlayoffType !== 'none' ? {
+                    playoff: {
+                        bracketType: bracketTypeMap[usePlayoffType],
+                        advancePerGroup: useAdvancePerGroup
+                    }
+                } : {}),
+                ...(useSwissRounds > 0 ? { swissRounds: useSwissRounds } : {}),
+                seeded: useSeedingMode !== 'random',
+                ...(useSeparateBy !== 'none' ? { separateBy: useSeparateBy } : {}),
+                ...(useHandicap ? { handicap: { chart: useRaceChart } } : {}),
+                ...(useRaceSchedule.length > 0 ? { raceSchedule: useRaceSchedule } : {})
             }
         );
 
@@ -70,13 +148,23 @@ export default function useTournament(tournamentService?: TournamentService) {
         setTrueDouble(Boolean(useTrueDouble));
         setRaceWinners(useRaceWinners || 7);
         setRaceLosers(useRaceLosers || 5);
+        setGroupCount(useGroupCount || 1);
+        setPlayoffType(usePlayoffType || 'none');
+        setAdvancePerGroup(useAdvancePerGroup || 2);
+        setSwissRounds(useSwissRounds || 0);
+        setSeedingMode(useSeedingMode || 'random');
+        setSeparateBy(useSeparateBy || 'none');
+        setHandicap(Boolean(useHandicap));
+        setRaceChart(useRaceChart || DEFAULT_RACE_CHART);
+        setRaceSchedule(useRaceSchedule || []);
 
         setBracketsData(data);
         setTournamentStarted(true);
         setTournamentComplete(false);
+        await refreshTournaments();
 
         return data;
-    }, [svc, bracketType, tournamentName, tournamentDescription, gameType, trueDouble, raceWinners, raceLosers]);
+    }, [svc, refreshTournaments, bracketType, tournamentName, tournamentDescription, gameType, trueDouble, raceWinners, raceLosers, groupCount, playoffType, advancePerGroup, swissRounds, seedingMode, separateBy, handicap, raceChart, raceSchedule]);
 
     const updateMatch = React.useCallback(async (matchId: number, opponent1Score?: number, opponent2Score?: number, opponent1Result?: string, opponent2Result?: string) => {
         await svc.updateMatch(matchId, opponent1Score, opponent2Score, opponent1Result as any, opponent2Result as any);
@@ -88,40 +176,238 @@ export default function useTournament(tournamentService?: TournamentService) {
     }, [svc]);
 
     const handleBracketMatchUpdate = React.useCallback(async (matchId: number, opponent1Score: number, opponent2Score: number) => {
-        // Determine results
-        const opponent1Result = opponent1Score > opponent2Score ? 'win' : 'loss';
-        const opponent2Result = opponent2Score > opponent1Score ? 'win' : 'loss';
-
-        // Save current table assignments
-        const currentTableAssignments = new Map<number, number>();
-        if (bracketsData?.match) {
-            bracketsData.match.forEach(match => {
-                if (match.table !== null && match.table !== undefined) {
-                    currentTableAssignments.set(match.id, match.table);
-                }
-            });
-        }
+        // Determine results: the winner is the player who reached their race, which with
+        // handicaps is not always the player with more racks
+        const match = bracketsData?.match.find(m => m.id === matchId);
+        const [race1, race2] = match && bracketsData
+            ? getMatchRaces(match, bracketsData.match, bracketsData.stage.find(s => s.id === match.stage_id))
+            : [0, 0];
+        const winner = getRaceWinner(opponent1Score, race1, opponent2Score, race2) ?? (opponent1Score > opponent2Score ? 1 : 2);
+        const opponent1Result = winner === 1 ? 'win' : 'loss';
+        const opponent2Result = winner === 2 ? 'win' : 'loss';
 
-        await svc.updateMatch(matchId, opponent1Score, opponent2Score, opponent1Result as any, opponent2Result as any);
+        const label = match
+            ? `Score ${getMatchLabel(match, bracketsData?.participant || [])}: ${opponent1Score}-${opponent2Score}`
+            : `Score match ${matchId}: ${opponent1Score}-${opponent2Score}`;
+
+        // Scoring a match also frees its table (and refills it when auto-assigning); all of it undoes together
+        await svc.runCommand(label, () => svc.updateMatch(matchId, opponent1Score, opponent2Score, opponent1Result as any, opponent2Result as any));
 
         const updatedData = await svc.getTournamentData();
+        setBracketsData(updatedData);
+        setTournamentComplete(await svc.isTournamentComplete());
 
-        const restoredMatches = updatedData.match.map((match: any) => {
-            if (match.id === matchId) {
-                return { ...match, table: undefined };
-            }
-            const tableId = currentTableAssignments.get(match.id);
-            return tableId !== undefined ? { ...match, table: tableId } : match;
-        });
+        return updatedData;
+    }, [svc, bracketsData]);
 
-        setBracketsData({
-            ...updatedData,
-            match: restoredMatches
-        });
+    // Record one rack; the rack that decides the match also frees its table, in the same undo step
+    const recordRack = React.useCallback(async (matchId: number, rack: RackEntry) => {
+        const match = bracketsData?.match.find(m => m.id === matchId);
+        const label = match ? `Rack ${getMatchLabel(match, bracketsData?.participant || [])}` : `Rack match ${matchId}`;
+
+        await svc.runCommand(label, () => svc.recordRack(matchId, rack));
 
+        const updatedData = await svc.getTournamentData();
+        setBracketsData(updatedData);
+        setTournamentComplete(await svc.isTournamentComplete());
         return updatedData;
     }, [svc, bracketsData]);
 
+    // Bump one player's score during play; the match shows as running until a result is given
+    const adjustLiveScore = React.useCallback(async (matchId: number, side: 1 | 2, delta: number) => {
+        await svc.adjustLiveScore(matchId, side, delta);
+        const updatedData = await svc.getTournamentData();
+        setBracketsData(updatedData);
+        return updatedData;
+    }, [svc]);
+
+    // Forfeit one side of a match; the bracket moves on as if the match had been played
+    const forfeitMatch = React.useCallback(async (matchId: number, side: 1 | 2, reason: ForfeitReason) => {
+        await svc.forfeitMatch(matchId, side, reason);
+        const updatedData = await svc.getTournamentData();
+        setBracketsData(updatedData);
+        setTournamentComplete(await svc.isTournamentComplete());
+        return updatedData;
+    }, [svc]);
+
+    // Both players of a called match are at the table
+    const startMatch = React.useCallback(async (matchId: number) => {
+        await svc.startMatch(matchId);
+        const updatedData = await svc.getTournamentData();
+        setBracketsData(updatedData);
+        return updatedData;
+    }, [svc]);
+
+    // Reopen a finished match together with the later matches that depend on its result
+    const resetMatch = React.useCallback(async (matchId: number) => {
+        await svc.resetMatch(matchId);
+        const updatedData = await svc.getTournamentData();
+        setBracketsData(updatedData);
+        setTournamentComplete(await svc.isTournamentComplete());
+        return updatedData;
+    }, [svc]);
+
+    const getResetImpact = React.useCallback((matchId: number) => svc.getResetImpact(matchId), [svc]);
+
+    // Undo / redo restore a storage snapshot, so reload everything from the service
+    const refreshFromService = React.useCallback(async () => {
+        const updatedData = await svc.getTournamentData();
+        setBracketsData(updatedData);
+        setTournamentComplete(await svc.isTournamentComplete());
+        return updatedData;
+    }, [svc]);
+
+    const undo = React.useCallback(async () => {
+        const entry = await svc.undo();
+        if (entry) await refreshFromService();
+        return entry;
+    }, [svc, refreshFromService]);
+
+    const redo = React.useCallback(async () => {
+        const entry = await svc.redo();
+        if (entry) await refreshFromService();
+        return entry;
+    }, [svc, refreshFromService]);
+
+    const [history, setHistory] = React.useState(() => svc.getHistory().getEntries());
+    React.useEffect(() => {
+        const commandHistory = svc.getHistory();
+        setHistory(commandHistory.getEntries());
+        return commandHistory.subscribe(() => setHistory(commandHistory.getEntries()));
+    }, [svc]);
+
+    // Audit events of the current tournament
+    const [auditEvents, setAuditEvents] = React.useState<AuditEvent[]>([]);
+    React.useEffect(() => {
+        const auditLog = svc.getAuditLog();
+        const load = () => setAuditEvents(auditLog.getEvents({ tournamentId: currentTournamentId }));
+        load();
+        return auditLog.subscribe(load);
+    }, [svc, currentTournamentId]);
+
+    // Apply wizard settings (used when opening a saved tournament file)
+    const applySettings = React.useCallback((settings: TournamentSettings) => {
+        setTournamentName(settings.name || '');
+        setTournamentDescription(settings.description || '');
+        setGameType(settings.gameType || 'Nine Ball');
+        setBracketType(settings.bracketType || 'double');
+        setTrueDouble(Boolean(settings.trueDouble));
+        setRaceWinners(settings.raceWinners || 7);
+        setRaceLosers(settings.raceLosers || 5);
+        setGroupCount(settings.groupCount || 1);
+        setPlayoffType(settings.playoffType || 'none');
+        setAdvancePerGroup(settings.advancePerGroup || 2);
+        setSwissRounds(settings.swissRounds || 0);
+        setSeedingMode(settings.seedingMode || 'random');
+        setSeparateBy(settings.separateBy || 'none');
+        setHandicap(Boolean(settings.handicap));
+        setRaceChart(settings.raceChart || DEFAULT_RACE_CHART);
+        setRaceSchedule(settings.raceSchedule || []);
+        setCallTimer(settings.callTimer || DEFAULT_CALL_TIMER);
+    }, []);
+
+    // Settings of a tournament saved before sessions existed are read from its (first) stage
+    const applyStageSettings = React.useCallback((stage: Stage) => {
+        const settings = stage.settings as any;
+        const playoff = settings.playoff;
+        applySettings({
+            name: stage.name || '',
+            description: settings.description || '',
+            gameType: settings.gameType || 'Nine Ball',
+            bracketType: settings.swiss ? 'swiss' : stage.type === 'single_elimination' ? 'single' : stage.type === 'round_robin' ? 'round_robin' : 'double',
+            trueDouble: settings.grandFinal === 'double',
+            raceWinners: settings.raceWinners || 7,
+            raceLosers: settings.raceLosers || 5,
+            groupCount: settings.groupCount || 1,
+            playoffType: playoff ? (playoff.bracketType === 'single_elimination' ? 'single' : 'double') : 'none',
+            advancePerGroup: playoff?.advancePerGroup || 2,
+            swissRounds: settings.swiss?.rounds || 0,
+            handicap: Boolean(settings.handicap),
+            raceChart: settings.handicap?.chart || DEFAULT_RACE_CHART,
+            raceSchedule: settings.raceSchedule || []
+        });
+    }, [applySettings]);
+
+    // Show the service's current tournament. Returns its saved session so the
+    // caller can restore the players.
+    const showCurrentTournament = React.useCallback(async (): Promise<{ data: BracketsData | null; session: TournamentSession | null }> => {
+        const data = await svc.getTournamentData();
+        const tournament = await svc.getCurrentTournament();
+        // A pool stage may be followed by its playoff; the first stage holds the settings
+        const stage = data.stage[0];
+        const started = data.stage.length > 0;
+
+        if (tournament?.session) {
+            applySettings(tournament.session.settings);
+        } else if (stage) {
+            applyStageSettings(stage);
+        } else {
+            applySettings({ ...DEFAULT_SETTINGS, name: tournament?.name || '' });
+        }
+
+        setBracketsData(started ? data : null);
+        setTournamentStarted(started);
+        setTournamentComplete(started && await svc.isTournamentComplete());
+        await refreshTournaments();
+        return { data: started ? data : null, session: tournament?.session ?? null };
+    }, [svc, applySettings, applyStageSettings, refreshTournaments]);
+
+    // Add saved bracket data (e.g. an opened tournament file) to the library and show it
+    const loadTournament = React.useCallback(async (data: BracketsData, settings: TournamentSettings, auditEvents: AuditEvent[] = [], tables?: TableState) => {
+        await svc.importTournament(data, settings.name, auditEvents, tables);
+        const result = await showCurrentTournament();
+        applySettings(settings);
+        return result.data;
+    }, [svc, showCurrentTournament, applySettings]);
+
+    const switchTournament = React.useCallback(async (tournamentId: number) => {
+        await svc.switchTournament(tournamentId);
+        return showCurrentTournament();
+    }, [svc, showCurrentTournament]);
+
+    const addTournament = React.useCallback(async () => {
+        await svc.addTournament();
+        return showCurrentTournament();
+    }, [svc, showCurrentTournament]);
+
+    const deleteTournament = React.useCallback(async (tournamentId: number) => {
+        await svc.deleteTournament(tournamentId);
+        return showCurrentTournament();
+    }, [svc, showCurrentTournament]);
+
+    // Store players and settings with the current tournament
+    const saveSession = React.useCallback(async (session: TournamentSession) => {
+        await svc.saveSession(session);
+        await refreshTournaments();
+    }, [svc, refreshTournaments]);
+
+    // Current wizard settings in the shape stored in tournament files
+    const getSettings = React.useCallback((): TournamentSettings => ({
+        name: tournamentName,
+        description: tournamentDescription,
+        gameType,
+        bracketType,
+        trueDouble,
+        raceWinners,
+        raceLosers,
+        groupCount,
+        playoffType,
+        advancePerGroup,
+        swissRounds,
+        seedingMode,
+        separateBy,
+        handicap,
+        raceChart,
+        raceSchedule,
+        callTimer
+    }), [tournamentName, tournamentDescription, gameType, bracketType, trueDouble, raceWinners, raceLosers, groupCount, playoffType, advancePerGroup, swissRounds, seedingMode, separateBy, handicap, raceChart, raceSchedule, callTimer]);
+
+    // Restore the tournament library persisted by a previous session (crash, window closed mid-event)
+    const resumeTournament = React.useCallback(async () => {
+        await svc.resumeTournament();
+        return showCurrentTournament();
+    }, [svc, showCurrentTournament]);
+
     const generateDemo = React.useCallback(() => {
         const demoPlayers = generateDemoPlayers();
         return demoPlayers;
@@ -148,9 +434,48 @@ export default function useTournament(tournamentService?: TournamentService) {
         setRaceLosers,
         trueDouble,
         setTrueDouble,
+        groupCount,
+        setGroupCount,
+        playoffType,
+        setPlayoffType,
+        advancePerGroup,
+        setAdvancePerGroup,
+        swissRounds,
+        setSwissRounds,
+        seedingMode,
+        setSeedingMode,
+        separateBy,
+        setSeparateBy,
+        handicap,
+        setHandicap,
+        raceChart,
+        setRaceChart,
+        raceSchedule,
+        setRaceSchedule,
+        callTimer,
+        setCallTimer,
         startTournament,
         updateMatch,
         handleBracketMatchUpdate,
+        recordRack,
+        adjustLiveScore,
+        forfeitMatch,
+        startMatch,
+        resetMatch,
+        getResetImpact,
+        resumeTournament,
+        loadTournament,
+        tournaments,
+        currentTournamentId,
+        switchTournament,
+        addTournament,
+        deleteTournament,
+        saveSession,
+        getSettings,
+        history,
+        auditEvents,
+        undo,
+        redo,
         generateDemo
     };
 }
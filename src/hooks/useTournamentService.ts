@@ -1,10 +1,17 @@
 import { useRef } from 'react';
 import TournamentService from '../services/tournamentService';
+import { FileStorage, getIpcPersistence } from '../services/fileStorage';
+import { AuditLog, getIpcAuditPersistence } from '../services/auditLog';
 
 export default function useTournamentService(): TournamentService {
     const ref = useRef<TournamentService | null>(null);
     if (!ref.current) {
-        ref.current = new TournamentService();
+        // Use durable storage when running inside Electron, in-memory otherwise
+        const persistence = getIpcPersistence();
+        ref.current = new TournamentService(
+            persistence ? new FileStorage(persistence) : undefined,
+            new AuditLog(getIpcAuditPersistence())
+        );
     }
     return ref.current;
 }
@@ -1,5 +1,6 @@
-const { app, BrowserWindow, ipcMain, net } = require('electron');
+const { app, BrowserWindow, ipcMain, net, dialog, Menu } = require('electron');
 const path = require('node:path');
+const fs = require('node:fs');
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (require('electron-squirrel-startup')) {
@@ -23,10 +24,63 @@ const createWindow = () => {
   mainWindow.webContents.openDevTools();
 };
 
+// Location of the durable tournament storage snapshot
+const getStorageFilePath = () => path.join(app.getPath('userData'), 'tournament-data.json');
+
+// Append-only audit journal (one JSON event per line)
+const getAuditLogFilePath = () => path.join(app.getPath('userData'), 'audit-log.jsonl');
+
+// Write a file atomically: write to a temp file, flush it to disk, then rename it
+// over the target. A crash mid-write leaves either the old or the new file intact.
+const writeFileAtomic = async (filePath, contents) => {
+  const tmpPath = `${filePath}.tmp`;
+  const handle = await fs.promises.open(tmpPath, 'w');
+  try {
+    await handle.writeFile(contents, 'utf8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.promises.rename(tmpPath, filePath);
+};
+
+const TOURNAMENT_FILE_FILTERS = [
+  { name: 'Tournament Files', extensions: ['tournament', 'json'] },
+  { name: 'All Files', extensions: ['*'] },
+];
+
+// Ask the focused renderer to run a menu command (e.g. save-as / open)
+const sendMenuCommand = (command) => {
+  const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+  if (win) {
+    win.webContents.send('menu-command', command);
+  }
+};
+
+const buildApplicationMenu = () => {
+  const template = [
+    ...(process.platform === 'darwin' ? [{ role: 'appMenu' }] : []),
+    {
+      label: 'File',
+      submenu: [
+        { label: 'Open Tournament...', accelerator: 'CmdOrCtrl+O', click: () => sendMenuCommand('open') },
+        { label: 'Save Tournament As...', accelerator: 'CmdOrCtrl+Shift+S', click: () => sendMenuCommand('save-as') },
+        { type: 'separator' },
+        process.platform === 'darwin' ? { role: 'close' } : { role: 'quit' },
+      ],
+    },
+    { role: 'editMenu' },
+    { role: 'viewMenu' },
+    { role: 'windowMenu' },
+  ];
+  Menu.setApplicationMenu(Menu.buildFromTemplate(template));
+};
+
 // This method will be called when Electron has finished
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
 app.whenReady().then(() => {
+  buildApplicationMenu();
   createWindow();
 
   // Register an IPC handler so preload can ask the main process to perform
@@ -75,6 +129,91 @@ app.whenReady().then(() => {
     }
   });
 
+  // Durable storage for the renderer's tournament database. The renderer keeps the
+  // working set in memory and sends a full snapshot after every mutation.
+  ipcMain.handle('storage-load', async () => {
+    try {
+      const raw = await fs.promises.readFile(getStorageFilePath(), 'utf8');
+      return JSON.parse(raw);
+    } catch (err) {
+      if (err && err.code !== 'ENOENT') {
+        console.error('storage-load error', err);
+      }
+      return null;
+    }
+  });
+
+  ipcMain.handle('storage-save', async (event, snapshot) => {
+    await fs.promises.mkdir(path.dirname(getStorageFilePath()), { recursive: true });
+    await writeFileAtomic(getStorageFilePath(), JSON.stringify(snapshot || {}));
+  });
+
+  // Audit journal. Events are only ever appended, never rewritten.
+  ipcMain.handle('audit-load', async () => {
+    try {
+      const raw = await fs.promises.readFile(getAuditLogFilePath(), 'utf8');
+      const events = [];
+      for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          events.push(JSON.parse(line));
+        } catch (err) {
+          // A crash mid-append can leave a partial last line; skip it
+          console.warn('audit-load skipped malformed line');
+        }
+      }
+      return events;
+    } catch (err) {
+      if (err && err.code !== 'ENOENT') {
+        console.error('audit-load error', err);
+      }
+      return [];
+    }
+  });
+
+  ipcMain.handle('audit-append', async (event, events) => {
+    const lines = (Array.isArray(events) ? events : []).map(e => `${JSON.stringify(e)}\n`).join('');
+    if (!lines) return;
+    await fs.promises.mkdir(path.dirname(getAuditLogFilePath()), { recursive: true });
+    const handle = await fs.promises.open(getAuditLogFilePath(), 'a');
+    try {
+      await handle.appendFile(lines, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  });
+
+  // Save / open tournament files. Dialogs run in the main process; the renderer
+  // only deals with the serialized file contents.
+  ipcMain.handle('tournament-file-save', async (event, payload) => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const { canceled, filePath } = await dialog.showSaveDialog(win, {
+      title: 'Save Tournament As',
+      defaultPath: (payload && payload.suggestedName) || 'tournament.tournament',
+      filters: TOURNAMENT_FILE_FILTERS,
+    });
+    if (canceled || !filePath) {
+      return { canceled: true };
+    }
+    await writeFileAtomic(filePath, String((payload && payload.contents) || ''));
+    return { canceled: false, filePath };
+  });
+
+  ipcMain.handle('tournament-file-open', async (event) => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const { canceled, filePaths } = await dialog.showOpenDialog(win, {
+      title: 'Open Tournament',
+      properties: ['openFile'],
+      filters: TOURNAMENT_FILE_FILTERS,
+    });
+    if (canceled || !filePaths || !filePaths[0]) {
+      return { canceled: true };
+    }
+    const contents = await fs.promises.readFile(filePaths[0], 'utf8');
+    return { canceled: false, filePath: filePaths[0], contents };
+  });
+
   // On OS X it's common to re-create a window in the app when the
   // dock icon is clicked and there are no other windows open.
   app.on('activate', () => {
@@ -35,6 +35,40 @@ contextBridge.exposeInMainWorld('api', {
             console.error('getFargoSuggestions error', err);
             return Promise.resolve([]);
         }
+    },
+
+    // Durable tournament storage (see FileStorage in src/services/fileStorage.ts)
+    loadStorage() {
+        return ipcRenderer.invoke('storage-load');
+    },
+
+    saveStorage(snapshot) {
+        return ipcRenderer.invoke('storage-save', snapshot);
+    },
+
+    // Append-only audit journal (see AuditLog in src/services/auditLog.ts)
+    loadAuditLog() {
+        return ipcRenderer.invoke('audit-load');
+    },
+
+    appendAuditLog(events) {
+        return ipcRenderer.invoke('audit-append', events);
+    },
+
+    // Tournament files: the main process shows the dialogs and does the file IO
+    saveTournamentFile(contents, suggestedName) {
+        return ipcRenderer.invoke('tournament-file-save', { contents, suggestedName });
+    },
+
+    openTournamentFile() {
+        return ipcRenderer.invoke('tournament-file-open');
+    },
+
+    // Subscribe to application menu commands; returns an unsubscribe function
+    onMenuCommand(callback) {
+        const listener = (event, command) => callback(command);
+        ipcRenderer.on('menu-command', listener);
+        return () => ipcRenderer.removeListener('menu-command', listener);
     }
 });
 // See the Electron documentation for details on how to use preload scripts:
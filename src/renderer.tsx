@@ -13,31 +13,37 @@ import PlayerRow from './components/PlayerRow';
 import PreStartPlayerRow from './components/PreStartPlayerRow';
 import PlayersTable from './components/PlayersTable';
 import PlayersPanel from './components/PlayersPanel';
+import HistoryPanel from './components/HistoryPanel';
+import AuditLogPanel from './components/AuditLogPanel';
+import StandingsTable from './components/StandingsTable';
 import {
     Player,
     Match,
-    TableSettings,
     TournamentState,
     BracketType,
+    SeedingMode,
+    RaceChartRow,
+    RaceScheduleEntry,
+    RackEntry,
+    ForfeitReason,
     BracketsData,
     Tournament,
+    TournamentSession,
     Participant
 } from './types';
-import { getDefaultTableName, shuffleArray, generateDemoPlayers, isBye } from './utils';
+import { shuffleArray, generateDemoPlayers, isBye, getMatchLabel } from './utils';
 import TournamentService from './services/tournamentService';
+import { computeStandings, Placing } from './services/standings';
+import { computeSwissStandings } from './services/swiss';
+import { createTournamentFile, serializeTournamentFile, parseTournamentFile, getSuggestedFileName } from './services/tournamentFile';
 import useTournamentService from './hooks/useTournamentService';
 import useTournament from './hooks/useTournament';
 import AppHeader from './components/AppHeader';
 import TrialModal from './components/TrialModal';
 import trialService from './services/trialService';
-import {
-    autoAssignMatches,
-    assignMatchToTable,
-    removeMatchFromTable,
-    updateTableSettings,
-    getTableMatch
-} from './services/tableManager';
+import { getNextRestEnd, getTableName, getWaitingMatches } from './services/tableManager';
 import useTables from './hooks/useTables';
+import useProjection from './hooks/useProjection';
 
 const App = () => {
     const urlParams = new URLSearchParams(window.location.search);
@@ -49,24 +55,7 @@ const App = () => {
 
     // State
     const [players, setPlayers] = useState<Player[]>([]);
-    const [activeTab, setActiveTab] = useState<'bracket' | 'tables' | 'players'>('bracket');
-
-    // Table management
-    const {
-        tableCount,
-        tableAssignments,
-        globalAutoAssign,
-        setGlobalAutoAssign,
-        tableSettings,
-        setTableSettings,
-        autoAssign,
-        assignToTable,
-        removeFromTable,
-        addTable,
-        removeTable,
-        setTableAssignments: setTableAssignmentsHook,
-        setTableCount: setTableCountHook
-    } = useTables(1);
+    const [activeTab, setActiveTab] = useState<'bracket' | 'tables' | 'players' | 'history' | 'audit'>('bracket');
 
     // Tournament logic moved into a hook
     const {
@@ -90,12 +79,136 @@ const App = () => {
         setRaceLosers,
         trueDouble,
         setTrueDouble,
+        groupCount,
+        playoffType,
+        advancePerGroup,
+        swissRounds,
+        seedingMode,
+        separateBy,
+        handicap,
+        raceChart,
+        raceSchedule,
+        callTimer,
+        setCallTimer,
         startTournament,
         updateMatch,
         handleBracketMatchUpdate,
+        recordRack,
+        adjustLiveScore,
+        forfeitMatch,
+        startMatch,
+        resetMatch,
+        getResetImpact,
+        resumeTournament,
+        loadTournament,
+        tournaments,
+        currentTournamentId,
+        switchTournament,
+        addTournament,
+        deleteTournament,
+        saveSession,
+        getSettings,
+        history,
+        auditEvents,
+        undo,
+        redo,
         generateDemo
     } = useTournament(tournamentService);
 
+    // Table management. The layout is kept by the tournament service and can move
+    // matches (auto-assignment, removed tables), so the bracket is reloaded after each change.
+    const reloadBrackets = React.useCallback(async () => {
+        const data = await tournamentService.getTournamentData();
+        if (data.stage.length > 0) setBracketsData(data);
+    }, [tournamentService, setBracketsData]);
+    const {
+        tables,
+        tableCount,
+        setGlobalAutoAssign,
+        setScheduler,
+        setMinRest,
+        setRules,
+        setTableSettings,
+        renameTable,
+        autoAssign,
+        addTable,
+        removeTable,
+        refreshTables
+    } = useTables(tournamentService, reloadBrackets);
+
+    // Nothing else happens when a player's rest is over, so auto-assign again a moment after
+    React.useEffect(() => {
+        if (!bracketsData || !tables.globalAutoAssign) return;
+        const restEnd = getNextRestEnd(bracketsData.match, bracketsData.stage, tables);
+        if (restEnd === null) return;
+        const timer = window.setTimeout(() => { autoAssign(); }, restEnd - Date.now() + 1000);
+        return () => window.clearTimeout(timer);
+    }, [bracketsData, tables, autoAssign]);
+
+    // Estimated start times and the projected finish, shown on the tables, in the player lookup and in the header
+    const projection = useProjection(tournamentService, bracketsData, tables);
+
+    // Standings of the round-robin pools or the Swiss stage (empty for elimination brackets)
+    const standings = React.useMemo(() => {
+        const stage = bracketsData?.stage.find(s => s.type === 'round_robin' && !s.settings.swiss);
+        return bracketsData && stage ? computeStandings(bracketsData, stage.id) : [];
+    }, [bracketsData]);
+    const swissStandings = React.useMemo(() => {
+        const stage = bracketsData?.stage.find(s => s.settings.swiss);
+        return bracketsData && stage ? computeSwissStandings(bracketsData, stage.id) : [];
+    }, [bracketsData]);
+    // Final places, once the elimination bracket is decided
+    const [placings, setPlacings] = useState<Placing[]>([]);
+    useEffect(() => {
+        if (!bracketsData) {
+            setPlacings([]);
+            return;
+        }
+        tournamentService.getPlacings()
+            .then(setPlacings)
+            .catch(error => console.error('Failed to load final standings:', error));
+    }, [bracketsData, tournamentService]);
+
+    // Players and settings are saved with the current tournament (the service keeps its
+    // tables). Saving pauses while another tournament is swapped in so mixed state is never written.
+    const sessionPausedRef = useRef(true);
+    const [sessionEpoch, setSessionEpoch] = useState(0);
+
+    const swapTournament = async (load: () => Promise<{ session: TournamentSession | null }>) => {
+        sessionPausedRef.current = true;
+        try {
+            const { session } = await load();
+            setPlayers(session?.players || []);
+            await refreshTables();
+        } finally {
+            sessionPausedRef.current = false;
+            setSessionEpoch(epoch => epoch + 1);
+        }
+    };
+
+    useEffect(() => {
+        if (isBracketsPopout || isTablesPopout || sessionPausedRef.current) return;
+        saveSession({
+            settings: getSettings(),
+            players
+        }).catch(err => console.error('Failed to save tournament session', err));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [sessionEpoch, getSettings, players]);
+
+    // Resume the tournament library from durable storage on startup
+    useEffect(() => {
+        if (isBracketsPopout || isTablesPopout) return;
+        swapTournament(resumeTournament).catch(err => console.error('Failed to resume tournament', err));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // Operator recorded on audit events; remembered between sessions on this machine
+    const [auditOperator, setAuditOperator] = useState<string>(() => localStorage.getItem('audit:operator') || '');
+    useEffect(() => {
+        tournamentService.getAuditLog().setOperator(auditOperator);
+        localStorage.setItem('audit:operator', auditOperator);
+    }, [auditOperator]);
+
     // Modal state
     const bracketScoreModal = useBracketScoreModal();
 
@@ -140,6 +253,28 @@ const App = () => {
         return () => window.removeEventListener('keydown', handler);
     }, []);
 
+    // Undo / redo shortcuts: Ctrl/Cmd + Z and Ctrl/Cmd + Shift + Z
+    useEffect(() => {
+        if (!tournamentStarted) return;
+        const handler = (e: KeyboardEvent) => {
+            const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
+            const ctrlOrCmd = isMac ? e.metaKey : e.ctrlKey;
+            if (!ctrlOrCmd || e.key.toLowerCase() !== 'z') return;
+
+            // Leave native text undo alone while typing in a field
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) {
+                return;
+            }
+
+            e.preventDefault();
+            const action = e.shiftKey ? redo : undo;
+            action().catch(err => console.error('Failed to apply history step', err));
+        };
+        window.addEventListener('keydown', handler);
+        return () => window.removeEventListener('keydown', handler);
+    }, [tournamentStarted, undo, redo]);
+
     useEffect(() => {
         // Poll remaining time every second while trial active
         const id = setInterval(() => {
@@ -161,12 +296,6 @@ const App = () => {
         };
     }, [tournamentStarted]);
 
-    // Auto-assign matches to tables whenever matches change
-    useEffect(() => {
-        if (!tournamentStarted || !globalAutoAssign) return;
-        autoAssign(bracketsData?.match);
-    }, [bracketsData?.match, tableCount, globalAutoAssign, tableSettings, tournamentStarted, autoAssign]);
-
     // Keep a copy of the latest brackets data in localStorage so popout windows stay in sync
     useEffect(() => {
         try {
@@ -178,19 +307,15 @@ const App = () => {
         }
     }, [bracketsData]);
 
-    // Persist table assignments and related view data so a tables popout can read it
+    // Persist the table layout so a tables popout can show it; the matches on the
+    // tables come with the brackets data
     useEffect(() => {
         try {
-            const tablesPayload = {
-                tableAssignments,
-                participants: bracketsData?.participant || [],
-                matches: bracketsData?.match || []
-            };
-            localStorage.setItem('tournament:tablesData', JSON.stringify(tablesPayload));
+            localStorage.setItem('tournament:tablesData', JSON.stringify({ tables }));
         } catch (e) {
             console.error('Failed to persist tablesData to localStorage', e);
         }
-    }, [tableAssignments, bracketsData?.participant, bracketsData?.match]);
+    }, [tables]);
 
     // Handle CSV upload
     const handleCSVUpload = (uploadedPlayers: Player[]) => {
@@ -213,6 +338,15 @@ const App = () => {
         trueDouble: boolean;
         raceWinners: number;
         raceLosers: number;
+        groupCount: number;
+        playoffType: 'none' | 'single' | 'double';
+        advancePerGroup: number;
+        swissRounds: number;
+        seedingMode: SeedingMode;
+        separateBy: 'none' | 'club' | 'city' | 'state';
+        handicap: boolean;
+        raceChart: RaceChartRow[];
+        raceSchedule: RaceScheduleEntry[];
     }> | undefined;
 
     // startTournament is provided by useTournament hook
@@ -294,30 +428,20 @@ const App = () => {
         bracketScoreModal.openModal(bracketMatch);
     };
 
-    // Handle table actions
-    const handleAssignToTable = (matchId: number, tableIndex: number) => assignToTable(matchId, tableIndex);
-    const handleRemoveFromTable = (tableIndex: number) => removeFromTable(tableIndex);
-    const handleTableSettingsUpdate = (tableNumber: number, updates: Partial<TableSettings>) => setTableSettings(tableNumber, updates);
-
     // Handle bracket match score update
     // handleBracketMatchUpdate is provided by useTournament hook
 
     // generateDemo is provided by useTournament hook
 
     // Table assignment handlers
+    // Table positions are stored on the match records so moves can be undone like scores
+    const getTableLabel = (tableId: number) => getTableName(tables, tableId);
+
     const handleMoveMatch = async (match: Match, tableId?: number) => {
         try {
-            if (bracketsData) {
-                const updatedMatches = bracketsData.match.map(m =>
-                    m.id === match.id
-                        ? { ...m, table: tableId || undefined }
-                        : m
-                );
-                setBracketsData({
-                    ...bracketsData,
-                    match: updatedMatches
-                });
-            }
+            const label = `Move ${getMatchLabel(match, bracketsData?.participant || [])} to ${tableId ? getTableLabel(tableId) : 'waiting'}`;
+            await tournamentService.runCommand(label, () => tournamentService.setMatchTable(match.id, tableId || undefined));
+            setBracketsData(await tournamentService.getTournamentData());
         } catch (error) {
             console.error('Error moving match:', error);
         }
@@ -325,23 +449,19 @@ const App = () => {
 
     const handleReturnToWaiting = async (match: Match) => {
         try {
-            if (bracketsData) {
-                const updatedMatches = bracketsData.match.map(m =>
-                    m.id === match.id
-                        ? { ...m, table: undefined }
-                        : m
-                );
-                setBracketsData({
-                    ...bracketsData,
-                    match: updatedMatches
-                });
-            }
+            const label = `Return ${getMatchLabel(match, bracketsData?.participant || [])} to waiting`;
+            await tournamentService.runCommand(label, () => tournamentService.setMatchTable(match.id, undefined));
+            setBracketsData(await tournamentService.getTournamentData());
         } catch (error) {
             console.error('Error returning match to waiting:', error);
         }
     };
 
-    const handleRemoveTable = () => {
+    const handleRenameTable = (tableId: number, name: string) => {
+        renameTable(tableId, name);
+    };
+
+    const handleRemoveTable = async () => {
         if (tableCount <= 1) return;
 
         if (bracketsData) {
@@ -361,31 +481,107 @@ const App = () => {
 
                 if (!confirmed) return;
             }
+        }
 
-            const updatedMatches = bracketsData.match.map((m: any) => m.table === tableToRemove ? { ...m, table: undefined } : m);
-            setBracketsData({ ...bracketsData, match: updatedMatches });
+        // The service returns the matches on the removed table to waiting
+        await removeTable();
+    };
+
+    // Tournament library: every tournament keeps its own bracket, players, tables and settings
+    const handleNewTournament = async () => {
+        try {
+            await swapTournament(addTournament);
+            setActiveTab('bracket');
+        } catch (error) {
+            console.error('Error adding tournament:', error);
         }
+    };
 
-        removeTable();
+    const handleSwitchTournament = async (tournamentId: number) => {
+        if (tournamentId === currentTournamentId) return;
+        try {
+            await swapTournament(() => switchTournament(tournamentId));
+            setActiveTab('bracket');
+        } catch (error) {
+            console.error('Error switching tournament:', error);
+        }
     };
 
-    const handleTableScore = async (match: Match, score1: number, score2: number) => {
+    const handleDeleteTournament = async (tournamentId: number) => {
+        const tournament = tournaments.find(t => t.id === tournamentId);
+        const confirmed = confirm(`Delete "${tournament?.name || 'Untitled Tournament'}"? Its bracket and all scores will be removed.`);
+        if (!confirmed) return;
+
         try {
-            await handleBracketMatchUpdate(match.id, score1, score2);
+            await swapTournament(() => deleteTournament(tournamentId));
+            setActiveTab('bracket');
         } catch (error) {
-            console.error('Error updating table score:', error);
+            console.error('Error deleting tournament:', error);
         }
     };
 
-    // Get current matches for table assignment
-    const getCurrentMatches = (): Match[] => bracketsData?.match || [];
+    // Save the running tournament to a file chosen in the main-process dialog
+    const handleSaveTournament = async () => {
+        const api = (window as any).api;
+        if (!bracketsData || !api || !api.saveTournamentFile) return;
 
-    // Get table match
-    const getActiveTableMatch = (tableIndex: number): Match | null => {
-        if (bracketsData?.match) {
-            return getTableMatch(bracketsData.match, tableAssignments, tableIndex);
+        try {
+            const file = createTournamentFile(
+                getSettings(),
+                players,
+                tables,
+                bracketsData,
+                auditEvents
+            );
+            await api.saveTournamentFile(serializeTournamentFile(file), getSuggestedFileName(tournamentName));
+        } catch (error) {
+            console.error('Error saving tournament file:', error);
+            alert('Failed to save tournament file.');
+        }
+    };
+
+    // Open a tournament file and rehydrate service, tournament and table state from it
+    const handleOpenTournament = async () => {
+        const api = (window as any).api;
+        if (!api || !api.openTournamentFile) return;
+
+        try {
+            const result = await api.openTournamentFile();
+            if (!result || result.canceled) return;
+
+            // Opened files are added to the library next to the running tournaments
+            const file = parseTournamentFile(result.contents);
+            await swapTournament(async () => {
+                await loadTournament(file.bracketsData, file.settings, file.auditLog, file.tables);
+                return { session: { settings: file.settings, players: file.players } };
+            });
+            setActiveTab('bracket');
+        } catch (error) {
+            console.error('Error opening tournament file:', error);
+            alert(`Failed to open tournament file.${error instanceof Error ? `\n\n${error.message}` : ''}`);
+        }
+    };
+
+    // Route File menu commands from the main process to the latest handlers
+    const menuHandlersRef = useRef({ save: handleSaveTournament, open: handleOpenTournament });
+    menuHandlersRef.current = { save: handleSaveTournament, open: handleOpenTournament };
+
+    useEffect(() => {
+        const api = (window as any).api;
+        if (isBracketsPopout || isTablesPopout || !api || !api.onMenuCommand) return;
+        return api.onMenuCommand((command: string) => {
+            if (command === 'save-as') menuHandlersRef.current.save();
+            if (command === 'open') menuHandlersRef.current.open();
+        });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const handleTableScore = async (match: Match, score1: number, score2: number) => {
+        try {
+            await handleBracketMatchUpdate(match.id, score1, score2);
+        } catch (error) {
+            console.error('Error updating table score:', error);
         }
-        return null;
     };
 
     if (isBracketsPopout) {
@@ -428,7 +624,15 @@ const App = () => {
                 tournamentStarted={tournamentStarted}
                 playersCount={players.length}
                 bracketsData={bracketsData}
-                tableAssignments={tableAssignments}
+                tables={tables}
+                projectedFinish={projection?.finish ?? null}
+                tournaments={tournaments}
+                currentTournamentId={currentTournamentId}
+                onSwitchTournament={handleSwitchTournament}
+                onNewTournament={handleNewTournament}
+                onDeleteTournament={handleDeleteTournament}
+                onSaveTournament={handleSaveTournament}
+                onOpenTournament={handleOpenTournament}
             />
 
             {!tournamentStarted ? (
@@ -448,6 +652,15 @@ const App = () => {
                             initialTrueDouble={trueDouble}
                             initialRaceWinners={raceWinners}
                             initialRaceLosers={raceLosers}
+                            initialGroupCount={groupCount}
+                            initialPlayoffType={playoffType}
+                            initialAdvancePerGroup={advancePerGroup}
+                            initialSwissRounds={swissRounds}
+                            initialSeedingMode={seedingMode}
+                            initialSeparateBy={separateBy}
+                            initialHandicap={handicap}
+                            initialRaceChart={raceChart}
+                            initialRaceSchedule={raceSchedule}
                             onStart={(config) => {
                                 startTournament({
                                     players: config.players,
@@ -457,7 +670,16 @@ const App = () => {
                                     gameType: config.gameType || undefined,
                                     trueDouble: config.trueDouble !== undefined ? Boolean(config.trueDouble) : undefined,
                                     raceWinners: config.raceWinners !== undefined ? config.raceWinners : undefined,
-                                    raceLosers: config.raceLosers !== undefined ? config.raceLosers : undefined
+                                    raceLosers: config.raceLosers !== undefined ? config.raceLosers : undefined,
+                                    groupCount: config.groupCount !== undefined ? config.groupCount : undefined,
+                                    playoffType: config.playoffType !== undefined ? config.playoffType : undefined,
+                                    advancePerGroup: config.advancePerGroup !== undefined ? config.advancePerGroup : undefined,
+                                    swissRounds: config.swissRounds !== undefined ? config.swissRounds : undefined,
+                                    seedingMode: config.seedingMode !== undefined ? config.seedingMode : undefined,
+                                    separateBy: config.separateBy !== undefined ? config.separateBy : undefined,
+                                    handicap: config.handicap !== undefined ? config.handicap : undefined,
+                                    raceChart: config.raceChart !== undefined ? config.raceChart : undefined,
+                                    raceSchedule: config.raceSchedule !== undefined ? config.raceSchedule : []
                                 } as StartConfig);
                             }}
                             onPlayersChange={(p: Player[]) => setPlayers(p)}
@@ -489,16 +711,33 @@ const App = () => {
                             <span className="tab-icon">👥</span>
                             Players
                         </button>
+                        <button
+                            className={`tournament-tab ${activeTab === 'history' ? 'active' : ''}`}
+                            onClick={() => setActiveTab('history')}
+                        >
+                            <span className="tab-icon">🕘</span>
+                            History ({history.done.length})
+                        </button>
+                        <button
+                            className={`tournament-tab ${activeTab === 'audit' ? 'active' : ''}`}
+                            onClick={() => setActiveTab('audit')}
+                        >
+                            <span className="tab-icon">📋</span>
+                            Audit Log
+                        </button>
                     </div>
 
                     <div className="tab-content">
                         {activeTab === 'bracket' && (
                             <div className="bracket-tab">
                                 {bracketsData ? (
-                                    <BracketsViewer
-                                        data={bracketsData}
-                                        onMatchClick={handleBracketMatchClick}
-                                    />
+                                    <>
+                                        <BracketsViewer
+                                            data={bracketsData}
+                                            onMatchClick={handleBracketMatchClick}
+                                        />
+                                        <StandingsTable standings={standings} swiss={swissStandings} placings={placings} />
+                                    </>
                                 ) : (
                                     <div>No tournament data available</div>
                                 )}
@@ -509,24 +748,32 @@ const App = () => {
                             <div className="tables-tab">
                                 {bracketsData ? (
                                     <TableAssignmentNew
-                                        tables={tableCount}
+                                        tables={tables}
                                         matches={bracketsData.match.filter(m => m.table !== null && m.table !== undefined)}
-                                        waitingMatches={bracketsData.match.filter(m => {
-                                            // Filter out BYE matches and only include ready matches that aren't assigned to tables
-                                            const isNotAssignedToTable = (m.table === null || m.table === undefined);
-                                            const isReadyMatch = m.status === 2; // Ready status
-                                            const hasValidOpponents = m.opponent1 && m.opponent2 &&
-                                                m.opponent1.id !== null && m.opponent2.id !== null;
-                                            return isNotAssignedToTable && isReadyMatch && hasValidOpponents;
-                                        })}
+                                        waitingMatches={getWaitingMatches(bracketsData.match)}
                                         allMatches={bracketsData.match}
+                                        stages={bracketsData.stage}
                                         onMoveMatch={handleMoveMatch}
                                         onReturnToWaiting={handleReturnToWaiting}
                                         onSubmitScore={handleTableScore}
                                         onOpenScoreModal={bracketScoreModal.openModal}
-                                        onAddTable={() => addTable()}
+                                        onAddTable={() => { addTable(); }}
                                         onRemoveTable={handleRemoveTable}
                                         participants={bracketsData.participant}
+                                        onRenameTable={handleRenameTable}
+                                        matchGames={bracketsData.match_game}
+                                        onRecordRack={async (match: Match, rack: RackEntry) => { await recordRack(match.id, rack); }}
+                                        onAdjustScore={async (match: Match, side: 1 | 2, delta: number) => { await adjustLiveScore(match.id, side, delta); }}
+                                        callTimer={callTimer}
+                                        onCallTimerChange={setCallTimer}
+                                        onStartMatch={async (match: Match) => { await startMatch(match.id); }}
+                                        onForfeit={async (match: Match, side: 1 | 2, reason: ForfeitReason) => { await forfeitMatch(match.id, side, reason); }}
+                                        onAutoAssignChange={setGlobalAutoAssign}
+                                        onSchedulerChange={setScheduler}
+                                        onMinRestChange={setMinRest}
+                                        onTableSettingsChange={setTableSettings}
+                                        onRulesChange={setRules}
+                                        projection={projection}
                                     />
                                 ) : (
                                     <div>No tournament data available</div>
@@ -542,6 +789,32 @@ const App = () => {
                                     setPlayers={setPlayers}
                                     tournamentService={tournamentService}
                                     setBracketsData={setBracketsData}
+                                    tables={tables}
+                                    projection={projection}
+                                />
+                            </div>
+                        )}
+
+                        {activeTab === 'history' && (
+                            <div className="history-tab">
+                                <HistoryPanel
+                                    done={history.done}
+                                    undone={history.undone}
+                                    onUndo={() => { undo().catch(err => console.error('Failed to undo', err)); }}
+                                    onRedo={() => { redo().catch(err => console.error('Failed to redo', err)); }}
+                                />
+                            </div>
+                        )}
+
+                        {activeTab === 'audit' && (
+                            <div className="audit-tab">
+                                <AuditLogPanel
+                                    events={auditEvents}
+                                    participants={bracketsData?.participant || []}
+                                    matches={bracketsData?.match || []}
+                                    operator={auditOperator}
+                                    onOperatorChange={setAuditOperator}
+                                    fileName={getSuggestedFileName(tournamentName).replace(/\.[^.]+$/, '-audit.csv')}
                                 />
                             </div>
                         )}
@@ -555,15 +828,6 @@ const App = () => {
                     const allMatches = bracketsData.match || [];
                     const stages = bracketsData.stage || [];
                     const stage = stages.find(s => s.id === cmatch.stage_id);
-                    // Determine if this is the grand final reset by looking at GF matches for this stage and seeing if this match has the highest round_id
-                    let isGFReset = false;
-                    if (stage && stage.settings && (stage.settings.grandFinal === 'double' || trueDouble)) {
-                        const gfMatches = allMatches.filter(m => m.stage_id === cmatch.stage_id && (m.group_id || 0) >= 3);
-                        if (gfMatches.length > 0) {
-                            const maxRound = Math.max(...gfMatches.map(m => (m.round_id || 0) || 0));
-                            isGFReset = (cmatch.round_id || 0) === maxRound && maxRound > 1;
-                        }
-                    }
 
                     return (
                         <BracketScoreModal
@@ -574,7 +838,13 @@ const App = () => {
                             raceWinners={raceWinners}
                             raceLosers={raceLosers}
                             trueDouble={trueDouble}
-                            isGFReset={isGFReset}
+                            allMatches={allMatches}
+                            {...(stage ? { stageType: stage.type } : {})}
+                            {...(stage?.settings.raceSchedule ? { raceSchedule: stage.settings.raceSchedule } : {})}
+                            {...(stage?.settings.gameType ? { gameType: stage.settings.gameType } : {})}
+                            onForfeit={async (matchId: number, side: 1 | 2, reason: ForfeitReason) => { await forfeitMatch(matchId, side, reason); }}
+                            getResetImpact={getResetImpact}
+                            onReset={async (matchId: number) => { await resetMatch(matchId); }}
                         />
                     );
                 })()
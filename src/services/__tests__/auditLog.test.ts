@@ -0,0 +1,107 @@
+import TournamentService from '../tournamentService';
+import { AuditLog, AuditPersistence, auditEventsToCsv } from '../auditLog';
+import { AuditEvent } from '../../types';
+import { firstReadyMatch, makePlayers } from './fixtures';
+
+const players = makePlayers(['Alice', 'Bob', 'Carol', 'Dave']);
+
+describe('AuditLog', () => {
+    it('records scores, table moves and player edits with before/after values', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(players, 'double_elimination', 'Audit');
+        svc.getAuditLog().setOperator('Desk 1');
+        const match = await firstReadyMatch(svc);
+        const playerId = match.opponent1!.id!;
+
+        await svc.setMatchTable(match.id, 2);
+        await svc.updateMatch(match.id, 7, 3, 'win', 'loss');
+        await svc.updateParticipant(playerId, { phone: '555-0199' } as any);
+
+        // The finished match leaves its table as part of the score
+        const events = svc.getAuditLog().getEvents();
+        expect(events.map(e => e.type)).toEqual(['table_assignment', 'table_assignment', 'match_score', 'participant_edit']);
+        expect(events[0]).toMatchObject({ matchId: match.id, before: null, after: 2, operator: 'Desk 1' });
+        expect(events[1]).toMatchObject({ matchId: match.id, before: 2, after: null });
+        expect(events[2]?.before.opponent1.score).toBeNull();
+        expect(events[2]?.after.opponent1).toEqual({ score: 7, result: 'win' });
+        expect(events[3]).toMatchObject({ participantIds: [playerId], before: { phone: null }, after: { phone: '555-0199' } });
+
+        expect(svc.getAuditLog().getEvents({ participantId: playerId })).toHaveLength(4);
+        expect(svc.getAuditLog().getEvents({ matchId: match.id })).toHaveLength(3);
+    });
+
+    it('drops the events of changes that are rolled back', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(players, 'double_elimination', 'Rollback');
+        const match = await firstReadyMatch(svc);
+        const before = svc.getAuditLog().getEvents().length;
+
+        // An outer command that fails after scoring a match and moving it keeps neither
+        await expect(svc.runCommand('Outer', async () => {
+            await svc.setMatchTable(match.id, 1);
+            await svc.updateMatch(match.id, 7, 3, 'win', 'loss');
+            throw new Error('Outer command failed');
+        })).rejects.toThrow('Outer command failed');
+
+        expect((await svc.getTournamentData()).match.find(m => m.id === match.id)?.status).toBe(2);
+        expect(svc.getAuditLog().getEvents()).toHaveLength(before);
+
+        // Once the outer command is kept, so are its events
+        await svc.runCommand('Outer', () => svc.setMatchTable(match.id, 1));
+        expect(svc.getAuditLog().getEvents().slice(before).map(e => e.type)).toEqual(['table_assignment']);
+    });
+
+    it('keeps the original event when a score is undone', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(players, 'double_elimination', 'Undo');
+        const match = await firstReadyMatch(svc);
+
+        await svc.updateMatch(match.id, 7, 5, 'win', 'loss');
+        await svc.undo();
+
+        const events = svc.getAuditLog().getEvents({ matchId: match.id });
+        expect(events.map(e => e.type)).toEqual(['match_score', 'history']);
+        expect(events[1]?.description).toContain('Undid');
+        expect(Object.isFrozen(events[0])).toBe(true);
+    });
+
+    it('journals events and reloads them in a later session', async () => {
+        const journal: AuditEvent[] = [];
+        const persistence: AuditPersistence = {
+            load: async () => [...journal],
+            append: async events => { journal.push(...events); }
+        };
+
+        const log = new AuditLog(persistence);
+        log.record({ type: 'table_rename', tournamentId: 1, participantIds: [], description: 'Renamed', before: 'Table 1', after: 'TV' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(journal).toHaveLength(1);
+
+        const reloaded = new AuditLog(persistence);
+        await reloaded.load();
+        expect(reloaded.getEvents()[0]?.after).toBe('TV');
+
+        reloaded.record({ type: 'table_rename', tournamentId: 2, participantIds: [], description: 'Renamed', before: 'TV', after: 'Stream' });
+        expect(reloaded.getEvents().map(e => e.id)).toEqual([1, 2]);
+        expect(reloaded.getEvents({ tournamentId: 2 })).toHaveLength(1);
+    });
+
+    it('exports CSV with player names and escaped values', () => {
+        const log = new AuditLog();
+        log.record({
+            type: 'match_score',
+            tournamentId: 1,
+            matchId: 3,
+            participantIds: [0, 1],
+            description: 'Match #3 scored 7-4, "hill-hill"',
+            before: null,
+            after: { opponent1: { score: 7 } }
+        });
+
+        const csv = auditEventsToCsv(log.getEvents(), [{ id: 0, name: 'Alice' }, { id: 1, name: 'Bob' }] as any);
+        const [header, row] = csv.split('\r\n');
+        expect(header).toBe('Time,Type,Operator,Match,Players,Description,Before,After');
+        expect(row).toContain(',match_score,,3,Alice / Bob,"Match #3 scored 7-4, ""hill-hill""",,');
+        expect(row).toContain('"{""opponent1"":{""score"":7}}"');
+    });
+});
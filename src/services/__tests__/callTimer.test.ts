@@ -0,0 +1,49 @@
+import TournamentService from '../tournamentService';
+import { getCallTimerState } from '../../utils';
+import { makePlayers } from './fixtures';
+
+const players = makePlayers(['A', 'B', 'C', 'D']);
+const MINUTE = 60000;
+
+describe('no-show call timer', () => {
+    it('escalates towards the deadline and asks for re-calls', () => {
+        const settings = { enabled: true, minutes: 10, recallMinutes: 3 };
+        expect(getCallTimerState(0, 1 * MINUTE, settings)).toEqual({ remainingMs: 9 * MINUTE, calls: 1, level: 'waiting' });
+        expect(getCallTimerState(0, 4 * MINUTE, settings)).toMatchObject({ calls: 2, level: 'waiting' });
+        expect(getCallTimerState(0, 6 * MINUTE, settings)).toMatchObject({ calls: 3, level: 'warning' });
+        expect(getCallTimerState(0, 9 * MINUTE, settings)).toMatchObject({ calls: 4, level: 'urgent' });
+        // No further calls once the time is up
+        expect(getCallTimerState(0, 15 * MINUTE, settings)).toMatchObject({ remainingMs: -5 * MINUTE, calls: 4, level: 'expired' });
+        expect(getCallTimerState(0, 9 * MINUTE, { ...settings, recallMinutes: 0 }).calls).toBe(1);
+    });
+
+    it('starts when a match lands on a table and stops when it is played', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(players, 'single_elimination', 'Timer', { raceWinners: 3 });
+        const [first, second] = data.match.filter(m => m.opponent1?.id != null && m.opponent2?.id != null);
+
+        const before = Date.now();
+        await svc.setMatchTable(first!.id, 2);
+        const calledAt = (await svc.getTournamentData()).match.find(m => m.id === first!.id)!.calledAt!;
+        expect(calledAt).toBeGreaterThanOrEqual(before);
+
+        // Moving to another table keeps the original call; returning to waiting clears it
+        await svc.setMatchTable(first!.id, 3);
+        expect((await svc.getTournamentData()).match.find(m => m.id === first!.id)?.calledAt).toBe(calledAt);
+        await svc.setMatchTable(first!.id, undefined);
+        expect((await svc.getTournamentData()).match.find(m => m.id === first!.id)?.calledAt).toBeUndefined();
+
+        await svc.setMatchTable(first!.id, 2);
+        await svc.startMatch(first!.id);
+        expect((await svc.getTournamentData()).match.find(m => m.id === first!.id)?.status).toBe(3);
+        await expect(svc.startMatch(first!.id)).rejects.toThrow('Only a ready match');
+
+        // A no-show forfeit frees the table
+        await svc.setMatchTable(second!.id, 4);
+        await svc.forfeitMatch(second!.id, 1, 'no_show');
+        const forfeited = (await svc.getTournamentData()).match.find(m => m.id === second!.id)!;
+        expect(forfeited).toMatchObject({ status: 4, opponent1: { forfeitReason: 'no_show' } });
+        expect(forfeited.table).toBeUndefined();
+        expect(forfeited.calledAt).toBeUndefined();
+    });
+});
@@ -0,0 +1,56 @@
+import TournamentService from '../tournamentService';
+import { firstReadyMatch, makePlayers } from './fixtures';
+
+const players = makePlayers(['Alice', 'Bob', 'Carol', 'Dave']);
+
+// Storage hands out live records, so compare plain copies
+const snapshot = async (svc: TournamentService) => JSON.parse(JSON.stringify(await svc.getTournamentData()));
+
+describe('CommandHistory', () => {
+    it('undoes and redoes a score entry by restoring storage snapshots', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(players, 'double_elimination', 'Undo Test');
+        const before = await snapshot(svc);
+        const match = await firstReadyMatch(svc);
+
+        await svc.updateMatch(match.id, 7, 4, 'win', 'loss');
+        const after = await snapshot(svc);
+        expect(svc.getHistory().canUndo()).toBe(true);
+
+        await svc.getHistory().undo();
+        expect(await snapshot(svc)).toEqual(before);
+
+        await svc.getHistory().redo();
+        expect(await snapshot(svc)).toEqual(after);
+    });
+
+    it('folds nested mutations into a single step', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(players, 'double_elimination', 'Nested');
+        const match = await firstReadyMatch(svc);
+
+        await svc.runCommand('Score and free table', async () => {
+            await svc.setMatchTable(match.id, 2);
+            await svc.updateMatch(match.id, 7, 1, 'win', 'loss');
+            await svc.setMatchTable(match.id, undefined);
+        });
+
+        const { done } = svc.getHistory().getEntries();
+        expect(done.map(e => e.label)).toEqual(['Score and free table']);
+        expect(done[0]?.timestamp).toEqual(expect.any(Number));
+    });
+
+    it('undoes table moves and clears redo after a new action', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(players, 'double_elimination', 'Tables');
+        const match = await firstReadyMatch(svc);
+
+        await svc.setMatchTable(match.id, 1);
+        await svc.getHistory().undo();
+        expect((await svc.getTournamentData()).match.find(m => m.id === match.id)?.table).toBeUndefined();
+        expect(svc.getHistory().canRedo()).toBe(true);
+
+        await svc.setMatchTable(match.id, 2);
+        expect(svc.getHistory().canRedo()).toBe(false);
+    });
+});
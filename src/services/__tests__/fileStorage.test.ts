@@ -0,0 +1,108 @@
+import { FileStorage, StoragePersistence } from '../fileStorage';
+import { StorageSnapshot } from '../memoryStorage';
+import TournamentService from '../tournamentService';
+import { makePlayers } from './fixtures';
+
+const createPersistence = () => {
+    let saved: StorageSnapshot | null = null;
+    let saves = 0;
+    const persistence: StoragePersistence = {
+        load: async () => saved,
+        save: async (snapshot: StorageSnapshot) => {
+            saved = snapshot;
+            saves++;
+        }
+    };
+    return { persistence, getSaved: () => saved, getSaves: () => saves };
+};
+
+const players = makePlayers(['Alice', 'Bob', 'Carol', 'Dave']);
+
+describe('FileStorage', () => {
+    it('writes mutations through to persistence', async () => {
+        const { persistence, getSaved } = createPersistence();
+        const storage = new FileStorage(persistence);
+
+        await storage.insert('participant', { name: 'Alice' });
+        await storage.flush();
+
+        expect(getSaved()).toEqual({ participant: [{ id: 1, name: 'Alice' }] });
+    });
+
+    it('coalesces writes made while a save is in flight', async () => {
+        const { persistence, getSaves } = createPersistence();
+        const storage = new FileStorage(persistence);
+
+        await Promise.all(Array.from({ length: 20 }, (_, i) => storage.insert('participant', { name: `P${i}` })));
+        await storage.flush();
+
+        expect(getSaves()).toBeLessThan(20);
+        expect((await persistence.load())?.participant).toHaveLength(20);
+    });
+
+    it('lets TournamentService resume the last tournament', async () => {
+        const { persistence } = createPersistence();
+        const first = new TournamentService(new FileStorage(persistence));
+        const created = await first.createTournament(players, 'double_elimination', 'Friday 9-Ball');
+        const ready = created.match.find(m => m.opponent1?.id != null && m.opponent2?.id != null)!;
+        await first.updateMatch(ready.id, 7, 3, 'win', 'loss');
+
+        const second = new TournamentService(new FileStorage(persistence));
+        const resumed = await second.resumeTournament();
+
+        expect(resumed?.stage[0]?.name).toBe('Friday 9-Ball');
+        expect(resumed?.match.find(m => m.id === ready.id)?.opponent1?.score).toBe(7);
+    });
+
+    it('writes a transaction once, on the outermost commit', async () => {
+        const { persistence, getSaved, getSaves } = createPersistence();
+        const storage = new FileStorage(persistence);
+
+        await storage.transaction(async () => {
+            await storage.insert('participant', { name: 'Alice' });
+            await storage.transaction(() => storage.insert('participant', { name: 'Bob' }));
+            expect(getSaves()).toBe(0);
+        });
+        await storage.flush();
+        expect(getSaved()?.participant).toHaveLength(2);
+
+        await expect(storage.transaction(async () => {
+            await storage.insert('participant', { name: 'Carol' });
+            throw new Error('failed');
+        })).rejects.toThrow('failed');
+        await storage.flush();
+        expect(getSaves()).toBe(1);
+        expect(await storage.select('participant')).toHaveLength(2);
+    });
+
+    it('leaves the bracket exactly as it was when a score entry fails halfway', async () => {
+        const { persistence, getSaved } = createPersistence();
+        const storage = new FileStorage(persistence);
+        const service = new TournamentService(storage);
+        const created = await service.createTournament(players, 'double_elimination', 'Rollback');
+        const ready = created.match.find(m => m.opponent1?.id != null && m.opponent2?.id != null)!;
+        const before = JSON.parse(JSON.stringify(await service.getTournamentData()));
+        const saved = JSON.stringify(getSaved());
+
+        // Let the scored match update, then fail while the winner is propagated
+        const update = storage.update.bind(storage);
+        let matchUpdates = 0;
+        jest.spyOn(storage, 'update').mockImplementation(async (table: string, idOrFilter: any, value: any) => {
+            if (table === 'match' && ++matchUpdates > 1) throw new Error('disk full');
+            return update(table, idOrFilter, value);
+        });
+
+        await expect(service.updateMatch(ready.id, 7, 3, 'win', 'loss')).rejects.toThrow('disk full');
+        await storage.flush();
+
+        expect(JSON.parse(JSON.stringify(await service.getTournamentData()))).toEqual(before);
+        expect(JSON.stringify(getSaved())).toBe(saved);
+        expect(service.getHistory().canUndo()).toBe(false);
+    });
+
+    it('returns null when there is nothing to resume', async () => {
+        const { persistence } = createPersistence();
+        const service = new TournamentService(new FileStorage(persistence));
+        expect(await service.resumeTournament()).toBeNull();
+    });
+});
@@ -0,0 +1,37 @@
+// Players and play-through helpers shared by the service tests
+
+import TournamentService from '../tournamentService';
+import { BracketsData, Match, Player } from '../../types';
+
+/**
+ * Players with the given names, or `count` players named P1, P2, ...
+ */
+export const makePlayers = (names: string[] | number): Player[] =>
+    (typeof names === 'number' ? Array.from({ length: names }, (_, i) => `P${i + 1}`) : names).map(name => ({ name, phone: '' }));
+
+/**
+ * Whether a match can be scored: both players are known and it has not started
+ */
+export const isReady = (match: Match): boolean =>
+    match.status === 2 && match.opponent1?.id != null && match.opponent2?.id != null;
+
+export const firstReadyMatch = async (svc: TournamentService): Promise<Match> => {
+    const data = await svc.getTournamentData();
+    return data.match.find(isReady)!;
+};
+
+/**
+ * Score ready matches, player one winning, until none is left but the ones `keep`
+ * picks. Returns the tournament data at that point.
+ */
+export const playMatches = async (
+    svc: TournamentService,
+    { keep = () => false, score = [3, 1] }: { keep?: (match: Match, data: BracketsData) => boolean; score?: [number, number] } = {}
+): Promise<BracketsData> => {
+    for (;;) {
+        const data = await svc.getTournamentData();
+        const next = data.match.find(m => isReady(m) && !keep(m, data));
+        if (!next) return data;
+        await svc.updateMatch(next.id, score[0], score[1], 'win', 'loss');
+    }
+};
@@ -0,0 +1,55 @@
+import TournamentService from '../tournamentService';
+import { makePlayers, playMatches } from './fixtures';
+
+const players = makePlayers(['A', 'B', 'C', 'D']);
+
+describe('forfeits and withdrawals', () => {
+    it('forfeits a single match with a reason and advances the opponent', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(players, 'single_elimination', 'Forfeits', { raceWinners: 3 });
+        const [first] = data.match.filter(m => m.opponent1?.id != null && m.opponent2?.id != null);
+
+        await svc.forfeitMatch(first!.id, 2, 'no_show');
+        const after = await svc.getTournamentData();
+        expect(after.match.find(m => m.id === first!.id)).toMatchObject({
+            status: 4,
+            opponent1: { result: 'win' },
+            opponent2: { forfeit: true, forfeitReason: 'no_show' }
+        });
+        const final = after.match.find(m => m.round_id !== first!.round_id)!;
+        expect([final.opponent1?.id, final.opponent2?.id]).toContain(first!.opponent1?.id);
+
+        await expect(svc.forfeitMatch(first!.id, 1)).rejects.toThrow('ready or running');
+        await svc.undo();
+        expect((await svc.getTournamentData()).match.find(m => m.id === first!.id)?.status).toBe(2);
+    });
+
+    it('forfeits every later match of a withdrawn player', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(players, 'double_elimination', 'Withdrawals', { raceWinners: 3 });
+        const [first, second] = data.match.filter(m => m.opponent1?.id != null && m.opponent2?.id != null);
+        const leaving = first!.opponent1!.id!;
+
+        await svc.withdrawParticipant(leaving, 'disqualified');
+        let after = await svc.getTournamentData();
+        expect(after.participant.find(p => p.id === leaving)?.withdrawn).toBe('disqualified');
+        expect(after.match.find(m => m.id === first!.id)?.opponent1).toMatchObject({ forfeit: true, forfeitReason: 'disqualified' });
+
+        // The player drops into the losers bracket and forfeits there as soon as the match is known
+        await svc.updateMatch(second!.id, 3, 1, 'win', 'loss');
+        after = await svc.getTournamentData();
+        const played = after.match.filter(m => m.opponent1?.id === leaving || m.opponent2?.id === leaving);
+        expect(played).toHaveLength(2);
+        expect(played.every(m => typeof m.status === 'number' && m.status >= 4)).toBe(true);
+        expect(played.every(m => (m.opponent1?.id === leaving ? m.opponent1 : m.opponent2)?.forfeitReason === 'disqualified')).toBe(true);
+
+        await expect(svc.withdrawParticipant(leaving)).rejects.toThrow('already left');
+
+        // The final standings keep the reason
+        expect(await svc.getPlacings()).toEqual([]);
+        await playMatches(svc, { score: [3, 0] });
+        const placings = await svc.getPlacings();
+        expect(placings).toHaveLength(4);
+        expect(placings.find(p => p.participantId === leaving)).toMatchObject({ rank: 4, withdrawn: 'disqualified' });
+    });
+});
@@ -0,0 +1,51 @@
+import TournamentService from '../tournamentService';
+import { getGameTypeRules, getGameTypes, getRaceWinner, registerGameType } from '../gameTypes';
+import { makePlayers } from './fixtures';
+
+const players = makePlayers(['A', 'B', 'C', 'D']);
+
+describe('game types', () => {
+    it('registers the usual games and falls back to Nine Ball for unknown names', () => {
+        expect(getGameTypes().map(g => g.name)).toEqual(expect.arrayContaining(['Nine Ball', 'Ten Ball', 'One Pocket', 'Straight Pool']));
+        expect(getGameTypeRules('straight pool')).toMatchObject({ unit: 'points', defaultRaceWinners: 100 });
+        expect(getGameTypeRules('One Pocket')).toMatchObject({ unit: 'points', unitLabel: 'balls', defaultRaceWinners: 8 });
+        expect(getGameTypeRules('Ten Ball')).toMatchObject({ breakFormat: 'alternate', callShot: true });
+        expect(getGameTypeRules('Seven Ball (house rules)').name).toBe('Nine Ball');
+
+        registerGameType({ ...getGameTypeRules('Nine Ball'), name: 'Seven Ball', defaultRaceWinners: 9 });
+        expect(getGameTypeRules('Seven Ball').defaultRaceWinners).toBe(9);
+    });
+
+    it('validates scores per game type', () => {
+        const nineBall = getGameTypeRules('Nine Ball');
+        expect(nineBall.validateResult(7, 7, 3, 7)).toBeNull();
+        expect(nineBall.validateResult(7, 7, 7, 7)).toMatch('One player must reach 7');
+        expect(nineBall.validateScore(-1, 7)).toMatch('negative');
+
+        // Straight pool is played to points and fouls can leave a player below zero
+        const straightPool = getGameTypeRules('Straight Pool');
+        expect(straightPool.validateResult(100, 100, -3, 100)).toBeNull();
+        expect(straightPool.validateScore(101, 100)).toMatch('target of 100 points');
+
+        // With handicapped races the winner can have fewer racks than the loser
+        expect(getRaceWinner(5, 5, 7, 9)).toBe(1);
+        expect(getRaceWinner(4, 5, 7, 9)).toBeNull();
+        expect(getRaceWinner(3, 0, 2, 0)).toBe(1);
+    });
+
+    it('applies the rules of the stage game type when scoring a match', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(players, 'single_elimination', 'Straight Pool Open', { gameType: 'Straight Pool', raceWinners: 100 });
+        const [first, second] = data.match.filter(m => m.opponent1?.id != null && m.opponent2?.id != null);
+
+        await expect(svc.updateMatch(first!.id, 101, 40, 'win', 'loss')).rejects.toThrow('target of 100 points');
+        await expect(svc.updateMatch(first!.id, 90, 40, 'win', 'loss')).rejects.toThrow('One player must reach 100 points');
+        // The result has to agree with the score
+        await expect(svc.updateMatch(first!.id, 100, 40, 'loss', 'win')).rejects.toThrow('winner does not match');
+
+        await svc.updateMatch(first!.id, 100, -2, 'win', 'loss');
+        await svc.updateMatch(second!.id, 37, 100, 'loss', 'win');
+        const final = (await svc.getTournamentData()).match.find(m => m.id !== first!.id && m.id !== second!.id)!;
+        expect([final.opponent1?.id, final.opponent2?.id]).toEqual([first!.opponent1?.id, second!.opponent2?.id]);
+    });
+});
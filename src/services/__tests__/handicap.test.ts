@@ -0,0 +1,51 @@
+import TournamentService from '../tournamentService';
+import { DEFAULT_RACE_CHART, getHandicapRaces } from '../handicap';
+
+const rated = (ratings: [string, number][]) => ratings.map(([name, effectiveRating]) => ({ name, phone: '', effectiveRating }));
+
+describe('handicap', () => {
+    it('looks up races by rating gap in player order', () => {
+        expect(getHandicapRaces(600, 590)).toEqual([7, 7]);
+        expect(getHandicapRaces(700, 580)).toEqual([8, 5]);
+        // The lower-rated player listed first gets the lower race first
+        expect(getHandicapRaces(450, 700)).toEqual([4, 9]);
+        expect(getHandicapRaces(600, undefined)).toBeNull();
+        // A chart that does not start at zero leaves small gaps unhandicapped
+        expect(getHandicapRaces(600, 590, [{ minGap: 50, higher: 6, lower: 4 }])).toBeNull();
+    });
+
+    it('stores races on matches, validates scores against them and follows advancing players', async () => {
+        const svc = new TournamentService();
+        const players = rated([['Strong', 700], ['Even1', 600], ['Even2', 610], ['Weak', 560]]);
+        let data = await svc.createTournament(players, 'single_elimination', 'Handicap', {
+            seeded: true,
+            handicap: { chart: DEFAULT_RACE_CHART }
+        });
+
+        const idOf = (name: string) => data.participant.find(p => p.name === name)!.id;
+        const matchOf = (name: string) => data.match.find(m => m.opponent1?.id === idOf(name) || m.opponent2?.id === idOf(name))!;
+        const raceOf = (name: string) => {
+            const match = matchOf(name);
+            return match.opponent1?.id === idOf(name) ? match.opponent1?.race : match.opponent2?.race;
+        };
+        expect([raceOf('Strong'), raceOf('Weak'), raceOf('Even1'), raceOf('Even2')]).toEqual([8, 5, 7, 7]);
+
+        // The weaker player cannot score past their own race
+        const first = matchOf('Strong');
+        const strongFirst = first.opponent1?.id === idOf('Strong');
+        await expect(svc.updateMatch(first.id, strongFirst ? 7 : 6, strongFirst ? 6 : 7)).rejects.toThrow('race limit of 5');
+
+        await svc.updateMatch(first.id, strongFirst ? 4 : 5, strongFirst ? 5 : 4, strongFirst ? 'loss' : 'win', strongFirst ? 'win' : 'loss');
+        await svc.updateMatch(matchOf('Even1').id, 7, 3, 'win', 'loss');
+
+        // The final pairs the weak player with the winner of the other semi
+        data = await svc.getTournamentData();
+        const final = data.match.find(m => m.round_id !== first.round_id)!;
+        const finalists = [final.opponent1?.id, final.opponent2?.id];
+        expect(finalists).toContain(idOf('Weak'));
+        const other = finalists.find(id => id !== idOf('Weak'));
+        const otherRating = data.participant.find(p => p.id === other)!.effectiveRating!;
+        const weakRace = final.opponent1?.id === idOf('Weak') ? final.opponent1?.race : final.opponent2?.race;
+        expect(weakRace).toBe(getHandicapRaces(560, otherRating)![0]);
+    });
+});
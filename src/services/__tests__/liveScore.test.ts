@@ -0,0 +1,30 @@
+import TournamentService from '../tournamentService';
+import { makePlayers } from './fixtures';
+
+const players = makePlayers(['A', 'B', 'C', 'D']);
+
+describe('live scores', () => {
+    it('keeps a match running while the score is kept and finishes it on the result', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(players, 'single_elimination', 'Live', { raceWinners: 3 });
+        const match = data.match[0]!;
+        expect(match.status).toBe(2);
+
+        await svc.adjustLiveScore(match.id, 1, 1);
+        await svc.adjustLiveScore(match.id, 2, 1);
+        const running = await svc.adjustLiveScore(match.id, 1, 1);
+        expect(running).toMatchObject({ status: 3, opponent1: { score: 2 }, opponent2: { score: 1 } });
+
+        // A mistake can be taken back, but not below zero or past the race
+        expect(await svc.adjustLiveScore(match.id, 2, -1)).toMatchObject({ status: 3, opponent2: { score: 0 } });
+        await expect(svc.adjustLiveScore(match.id, 2, -1)).rejects.toThrow('negative');
+        await svc.adjustLiveScore(match.id, 1, 1);
+        await expect(svc.adjustLiveScore(match.id, 1, 1)).rejects.toThrow('race limit of 3');
+
+        // Reaching the race does not end the match by itself
+        expect((await svc.getTournamentData()).match.find(m => m.id === match.id)?.status).toBe(3);
+        await svc.updateMatch(match.id, 3, 0, 'win', 'loss');
+        expect((await svc.getTournamentData()).match.find(m => m.id === match.id)?.status).toBe(4);
+        await expect(svc.adjustLiveScore(match.id, 2, 1)).rejects.toThrow('ready or running');
+    });
+});
@@ -0,0 +1,118 @@
+import { BracketsManager } from 'brackets-manager';
+import TournamentService from '../tournamentService';
+import { MemoryStorage } from '../memoryStorage';
+import * as projection from '../projection';
+import { getExpectedDuration, getFeeders, getRaceAverages } from '../projection';
+import { BracketsData } from '../../types';
+import { makePlayers } from './fixtures';
+
+// The matches brackets-manager itself links to a match, on a copy of the tournament
+const previousMatchIds = async (data: BracketsData, matchId: number): Promise<number[]> => {
+    const storage = new MemoryStorage();
+    storage.importData({ ...data });
+    const previous = await new BracketsManager(storage as any).find.previousMatches(matchId);
+    return previous.map(m => m.id as number);
+};
+
+const MINUTE = 60 * 1000;
+
+describe('projections', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it.each([6, 8, 16])('projects every remaining match of a %i-player double elimination bracket', async size => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(size), 'double_elimination', `DE ${size}`, { raceWinners: 5, raceLosers: 5 });
+        await svc.updateTables({ tableCount: 2 });
+        const now = Date.UTC(2026, 0, 1, 12);
+        const { matches, finish } = await svc.getProjection(now);
+
+        const played = data.match.filter(m => m.opponent1 !== null && m.opponent2 !== null);
+        expect(played.every(m => matches.has(m.id))).toBe(true);
+        expect(finish).toBe(Math.max(...[...matches.values()].map(p => p.finish)));
+
+        // Never more matches at once than tables
+        const starts = [...matches.values()].filter(p => p.finish > p.start);
+        for (const { start } of starts) {
+            expect(starts.filter(p => p.start <= start && p.finish > start).length).toBeLessThanOrEqual(2);
+        }
+        // Nine Ball is paced at 6 minutes a rack before anything has been timed
+        const first = matches.get(played[0]!.id)!;
+        expect(first).toMatchObject({ start: now, finish: now + 30 * MINUTE });
+        expect(matches.get(data.match[data.match.length - 1]!.id)!.start).toBeGreaterThan(now);
+    });
+
+    it('learns match lengths from the timed matches, per race length', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(8), 'double_elimination', 'Timed', { raceWinners: 4, raceLosers: 3 });
+        const [m1, m2] = data.match;
+        let clock = Date.UTC(2026, 0, 1, 12);
+        jest.spyOn(Date, 'now').mockImplementation(() => clock);
+
+        await svc.setMatchTable(m1!.id, 1);
+        clock += 40 * MINUTE;
+        await svc.updateMatch(m1!.id, 4, 2, 'win', 'loss');
+        // A forfeit finishes the match without timing it
+        await svc.setMatchTable(m2!.id, 1);
+        clock += 5 * MINUTE;
+        await svc.forfeitMatch(m2!.id, 2, 'no_show');
+
+        let current = await svc.getTournamentData();
+        expect(current.match.find(m => m.id === m1!.id)).toMatchObject({ completedAt: clock - 5 * MINUTE, durationMs: 40 * MINUTE });
+        expect(current.match.find(m => m.id === m2!.id)?.durationMs).toBeUndefined();
+        const averages = getRaceAverages(current.match, current.stage);
+        expect(averages).toEqual([{ race: 4, minutes: 40, count: 1 }]);
+
+        // Losers matches are races to 3, scaled from the 10 minutes a rack measured so far
+        const lb = current.match.find(m => m.group_id !== m1!.group_id)!;
+        expect(getExpectedDuration(lb, current.match, current.stage, averages)).toBe(30 * MINUTE);
+
+        // A reset match is timed anew
+        await svc.resetMatch(m1!.id);
+        current = await svc.getTournamentData();
+        expect(current.match.find(m => m.id === m1!.id)?.completedAt).toBeUndefined();
+        expect(getRaceAverages(current.match, current.stage)).toEqual([]);
+    });
+
+    it('has nothing left to project once the event is over', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(4), 'single_elimination', 'Done', { raceWinners: 3 });
+        expect((await svc.getProjection()).matches.size).toBe(data.match.length);
+        for (const match of data.match) await svc.updateMatch(match.id, 3, 1, 'win', 'loss');
+        expect((await svc.getProjection()).finish).toBeNull();
+    });
+
+    it.each([
+        [6, 'double_elimination'], [13, 'double_elimination'], [16, 'double_elimination'], [8, 'single_elimination']
+    ] as const)('finds the matches feeding each match of a %i-player %s bracket', async (size, format) => {
+        const svc = new TournamentService();
+        let data = await svc.createTournament(makePlayers(size), format, 'Feeders', { raceWinners: 3, raceLosers: 3 });
+        // Play a few matches so some later ones already know one player
+        for (const match of data.match.filter(m => m.status === 2).slice(0, 3)) await svc.updateMatch(match.id, 3, 1, 'win', 'loss');
+        data = await svc.getTournamentData();
+
+        const feeders = getFeeders(data.match, data.stage);
+        expect(feeders.size).toBeGreaterThan(0);
+        for (const [matchId, ids] of feeders) {
+            expect(ids).toEqual(await previousMatchIds(data, matchId));
+        }
+    });
+
+    it('reads the storage and works out the feeders once, whatever the size of the bracket', async () => {
+        const lookups = async (size: number) => {
+            const svc = new TournamentService();
+            await svc.updateTables({ tableCount: 16 });
+            const data = await svc.createTournament(makePlayers(size), 'double_elimination', `DE ${size}`, { raceWinners: 5, raceLosers: 5 });
+            const selects = jest.spyOn(MemoryStorage.prototype, 'select');
+            const feeders = jest.spyOn(projection, 'getFeeders');
+
+            const { matches } = await svc.getProjection();
+            expect(matches.size).toBe(data.match.length);
+            expect(feeders).toHaveBeenCalledTimes(1);
+            const count = selects.mock.calls.length;
+            jest.restoreAllMocks();
+            return count;
+        };
+
+        expect(await lookups(512)).toBe(await lookups(8));
+    }, 60000);
+});
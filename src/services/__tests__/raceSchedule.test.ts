@@ -0,0 +1,55 @@
+import TournamentService from '../tournamentService';
+import { getRaceSide, getScheduledRace } from '../../utils';
+import { RaceScheduleEntry } from '../../types';
+import { makePlayers } from './fixtures';
+
+const players = makePlayers(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']);
+
+const schedule: RaceScheduleEntry[] = [
+    { side: 'winners', round: 2, race: 7 },
+    { side: 'winners', round: 3, race: 9 },
+    { side: 'losers', round: 1, race: 3 },
+    { side: 'grand_final', race: 9 },
+    { side: 'gf_reset', race: 9 }
+];
+
+describe('race schedule', () => {
+    it('looks up the race of each round and side, falling back to the stage races', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(players, 'double_elimination', 'Scheduled', { trueDouble: true, raceWinners: 5, raceLosers: 4 });
+        const races = { raceWinners: 5, raceLosers: 4, raceSchedule: schedule };
+
+        const raceBySide = new Map<string, Set<number>>();
+        data.match.forEach(m => {
+            const key = getRaceSide(m, data.match, 'double_elimination');
+            if (!raceBySide.has(key)) raceBySide.set(key, new Set());
+            raceBySide.get(key)!.add(getScheduledRace(m, data.match, 'double_elimination', races));
+        });
+        expect([...raceBySide.get('winners')!].sort((a, b) => a - b)).toEqual([5, 7, 9]);
+        // Only the first losers round is scheduled
+        expect([...raceBySide.get('losers')!].sort((a, b) => a - b)).toEqual([3, 4]);
+        expect([...raceBySide.get('grand_final')!]).toEqual([9]);
+        expect([...raceBySide.get('gf_reset')!]).toEqual([9]);
+
+        // Pools ignore the schedule
+        expect(getScheduledRace(data.match[0], data.match, 'round_robin', races)).toBe(5);
+    });
+
+    it('validates scores against the scheduled race of the match', async () => {
+        const svc = new TournamentService();
+        let data = await svc.createTournament(players, 'single_elimination', 'Scheduled', { raceWinners: 5, raceSchedule: schedule });
+        const rounds = [...new Set(data.match.map(m => m.round_id))].sort((a, b) => a - b);
+
+        for (const match of data.match.filter(m => m.round_id === rounds[0])) {
+            await expect(svc.updateMatch(match.id, 7, 2, 'win', 'loss')).rejects.toThrow('race limit of 5');
+            await svc.updateMatch(match.id, 5, 2, 'win', 'loss');
+        }
+
+        // The second round is raced to 7
+        data = await svc.getTournamentData();
+        const semi = data.match.find(m => m.round_id === rounds[1])!;
+        await expect(svc.updateMatch(semi.id, 8, 2, 'win', 'loss')).rejects.toThrow('race limit of 7');
+        await svc.updateMatch(semi.id, 7, 2, 'win', 'loss');
+        expect((await svc.getTournamentData()).stage[0]!.settings.raceSchedule).toEqual(schedule);
+    });
+});
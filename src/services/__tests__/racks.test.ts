@@ -0,0 +1,62 @@
+import TournamentService from '../tournamentService';
+import { getNextBreaker } from '../gameTypes';
+import { makePlayers } from './fixtures';
+
+const players = makePlayers(['A', 'B', 'C', 'D']);
+
+describe('rack-by-rack scoring', () => {
+    it('keeps every rack as a match game and finishes the match at the race', async () => {
+        const svc = new TournamentService();
+        let data = await svc.createTournament(players, 'double_elimination', 'Racks', { gameType: 'Nine Ball', raceWinners: 3, raceLosers: 2 });
+        const match = data.match.find(m => m.opponent1?.id != null && m.opponent2?.id != null)!;
+
+        expect(await svc.recordRack(match.id, { winner: 1, breaker: 1, breakAndRun: true })).toBe(false);
+        expect(await svc.recordRack(match.id, { winner: 2, breaker: 1 })).toBe(false);
+        expect(await svc.recordRack(match.id, { winner: 1, snap: true })).toBe(false);
+
+        data = await svc.getTournamentData();
+        const racks = data.match_game.filter(g => g.parent_id === match.id && g.opponent1?.result);
+        expect(racks.map(g => [g.opponent1?.result, g.breaker, Boolean(g.breakAndRun), Boolean(g.snap)])).toEqual([
+            ['win', 1, true, false],
+            ['loss', 1, false, false],
+            ['win', 1, false, true]
+        ]);
+        // Nine Ball: the winner of a rack breaks the next one
+        expect(getNextBreaker(racks, 'winner')).toBe(1);
+        expect(getNextBreaker(racks, 'alternate')).toBe(2);
+        expect(data.match.find(m => m.id === match.id)).toMatchObject({ status: 3, opponent1: { score: 2 }, opponent2: { score: 1 } });
+
+        // Only the breaker can run out
+        await expect(svc.recordRack(match.id, { winner: 2, breaker: 1, breakAndRun: true })).rejects.toThrow('player who broke');
+
+        expect(await svc.recordRack(match.id, { winner: 1 })).toBe(true);
+        data = await svc.getTournamentData();
+        expect(data.match.find(m => m.id === match.id)).toMatchObject({
+            status: 4,
+            opponent1: { score: 3, result: 'win' },
+            opponent2: { score: 1, result: 'loss' }
+        });
+        // The winner moved on and the results of the racks were kept
+        expect(data.match.some(m => m.id !== match.id && (m.opponent1?.id === match.opponent1?.id || m.opponent2?.id === match.opponent1?.id))).toBe(true);
+        expect(data.match_game.filter(g => g.parent_id === match.id && g.opponent1?.result)).toHaveLength(4);
+
+        await expect(svc.recordRack(match.id, { winner: 2 })).rejects.toThrow('ready or running');
+    });
+
+    it('is undone one rack at a time and refuses games scored in points', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(players, 'single_elimination', 'Racks', { raceWinners: 3 });
+        const match = data.match[0]!;
+
+        await svc.recordRack(match.id, { winner: 2 });
+        await svc.recordRack(match.id, { winner: 2 });
+        await svc.undo();
+        const after = await svc.getTournamentData();
+        expect(after.match.find(m => m.id === match.id)?.opponent2?.score).toBe(1);
+        expect(after.match_game.filter(g => g.opponent2?.result === 'win')).toHaveLength(1);
+
+        const straight = new TournamentService();
+        const pool = await straight.createTournament(players, 'single_elimination', 'Straight', { gameType: 'Straight Pool', raceWinners: 100 });
+        await expect(straight.recordRack(pool.match[0]!.id, { winner: 1 })).rejects.toThrow('scored in points');
+    });
+});
@@ -0,0 +1,71 @@
+import TournamentService from '../tournamentService';
+import { makePlayers } from './fixtures';
+
+const players = makePlayers(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']);
+
+describe('resetting a match', () => {
+    it('reopens the downstream matches in both brackets and releases their tables', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(players, 'double_elimination', 'Reset', { raceWinners: 3, raceLosers: 3 });
+        const [m1, m2, m3, m4] = data.match;
+        for (const match of [m1, m2, m3, m4]) {
+            await svc.updateMatch(match!.id, 3, 1, 'win', 'loss');
+        }
+
+        // The winner of m1 won the next round rack by rack, and the loser is playing in the losers bracket
+        let current = await svc.getTournamentData();
+        const wbRound2 = current.match.find(m => m.group_id === m1!.group_id && m.opponent1?.id === m1!.opponent1?.id && m.id !== m1!.id)!;
+        for (let i = 0; i < 3; i++) await svc.recordRack(wbRound2.id, { winner: 1 });
+        current = await svc.getTournamentData();
+        const lbRound1 = current.match.find(m => m.opponent1?.id === m1!.opponent2?.id && m.group_id !== m1!.group_id)!;
+        await svc.updateMatch(lbRound1.id, 1, 0);
+        await svc.setMatchTable(lbRound1.id, 2);
+
+        const impact = await svc.getResetImpact(m1!.id);
+        expect(impact.map(m => m.id)).toEqual(expect.arrayContaining([wbRound2.id, lbRound1.id]));
+        // The winners-bracket final got the winner of wbRound2 and the losers bracket its loser
+        expect(impact).toHaveLength(4);
+        expect(impact.map(m => m.id)).not.toContain(m2!.id);
+
+        await svc.resetMatch(m1!.id);
+        const after = await svc.getTournamentData();
+        const byId = (id: number) => after.match.find(m => m.id === id)!;
+
+        expect(byId(m1!.id)).toMatchObject({ status: 2 });
+        expect(byId(m1!.id).opponent1?.result).toBeUndefined();
+        expect(byId(m1!.id).opponent1?.score).toBeUndefined();
+        // The next matches lost the players that came from m1
+        expect(byId(wbRound2.id).status).toBeLessThan(2);
+        expect(byId(wbRound2.id).opponent1?.id ?? null).toBeNull();
+        expect(after.match_game.filter(g => g.parent_id === wbRound2.id)).toHaveLength(0);
+        expect(byId(lbRound1.id).table).toBeUndefined();
+        expect(byId(lbRound1.id).opponent1?.score).toBeUndefined();
+        // Other results stand
+        expect(byId(m2!.id).opponent1?.result).toBe('win');
+
+        // The reset is a single undo step
+        await svc.undo();
+        const restored = await svc.getTournamentData();
+        expect(restored.match.find(m => m.id === wbRound2.id)?.status).toBe(4);
+        expect(restored.match.find(m => m.id === lbRound1.id)?.table).toBe(2);
+    });
+
+    it('reopens a pool match until the playoff is seeded from the pool results', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(players.slice(0, 4), 'round_robin', 'Pools', {
+            groupCount: 1,
+            raceWinners: 3,
+            playoff: { bracketType: 'single_elimination', advancePerGroup: 2 }
+        });
+        const [first, ...rest] = data.match;
+        await svc.updateMatch(first!.id, 3, 1, 'win', 'loss');
+        expect(await svc.getResetImpact(first!.id)).toEqual([]);
+        await svc.resetMatch(first!.id);
+        expect((await svc.getTournamentData()).match.find(m => m.id === first!.id)).toMatchObject({ status: 2 });
+
+        for (const match of [first, ...rest]) {
+            await svc.updateMatch(match!.id, 3, 1, 'win', 'loss');
+        }
+        await expect(svc.resetMatch(first!.id)).rejects.toThrow('playoff has already been seeded');
+    });
+});
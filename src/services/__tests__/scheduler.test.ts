@@ -0,0 +1,137 @@
+import TournamentService from '../tournamentService';
+import { getLastCompleted, getRestRemaining, getSchedulingStrategies, pickNextMatch, planAssignments } from '../scheduler';
+import { getNextRestEnd, planAutoAssignments } from '../tableManager';
+import { Match } from '../../types';
+import { getUserFriendlyRoundNumber } from '../../utils';
+import { isReady, makePlayers } from './fixtures';
+
+// Plays a whole event on `tables` tables, finishing the longest-running match
+// first, and returns the round labels in the order matches went out
+const playOut = async (svc: TournamentService, tables: number, strategy: string) => {
+    const order: string[] = [];
+    const onTables: Match[] = [];
+    for (;;) {
+        const data = await svc.getTournamentData();
+        const seated = data.match.filter(m => onTables.some(t => t.id === m.id));
+        const waiting = data.match.filter(m => isReady(m) && !seated.some(t => t.id === m.id));
+        const free = Array.from({ length: tables - seated.length }, (_, i) => i + 1);
+        const plan = planAssignments(waiting, free, { allMatches: data.match, stages: data.stage, onTables: seated }, strategy);
+
+        // Nobody plays two matches at once
+        const busy = [...seated, ...plan.map(p => p.match)].flatMap(m => [m.opponent1!.id, m.opponent2!.id]);
+        expect(new Set(busy).size).toBe(busy.length);
+
+        plan.forEach(({ match }) => {
+            order.push(getUserFriendlyRoundNumber(match, data.match, data.stage));
+            onTables.push(match);
+        });
+        const next = onTables.shift();
+        if (!next) return order;
+        await svc.updateMatch(next.id, 3, 1, 'win', 'loss');
+    }
+};
+
+describe('scheduler', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it.each([4, 8, 16])('plays out a %i-player double elimination bracket with every strategy', async size => {
+        for (const { name } of getSchedulingStrategies()) {
+            const svc = new TournamentService();
+            await svc.createTournament(makePlayers(size), 'double_elimination', `DE ${size}`, { raceWinners: 3, raceLosers: 3 });
+            const order = await playOut(svc, Math.max(1, size / 4), name);
+
+            expect(order[order.length - 1]).toBe('Finals');
+            expect(await svc.getPlacings()).toHaveLength(size);
+        }
+    });
+
+    it('sends winners-bracket matches out before losers-bracket ones', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(8), 'double_elimination', 'Flow', { raceWinners: 3, raceLosers: 3 });
+        const [m1, m2, m3] = data.match;
+        for (const match of [m1, m2, m3]) await svc.updateMatch(match!.id, 3, 1, 'win', 'loss');
+
+        const current = await svc.getTournamentData();
+        const waiting = current.match.filter(isReady);
+        const label = (m: Match | null) => m ? getUserFriendlyRoundNumber(m, current.match, current.stage) : null;
+        const context = { allMatches: current.match, stages: current.stage, onTables: [] };
+        // WB round 1, then WB round 2, then the losers bracket
+        expect(planAssignments(waiting, [1, 2, 3], context, 'bracket_flow').map(p => label(p.match)))
+            .toEqual(['WB Round 1', 'WB Round 2', 'LB Round 1']);
+
+        // A match with a player already at a table is never picked
+        const wb1 = waiting.find(m => label(m) === 'WB Round 1')!;
+        const elsewhere = { ...current.match[0]!, id: -1, opponent1: { id: wb1.opponent1!.id } };
+        expect(label(pickNextMatch(waiting, { ...context, onTables: [elsewhere] }))).toBe('WB Round 2');
+        expect(pickNextMatch([], context)).toBeNull();
+    });
+
+    it('ranks by bracket order, by round or by the fewest matches played', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(8), 'double_elimination', 'Idle', { raceWinners: 3, raceLosers: 3 });
+        // The first two winners-bracket rounds are done, the losers bracket has not started
+        for (const match of data.match.slice(0, 6)) await svc.updateMatch(match.id, 3, 1, 'win', 'loss');
+
+        const current = await svc.getTournamentData();
+        const waiting = current.match.filter(isReady);
+        const context = { allMatches: current.match, stages: current.stage, onTables: [] };
+        const labels = (strategy: string) => planAssignments(waiting, [1, 2, 3], context, strategy)
+            .map(p => getUserFriendlyRoundNumber(p.match, current.match, current.stage));
+
+        expect(labels('bracket_flow')).toEqual(['WB Round 3', 'LB Round 1', 'LB Round 1']);
+        expect(labels('fifo')).toEqual(['LB Round 1', 'LB Round 1', 'WB Round 3']);
+        // The losers have played one match, the winners-bracket finalists two
+        expect(labels('minimize_idle')).toEqual(['LB Round 1', 'LB Round 1', 'WB Round 3']);
+    });
+
+    it('auto-assigns free tables with the same engine and skips excluded tables', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(8), 'double_elimination', 'Auto', { raceWinners: 3, raceLosers: 3 });
+        const matches = data.match.map(({ table, ...m }) => m);
+        const tables = {
+            tableCount: 3,
+            tableSettings: { 1: { name: 'Stream', doNotAutoAssign: true }, 2: { name: 'Table 1', doNotAutoAssign: false } },
+            globalAutoAssign: true,
+            scheduler: 'bracket_flow'
+        };
+
+        const plan = planAutoAssignments(matches, data.stage, tables);
+        expect(plan.map(p => p.table)).toEqual([2, 3]);
+        const expected = planAssignments(matches.filter(isReady), [2, 3], { allMatches: matches, stages: data.stage, onTables: [] });
+        expect(plan.map(p => p.match.id)).toEqual(expected.map(p => p.match.id));
+        expect(planAutoAssignments(matches, data.stage, { ...tables, globalAutoAssign: false })).toEqual([]);
+    });
+
+    it('lets players rest after a match unless every table would sit idle', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(8), 'double_elimination', 'Rest', { raceWinners: 3, raceLosers: 3 });
+        const start = Date.UTC(2026, 0, 1, 12);
+        let clock = start;
+        jest.spyOn(Date, 'now').mockImplementation(() => clock);
+        // The first two matches finish 20 minutes before the last two
+        for (const [i, match] of data.match.slice(0, 4).entries()) {
+            clock = start + (i < 2 ? 0 : 18) * 60000;
+            await svc.updateMatch(match.id, 3, 1, 'win', 'loss');
+        }
+        clock = start + 20 * 60000;
+
+        const current = await svc.getTournamentData();
+        expect(getLastCompleted(current.match).get(data.match[0]!.opponent1!.id!)).toBe(start);
+        const waiting = current.match.filter(isReady);
+        const context = { allMatches: current.match, stages: current.stage, onTables: [], minRestMinutes: 10, now: clock };
+        const resting = waiting.filter(m => getRestRemaining(m, context) > 0);
+        expect(resting).toHaveLength(2);
+        expect(getRestRemaining(resting[0]!, context)).toBe(8 * 60000);
+
+        // Rested players go out first; the rest stay waiting while a match is in play
+        const plan = planAssignments(waiting, [1, 2, 3], context);
+        expect(plan.map(p => p.match.id).sort()).toEqual(waiting.filter(m => !resting.includes(m)).map(m => m.id).sort());
+        // With nothing else to play and every table idle, a resting match goes out anyway
+        expect(pickNextMatch(resting, context)).not.toBeNull();
+        expect(pickNextMatch(resting, { ...context, onTables: [plan[0]!.match] })).toBeNull();
+
+        const tables = { tableCount: 4, tableSettings: {}, globalAutoAssign: true, minRestMinutes: 10 };
+        expect(getNextRestEnd(current.match, current.stage, tables, clock)).toBe(clock + 8 * 60000);
+        expect(getNextRestEnd(current.match, current.stage, { ...tables, minRestMinutes: 0 }, clock)).toBeNull();
+    });
+});
@@ -0,0 +1,41 @@
+import TournamentService from '../tournamentService';
+import { orderPlayersForSeeding, placeSeeds } from '../seeding';
+
+const rated = (ratings: [string, number | undefined][]) =>
+    ratings.map(([name, effectiveRating]) => ({ name, phone: '', ...(effectiveRating !== undefined ? { effectiveRating } : {}) }));
+
+describe('seeding', () => {
+    it('orders by rating with unrated players last, or keeps the manual order', () => {
+        const players = rated([['Unrated', undefined], ['Low', 480], ['High', 720], ['Mid', 600]]);
+        expect(orderPlayersForSeeding(players, 'rating').map(p => p.name)).toEqual(['High', 'Mid', 'Low', 'Unrated']);
+        expect(orderPlayersForSeeding(players, 'manual').map(p => p.name)).toEqual(['Unrated', 'Low', 'High', 'Mid']);
+        expect(orderPlayersForSeeding(players, 'random').map(p => p.name).sort()).toEqual(['High', 'Low', 'Mid', 'Unrated']);
+    });
+
+    it('places 1 against N with the top seeds in different halves and BYEs to the top seeds', () => {
+        expect(placeSeeds([1, 2, 3, 4, 5, 6, 7, 8])).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+        expect(placeSeeds([1, 2, 3, 4, 5, 6])).toEqual([1, null, 4, 5, 2, null, 3, 6]);
+    });
+
+    it('stores seeds on the participants of a seeded bracket', async () => {
+        const svc = new TournamentService();
+        // A player of the same name in another tournament keeps no seed
+        await svc.createTournament(rated([['A', undefined], ['B', undefined]]), 'single_elimination', 'Other');
+        await svc.addTournament('Seeded');
+
+        const players = orderPlayersForSeeding(rated([['A', 500], ['B', 700], ['C', 650], ['D', 400], ['E', 600], ['F', 550]]), 'rating');
+        const data = await svc.createTournament(players, 'single_elimination', 'Seeded', { seeded: true });
+
+        const seedOf = (id: number | null | undefined) => data.participant.find(p => p.id === id)?.seed ?? null;
+        expect(data.participant.map(p => [p.name, p.seed])).toEqual(
+            expect.arrayContaining([['B', 1], ['C', 2], ['E', 3], ['F', 4], ['A', 5], ['D', 6]])
+        );
+
+        const firstRound = data.match.filter(m => m.round_id === Math.min(...data.match.map(x => x.round_id)));
+        expect(firstRound.map(m => [seedOf(m.opponent1?.id), seedOf(m.opponent2?.id)])).toEqual([[1, null], [4, 5], [2, null], [3, 6]]);
+
+        const others = (await svc.listTournaments()).find(t => t.name === 'Other')!;
+        await svc.switchTournament(others.id);
+        expect((await svc.getTournamentData()).participant.every(p => p.seed === undefined)).toBe(true);
+    });
+});
@@ -0,0 +1,62 @@
+import TournamentService from '../tournamentService';
+import { findSeparationConflicts, getSeparationReport, separateSlots } from '../separation';
+import { placeSeeds } from '../seeding';
+
+const member = (name: string, club?: string) => ({ name, phone: '', ...(club ? { club } : {}) });
+
+describe('club separation', () => {
+    it('spreads club mates over different first-round matches', () => {
+        // Entry order would put all four Eagles in the top half
+        const players = [
+            member('E1', 'Eagles'), member('E2', 'Eagles'), member('E3', 'Eagles'), member('E4', 'Eagles'),
+            member('A'), member('B'), member('C'), member('D')
+        ];
+        const slots = separateSlots(placeSeeds(players), 'club', false);
+        const matchOf = (name: string) => Math.floor(slots.findIndex(p => p?.name === name) / 2);
+        expect(new Set(['E1', 'E2', 'E3', 'E4'].map(matchOf)).size).toBe(4);
+        expect(findSeparationConflicts(slots, 'club', false)).toEqual([]);
+        // Half the field is one club, so two pairs can still meet in the first losers round
+        expect(findSeparationConflicts(slots, 'club', true).map(c => c.bracket)).toEqual(['losers', 'losers']);
+    });
+
+    it('only moves players within their seed band', () => {
+        const players = [member('S1', 'Eagles'), member('S2', 'Sharks'), member('S3'), member('S4', 'Eagles')];
+        const slots = separateSlots(placeSeeds(players), 'club', true);
+        // Seeds 1 and 2 stay put; 3 and 4 may trade places
+        expect(slots[0]?.name).toBe('S1');
+        expect(slots[2]?.name).toBe('S2');
+        expect(slots.map(p => p?.name)).toEqual(['S1', 'S3', 'S2', 'S4']);
+    });
+
+    it('reports the conflicts that cannot be avoided', () => {
+        const players = [member('E1', 'Eagles'), member('E2', 'Eagles'), member('E3', 'Eagles'), member('A')];
+        const conflicts = getSeparationReport(players, 'club', false, false);
+        // Three club mates in a four-player bracket: one first-round meeting is unavoidable
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0]).toMatchObject({ value: 'Eagles', bracket: 'winners', round: 1 });
+        // Players without a club never conflict
+        expect(getSeparationReport([member('A'), member('B')], 'club', false, true)).toEqual([]);
+    });
+
+    it('separates a 512-player field quickly', () => {
+        const cities = Array.from({ length: 12 }, (_, i) => `City ${i + 1}`);
+        const players = Array.from({ length: 512 }, (_, i) => ({ ...member(`P${i + 1}`), city: cities[i % cities.length]! }));
+
+        const started = Date.now();
+        const conflicts = getSeparationReport(players, 'city', false, true);
+        expect(Date.now() - started).toBeLessThan(1000);
+        // Twelve cities are enough to keep every block of four apart
+        expect(conflicts).toEqual([]);
+    });
+
+    it('creates the bracket with club mates apart', async () => {
+        const svc = new TournamentService();
+        const players = ['N', 'S', 'E', 'W'].flatMap(club => [1, 2].map(i => ({ ...member(`${club}${i}`), city: club })));
+        const data = await svc.createTournament(players, 'double_elimination', 'Open', { separateBy: 'city' });
+
+        const cityOf = (id: number | null | undefined) => data.participant.find(p => p.id === id)?.name.charAt(0);
+        const firstRound = data.match.filter(m => m.round_id === Math.min(...data.match.map(x => x.round_id)));
+        expect(firstRound).toHaveLength(4);
+        firstRound.forEach(m => expect(cityOf(m.opponent1?.id)).not.toBe(cityOf(m.opponent2?.id)));
+    });
+});
@@ -0,0 +1,124 @@
+import TournamentService from '../tournamentService';
+import { seedFromPools } from '../seeding';
+import { Match } from '../../types';
+import { makePlayers } from './fixtures';
+
+// Score the pool match between two players (the winner is named first)
+const play = async (svc: TournamentService, winner: string, loser: string, won: number, lost: number) => {
+    const data = await svc.getTournamentData();
+    const idOf = (name: string) => data.participant.find(p => p.name === name)!.id;
+    const match = data.match.find(m =>
+        [m.opponent1?.id, m.opponent2?.id].includes(idOf(winner)) && [m.opponent1?.id, m.opponent2?.id].includes(idOf(loser))
+    ) as Match;
+    const winnerFirst = match.opponent1?.id === idOf(winner);
+    await svc.updateMatch(
+        match.id,
+        winnerFirst ? won : lost,
+        winnerFirst ? lost : won,
+        winnerFirst ? 'win' : 'loss',
+        winnerFirst ? 'loss' : 'win'
+    );
+};
+
+describe('round robin', () => {
+    it('creates pools without BYEs and races every pool to the winners race', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(['A', 'B', 'C', 'D', 'E', 'F', 'G']), 'round_robin', 'League Night', { groupCount: 2, raceWinners: 7, raceLosers: 3 });
+
+        expect(data.participant).toHaveLength(7);
+        expect(data.group).toHaveLength(2);
+        // A pool of four and a pool of three play 6 + 3 matches
+        expect(data.match).toHaveLength(9);
+        expect(data.match.every(m => m.opponent1?.id != null && m.opponent2?.id != null)).toBe(true);
+
+        const secondPool = data.group.find(g => g.number === 2)!;
+        const match = data.match.find(m => m.group_id === secondPool.id)!;
+        await expect(svc.updateMatch(match.id, 7, 5, 'win', 'loss')).resolves.toBeUndefined();
+        await expect(svc.updateMatch(match.id, 8, 5, 'win', 'loss')).rejects.toThrow('race limit of 7');
+    });
+
+    it('ranks by wins and breaks ties head-to-head before rack differential', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(makePlayers(['A', 'B', 'C', 'D']), 'round_robin', 'Pool', { groupCount: 1, raceWinners: 7 });
+
+        await play(svc, 'A', 'B', 7, 6);
+        await play(svc, 'B', 'C', 7, 0);
+        await play(svc, 'B', 'D', 7, 0);
+        await play(svc, 'C', 'A', 7, 0);
+        await play(svc, 'A', 'D', 7, 6);
+        await play(svc, 'D', 'C', 7, 6);
+
+        const [pool] = await svc.getStandings();
+        expect(pool?.rows.map(r => r.name)).toEqual(['A', 'B', 'D', 'C']);
+        expect(pool?.rows.map(r => r.rank)).toEqual([1, 2, 3, 4]);
+        expect(pool?.rows[1]).toMatchObject({ wins: 2, losses: 1, racksWon: 20, racksLost: 7, rackDifferential: 13 });
+    });
+
+    it('counts a forfeit as a loss for the player who forfeited', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(['A', 'B', 'C']), 'round_robin', 'Pool', { groupCount: 1, raceWinners: 7 });
+        const match = data.match[0]!;
+        await svc.forfeitMatch(match.id, 1, 'no_show');
+
+        const [pool] = await svc.getStandings();
+        const forfeiter = pool?.rows.find(r => r.participantId === match.opponent1!.id);
+        expect(forfeiter).toMatchObject({ played: 1, wins: 0, losses: 1, draws: 0 });
+        expect(pool?.rows.find(r => r.participantId === match.opponent2!.id)).toMatchObject({ wins: 1, losses: 0, draws: 0 });
+    });
+});
+
+describe('pools feeding a playoff bracket', () => {
+    it('seeds pool winners first and keeps players of the same pool apart', () => {
+        const qualifiers = [1, 2, 3, 4].flatMap(pool => [1, 2].map(place => ({
+            participantId: pool * 10 + place,
+            groupNumber: pool,
+            place,
+            wins: 3 - place,
+            rackDifferential: 0
+        })));
+        // Pool 1's runner-up is the lowest seed and would meet its own pool winner in the first round
+        qualifiers.find(q => q.participantId === 12)!.rackDifferential = -5;
+
+        const slots = seedFromPools(qualifiers);
+        expect(slots).toHaveLength(8);
+        expect(slots.filter((_, i) => i % 2 === 0).every(id => id! % 10 === 1)).toBe(true);
+        for (let i = 0; i < slots.length; i += 2) {
+            expect(Math.floor(slots[i]! / 10)).not.toBe(Math.floor(slots[i + 1]! / 10));
+        }
+    });
+
+    it('creates the elimination stage when the last pool match is scored', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(makePlayers(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']), 'round_robin', 'Open', {
+            groupCount: 2,
+            raceWinners: 5,
+            playoff: { bracketType: 'single_elimination', advancePerGroup: 2 }
+        });
+
+        let data = await svc.getTournamentData();
+        const poolMatches = data.match;
+        for (const match of poolMatches) {
+            expect(data.stage).toHaveLength(1);
+            await svc.updateMatch(match.id, 5, 2, 'win', 'loss');
+            data = await svc.getTournamentData();
+        }
+
+        expect(data.stage.map(s => s.type)).toEqual(['round_robin', 'single_elimination']);
+        const playoff = data.stage[1]!;
+        expect(playoff.tournament_id).toBe(svc.getCurrentTournamentId());
+        const firstRound = data.match.filter(m => m.stage_id === playoff.id && m.opponent1?.id != null && m.opponent2?.id != null);
+        expect(firstRound).toHaveLength(2);
+
+        const standings = await svc.getStandings();
+        const poolOf = (id: number) => standings.find(pool => pool.rows.some(r => r.participantId === id))!.groupNumber;
+        const qualified = new Set(standings.flatMap(pool => pool.rows.slice(0, 2).map(r => r.participantId)));
+        firstRound.forEach(m => {
+            expect(qualified.has(m.opponent1!.id!)).toBe(true);
+            expect(poolOf(m.opponent1!.id!)).not.toBe(poolOf(m.opponent2!.id!));
+        });
+
+        // Undoing the last pool score removes the playoff again
+        await svc.undo();
+        expect((await svc.getTournamentData()).stage).toHaveLength(1);
+    });
+});
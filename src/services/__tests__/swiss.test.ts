@@ -0,0 +1,109 @@
+import TournamentService from '../tournamentService';
+import { computeSwissStandings, pairSwissRound, SwissStandingRow } from '../swiss';
+import { BracketsData, Match } from '../../types';
+import { makePlayers } from './fixtures';
+
+const row = (participantId: number, points: number): SwissStandingRow => ({
+    participantId, name: `P${participantId}`, points, played: 0, wins: 0, losses: 0, draws: 0, byes: 0,
+    racksWon: 0, racksLost: 0, rackDifferential: 0, buchholz: 0, sonnebornBerger: 0, rank: 0
+});
+
+const duel = (id: number, a: number, b: number | null, winner?: number): Match => ({
+    id, stage_id: 1, group_id: 1, round_id: 1, number: id, child_count: 0, status: winner ? 4 : 2,
+    opponent1: { id: a, ...(winner ? { result: winner === a ? 'win' : 'loss', score: winner === a ? 5 : 2 } : {}) },
+    opponent2: b === null ? null : { id: b, ...(winner ? { result: winner === b ? 'win' : 'loss', score: winner === b ? 5 : 2 } : {}) }
+} as Match);
+
+const openMatches = (data: BracketsData) =>
+    data.match.filter(m => m.opponent1?.id != null && m.opponent2?.id != null && (m.status as number) < 4);
+
+describe('swiss pairing', () => {
+    it('pairs top half against bottom half of each score group and avoids rematches', () => {
+        const standings = [row(1, 1), row(2, 1), row(3, 1), row(4, 1), row(5, 0), row(6, 0), row(7, 0), row(8, 0)];
+        expect(pairSwissRound(standings, []).pairs).toEqual([[1, 3], [2, 4], [5, 7], [6, 8]]);
+
+        // 1 and 3 already met, so 1 takes the next player of the group
+        const { pairs } = pairSwissRound(standings, [duel(1, 1, 3, 1)]);
+        expect(pairs[0]).toEqual([1, 4]);
+        expect(pairs.some(([a, b]) => (a === 1 && b === 3) || (a === 3 && b === 1))).toBe(false);
+    });
+
+    it('gives the bye to the lowest-ranked player who has not had one', () => {
+        const standings = [row(1, 2), row(2, 1), row(3, 1), row(4, 1), row(5, 1)];
+        expect(pairSwissRound(standings, []).bye).toBe(5);
+        expect(pairSwissRound(standings, [duel(1, 5, null)]).bye).toBe(4);
+    });
+
+    it('breaks ties on points by Buchholz, then Sonneborn-Berger', () => {
+        const data = {
+            stage: [{ id: 1, tournament_id: 1, name: 'S', type: 'round_robin', number: 1, settings: { swiss: { rounds: 2 } } }],
+            group: [], round: [], match_game: [],
+            participant: [1, 2, 3, 4].map(id => ({ id, tournament_id: 1, name: `P${id}` })),
+            // Round 1: 1 beats 2, 3 beats 4. Round 2: 1 beats 3, 4 beats 2.
+            match: [duel(1, 1, 2, 1), duel(2, 3, 4, 3), duel(3, 1, 3, 1), duel(4, 2, 4, 4)]
+        } as unknown as BracketsData;
+
+        const standings = computeSwissStandings(data, 1);
+        // 3 and 4 both have one point; 3's opponents scored 2 + 1, 4's scored 1 + 0
+        expect(standings.map(r => r.participantId)).toEqual([1, 3, 4, 2]);
+        expect(standings[1]).toMatchObject({ points: 1, buchholz: 3, sonnebornBerger: 1 });
+        expect(standings[2]).toMatchObject({ points: 1, buchholz: 1, sonnebornBerger: 0 });
+    });
+});
+
+describe('swiss tournament', () => {
+    it('generates each round once the previous one is finished', async () => {
+        const svc = new TournamentService();
+        let data = await svc.createTournament(makePlayers(['A', 'B', 'C', 'D', 'E']), 'swiss', 'League', { raceWinners: 5 });
+
+        expect(data.stage[0]?.settings.swiss).toEqual({ rounds: 3 });
+        expect(data.participant).toHaveLength(5);
+        expect(data.round).toHaveLength(1);
+        expect(openMatches(data)).toHaveLength(2);
+        const byes = new Set<number>();
+
+        for (let round = 1; round <= 3; round++) {
+            const bye = data.match.find(m => m.round_id === data.round[round - 1]!.id && m.opponent2 === null);
+            expect(bye).toBeDefined();
+            expect(byes.has(bye!.opponent1!.id!)).toBe(false);
+            byes.add(bye!.opponent1!.id!);
+
+            const [first, second] = openMatches(data);
+            await svc.updateMatch(first!.id, 5, 3, 'win', 'loss');
+            // Half a round played: nothing new yet
+            expect((await svc.getTournamentData()).round).toHaveLength(round);
+            await expect(svc.updateMatch(second!.id, 6, 3, 'win', 'loss')).rejects.toThrow('race limit of 5');
+            await svc.updateMatch(second!.id, 5, 3, 'win', 'loss');
+            data = await svc.getTournamentData();
+        }
+
+        // Three rounds played, no rematches
+        expect(data.round).toHaveLength(3);
+        expect(openMatches(data)).toHaveLength(0);
+        const pairs = data.match.filter(m => m.opponent2 !== null).map(m => [m.opponent1!.id, m.opponent2!.id].sort().join());
+        expect(new Set(pairs).size).toBe(pairs.length);
+
+        const standings = await svc.getSwissStandings();
+        expect(standings.reduce((sum, r) => sum + r.points, 0)).toBe(9);
+
+        // Undoing the last result of round 2 removes the pairing of round 3 again
+        await svc.undo();
+        expect((await svc.getTournamentData()).round).toHaveLength(3);
+        await svc.undo();
+        await svc.undo();
+        expect((await svc.getTournamentData()).round).toHaveLength(2);
+    });
+
+    it('counts a forfeit as a loss worth no points', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(['A', 'B', 'C', 'D']), 'swiss', 'League', { raceWinners: 5 });
+        const [first, second] = openMatches(data);
+        await svc.forfeitMatch(first!.id, 2, 'no_show');
+        await svc.updateMatch(second!.id, 5, 3, 'win', 'loss');
+
+        const standings = await svc.getSwissStandings();
+        const forfeiter = standings.find(r => r.participantId === first!.opponent2!.id);
+        expect(forfeiter).toMatchObject({ played: 1, wins: 0, losses: 1, draws: 0, points: 0, sonnebornBerger: 0 });
+        expect(standings.find(r => r.participantId === first!.opponent1!.id)).toMatchObject({ wins: 1, points: 1, sonnebornBerger: 0 });
+    });
+});
@@ -0,0 +1,134 @@
+import { BracketsManager } from 'brackets-manager';
+import TournamentService from '../tournamentService';
+import { MemoryStorage } from '../memoryStorage';
+import { canPlayOnTable, describeRule, getRoundScopes } from '../tableRules';
+import { getHoldReason, planAutoAssignments } from '../tableManager';
+import { Match, Stage, TableState } from '../../types';
+import { getUserFriendlyRoundNumber } from '../../utils';
+import { makePlayers, playMatches } from './fixtures';
+
+// Scores ready matches until only the matches of the rounds `keep` picks are left ready
+const playUntil = (svc: TournamentService, keep: (label: string) => boolean) =>
+    playMatches(svc, { keep: (m, data) => keep(getUserFriendlyRoundNumber(m, data.match, data.stage)) });
+
+describe('table rules', () => {
+    it('knows which rounds a match belongs to', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(8), 'double_elimination', 'Scopes', { raceWinners: 3, raceLosers: 3 });
+        const scopesOf = (label: string) => {
+            const match = data.match.find(m => getUserFriendlyRoundNumber(m, data.match, data.stage) === label)!;
+            return getRoundScopes(match, data.match, data.stage);
+        };
+
+        expect(scopesOf('WB Round 1')).toEqual(['wb_early']);
+        expect(scopesOf('WB Round 2')).toEqual(['wb_semifinals', 'wb_early']);
+        expect(scopesOf('WB Round 3')).toEqual(['wb_final']);
+        expect(scopesOf('LB Round 2')).toEqual(['lb_early']);
+        expect(scopesOf('LB Round 4')).toEqual(['lb_final']);
+        expect(scopesOf('Finals')).toEqual(['finals']);
+        expect(describeRule({ rounds: ['finals', 'wb_semifinals'], featured: true })).toBe('Grand final, WB semifinals: featured tables only');
+    });
+
+    it('leaves the third-place match of a single elimination out of the losers rounds', async () => {
+        const storage = new MemoryStorage();
+        const manager = new BracketsManager(storage as any);
+        await manager.create.stage({
+            tournamentId: 1, name: 'Third place', type: 'single_elimination',
+            seeding: ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'], settings: { consolationFinal: true }
+        });
+        const matches = await storage.select('match') as Match[];
+        const stages = await storage.select('stage') as Stage[];
+        const [bracket, thirdPlace] = [...new Set(matches.map(m => m.group_id))];
+        const consolation = matches.find(m => m.group_id === thirdPlace)!;
+        const final = matches.filter(m => m.group_id === bracket).pop()!;
+
+        expect(getRoundScopes(consolation, matches, stages)).toEqual([]);
+        expect(getRoundScopes(final, matches, stages)).toEqual(['wb_final']);
+        const tables: TableState = {
+            tableCount: 1,
+            tableSettings: { 1: { name: 'Table 1', doNotAutoAssign: false, size: '9ft' } },
+            globalAutoAssign: true,
+            rules: [{ rounds: ['lb_final', 'lb_early'], size: '7ft' }]
+        };
+        expect(canPlayOnTable(consolation, 1, tables, matches, stages)).toBe(true);
+    });
+
+    it('sends matches only to tables that meet their rules', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(makePlayers(8), 'double_elimination', 'Bar boxes', { raceWinners: 3, raceLosers: 3 });
+        const data = await playUntil(svc, label => label !== 'WB Round 1');
+        const tables: TableState = {
+            tableCount: 3,
+            tableSettings: {
+                1: { name: 'Stream', doNotAutoAssign: false, size: '9ft' },
+                2: { name: 'Table 1', doNotAutoAssign: false, size: '7ft' },
+                3: { name: 'Table 2', doNotAutoAssign: false, size: '7ft' }
+            },
+            globalAutoAssign: true,
+            rules: [{ rounds: ['lb_early'], size: '7ft' }]
+        };
+
+        const plan = planAutoAssignments(data.match, data.stage, tables);
+        const labels = plan.map(p => `${p.table}: ${getUserFriendlyRoundNumber(p.match, data.match, data.stage)}`);
+        expect(labels).toEqual(['1: WB Round 2', '2: WB Round 2', '3: LB Round 1']);
+        expect(plan.every(p => canPlayOnTable(p.match, p.table, tables, data.match, data.stage))).toBe(true);
+    });
+
+    it('holds a match back until a table that meets its rule is in play', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(makePlayers(4), 'double_elimination', 'Stream final', { raceWinners: 3, raceLosers: 3 });
+        const data = await playUntil(svc, label => label === 'Finals');
+        const final = data.match.find(m => m.status === 2)!;
+        const tables: TableState = {
+            tableCount: 2,
+            tableSettings: { 2: { name: 'TV', doNotAutoAssign: false, featured: true, outOfService: true } },
+            globalAutoAssign: true,
+            rules: [{ rounds: ['finals'], featured: true }]
+        };
+
+        expect(planAutoAssignments(data.match, data.stage, tables)).toEqual([]);
+        expect(getHoldReason(final, data.match, data.stage, tables)).toBe('Grand final: featured tables only. No table in play qualifies.');
+
+        const inPlay = { ...tables, tableSettings: { 2: { ...tables.tableSettings[2]!, outOfService: false } } };
+        expect(planAutoAssignments(data.match, data.stage, inPlay).map(p => p.table)).toEqual([2]);
+        // While the featured table is taken, the free table does not qualify
+        const featuredBusy = [...data.match, { ...final, id: -1, table: 2 }];
+        expect(planAutoAssignments(featuredBusy, data.stage, inPlay)).toEqual([]);
+        expect(getHoldReason(final, featuredBusy, data.stage, inPlay)).toBe('Grand final: featured tables only. Waiting for one to free up.');
+    });
+
+    it('takes matches off a table that goes out of service and leaves it out of the projection', async () => {
+        const svc = new TournamentService();
+        await svc.updateTables({ tableCount: 2, globalAutoAssign: true });
+        const data = await svc.createTournament(makePlayers(8), 'double_elimination', 'Broken table', { raceWinners: 3, raceLosers: 3 });
+        expect(data.match.slice(0, 2).map(m => m.table)).toEqual([1, 2]);
+
+        const tables = await svc.getTables();
+        await svc.updateTables({ tableSettings: { ...tables.tableSettings, 2: { name: 'Table 1', doNotAutoAssign: false, outOfService: true } } });
+        const after = await svc.getTournamentData();
+        expect(after.match.filter(m => m.table != null).map(m => [m.id, m.table])).toEqual([[data.match[0]!.id, 1]]);
+
+        // One table in play: no two matches overlap
+        const projected = [...(await svc.getProjection()).matches.values()].filter(p => p.finish > p.start);
+        for (const { start } of projected) {
+            expect(projected.filter(p => p.start <= start && p.finish > start)).toHaveLength(1);
+        }
+    });
+
+    it('plans a 512-player double elimination on 16 tables with rules quickly', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(makePlayers(512), 'double_elimination', 'Big', { raceWinners: 5, raceLosers: 5 });
+        const tables: TableState = {
+            tableCount: 16,
+            tableSettings: { 1: { name: 'TV', doNotAutoAssign: false, featured: true } },
+            globalAutoAssign: true,
+            rules: [{ rounds: ['finals', 'wb_semifinals'], featured: true }, { rounds: ['lb_early'], size: '7ft' }]
+        };
+
+        const started = Date.now();
+        const plan = planAutoAssignments(data.match, data.stage, tables);
+        // Generous bound for slow machines; scanning the bracket per match and table took far longer
+        expect(Date.now() - started).toBeLessThan(1000);
+        expect(plan).toHaveLength(16);
+    }, 60000);
+});
@@ -0,0 +1,54 @@
+import TournamentService from '../tournamentService';
+import { MemoryStorage } from '../memoryStorage';
+import { getTableMatch, getWaitingMatches } from '../tableManager';
+import { makePlayers } from './fixtures';
+
+const players = makePlayers(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']);
+
+describe('table assignments', () => {
+    it('keeps the layout in the service and the assignments on the matches', async () => {
+        const svc = new TournamentService();
+        expect(await svc.getTables()).toMatchObject({ tableCount: 1, globalAutoAssign: false });
+        await svc.updateTables({ tableCount: 3, globalAutoAssign: true });
+
+        // Starting the event fills every table
+        const data = await svc.createTournament(players, 'double_elimination', 'Tables', { raceWinners: 3, raceLosers: 3 });
+        expect([1, 2, 3].map(table => getTableMatch(data.match, table)?.id)).toEqual(data.match.slice(0, 3).map(m => m.id));
+        expect(getWaitingMatches(data.match).map(m => m.id)).toEqual([data.match[3]!.id]);
+
+        // A finished match frees its table, which is filled again in the same undo step
+        await svc.updateMatch(data.match[0]!.id, 3, 1, 'win', 'loss');
+        let after = await svc.getTournamentData();
+        expect(after.match.find(m => m.id === data.match[0]!.id)?.table).toBeUndefined();
+        expect(getTableMatch(after.match, 1)?.id).toBe(data.match[3]!.id);
+        await svc.undo();
+        after = await svc.getTournamentData();
+        expect(getTableMatch(after.match, 1)?.id).toBe(data.match[0]!.id);
+        expect(after.match.find(m => m.id === data.match[3]!.id)?.table).toBeUndefined();
+
+        // Removing a table sends its match back to waiting; the layout itself is not undone
+        await svc.updateTables({ tableCount: 2, globalAutoAssign: false });
+        after = await svc.getTournamentData();
+        expect(after.match.find(m => m.id === data.match[2]!.id)?.table).toBeUndefined();
+        await svc.undo();
+        expect((await svc.getTournamentData()).match.find(m => m.id === data.match[2]!.id)?.table).toBe(3);
+        expect((await svc.getTables()).tableCount).toBe(2);
+    });
+
+    it('renames tables with an audit entry and reads layouts saved by older versions', async () => {
+        const storage = new MemoryStorage();
+        const svc = new TournamentService(storage);
+        await svc.renameTable(2, ' Corner ');
+        expect((await svc.getTables()).tableSettings[2]?.name).toBe('Corner');
+        expect(svc.getAuditLog().getEvents()[0]).toMatchObject({ type: 'table_rename', before: 'Table 1', after: 'Corner' });
+
+        const id = svc.getCurrentTournamentId();
+        await storage.update('tournament', id, {
+            tables: undefined,
+            session: { tables: { tableCount: 4, tableAssignments: [null, 7], tableSettings: {}, globalAutoAssign: true } }
+        } as any);
+        const legacy = await svc.getTables();
+        expect(legacy).toMatchObject({ tableCount: 4, globalAutoAssign: true });
+        expect(legacy).not.toHaveProperty('tableAssignments');
+    });
+});
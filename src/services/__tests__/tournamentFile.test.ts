@@ -0,0 +1,90 @@
+import TournamentService from '../tournamentService';
+import {
+    createTournamentFile,
+    parseTournamentFile,
+    serializeTournamentFile,
+    TOURNAMENT_FILE_VERSION
+} from '../tournamentFile';
+import { TableState, TournamentSettings } from '../../types';
+
+const players = ['Alice', 'Bob', 'Carol', 'Dave', 'Erin'].map(name => ({ name, phone: '555-0100' }));
+
+const settings: TournamentSettings = {
+    name: 'Friday 9-Ball',
+    description: 'Weekly',
+    gameType: 'Nine Ball',
+    bracketType: 'double',
+    trueDouble: false,
+    raceWinners: 5,
+    raceLosers: 3
+};
+
+const tables: TableState = {
+    tableCount: 3,
+    tableSettings: { 1: { name: 'Stream', doNotAutoAssign: true } },
+    globalAutoAssign: false
+};
+
+describe('tournament files', () => {
+    it('round-trips settings, players, tables and bracket data', async () => {
+        const svc = new TournamentService();
+        const data = await svc.createTournament(players, 'double_elimination', settings.name, { raceWinners: 5, raceLosers: 3 });
+
+        const contents = serializeTournamentFile(createTournamentFile(settings, players, tables, data));
+        const parsed = parseTournamentFile(contents);
+
+        expect(parsed.version).toBe(TOURNAMENT_FILE_VERSION);
+        expect(parsed.settings).toEqual(settings);
+        expect(parsed.players).toEqual(players);
+        expect(parsed.tables).toEqual(tables);
+        expect(parsed.bracketsData.match).toHaveLength(data.match.length);
+    });
+
+    it('rehydrates TournamentService from a file so play can continue', async () => {
+        const original = new TournamentService();
+        const data = await original.createTournament(players, 'double_elimination', settings.name);
+        const parsed = parseTournamentFile(serializeTournamentFile(createTournamentFile(settings, players, tables, data)));
+
+        const restored = new TournamentService();
+        const loaded = await restored.importTournament(parsed.bracketsData, parsed.settings.name);
+        expect(loaded.participant.map(p => p.name)).toEqual(data.participant.map(p => p.name));
+
+        const ready = loaded.match.find(m => m.status === 2 && m.opponent1?.id != null && m.opponent2?.id != null)!;
+        await restored.updateMatch(ready.id, 7, 2, 'win', 'loss');
+        const after = await restored.getTournamentData();
+        expect(after.match.find(m => m.id === ready.id)?.opponent1?.result).toBe('win');
+    });
+
+    it('rejects files that are not tournament files', () => {
+        expect(() => parseTournamentFile('not json')).toThrow('not valid JSON');
+        expect(() => parseTournamentFile('{}')).toThrow('missing version');
+        expect(() => parseTournamentFile(JSON.stringify({ version: 1, bracketsData: { stage: [] } }))).toThrow('"group"');
+    });
+
+    it('drops players and audit events it cannot use', () => {
+        const bracketsData = { stage: [], group: [], round: [], match: [], match_game: [], participant: [] };
+        const contents = JSON.stringify({
+            version: TOURNAMENT_FILE_VERSION,
+            bracketsData,
+            players: [null, 'Alice', { phone: '555' }, { name: '  ' }, { name: 'Bob', phone: 5550100, effectiveRating: '612', club: 7 }],
+            auditLog: [
+                null,
+                { type: 'unknown', timestamp: 1 },
+                { type: 'match_score', timestamp: 'later' },
+                { type: 'match_score', timestamp: 1700000000000, matchId: '3', participantIds: [1, 'x', '2'], description: 'Scored' }
+            ]
+        });
+
+        const file = parseTournamentFile(contents);
+        expect(file.players).toEqual([{ name: 'Bob', phone: '5550100', effectiveRating: 612 }]);
+        expect(file.auditLog).toEqual([{
+            id: 0, timestamp: 1700000000000, type: 'match_score', operator: '', tournamentId: 0, matchId: 3,
+            participantIds: [1, 2], description: 'Scored', before: null, after: null
+        }]);
+    });
+
+    it('rejects files from a newer version', () => {
+        const contents = JSON.stringify({ version: TOURNAMENT_FILE_VERSION + 1 });
+        expect(() => parseTournamentFile(contents)).toThrow('newer version');
+    });
+});
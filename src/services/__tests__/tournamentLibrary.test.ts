@@ -0,0 +1,98 @@
+import TournamentService from '../tournamentService';
+import { getUserFriendlyRoundNumber } from '../../utils';
+import { firstReadyMatch, makePlayers } from './fixtures';
+
+const mainPlayers = makePlayers(['Alice', 'Bob', 'Carol', 'Dave']);
+const secondChancePlayers = makePlayers(['Erin', 'Frank', 'Grace', 'Heidi']);
+
+describe('tournament library', () => {
+    it('keeps brackets of several tournaments apart', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(mainPlayers, 'double_elimination', 'Main');
+        const mainId = svc.getCurrentTournamentId();
+
+        await svc.addTournament();
+        const second = await svc.createTournament(secondChancePlayers, 'double_elimination', 'Second Chance', { raceWinners: 5, raceLosers: 3 });
+        expect(second.participant.map(p => p.name)).toEqual(['Erin', 'Frank', 'Grace', 'Heidi']);
+        expect(second.stage).toHaveLength(1);
+
+        const tournaments = await svc.listTournaments();
+        expect(tournaments.map(t => t.name)).toEqual(['Main', 'Second Chance']);
+
+        const main = await svc.switchTournament(mainId);
+        expect(main.participant.map(p => p.name)).toEqual(['Alice', 'Bob', 'Carol', 'Dave']);
+        expect(main.match.every(m => main.stage.some(s => s.id === m.stage_id))).toBe(true);
+    });
+
+    it('locates matches within their own stage when ids are shared across tournaments', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(mainPlayers, 'double_elimination', 'Main');
+        await svc.addTournament();
+        const data = await svc.createTournament(secondChancePlayers, 'double_elimination', 'Second Chance', { raceWinners: 5, raceLosers: 3 });
+
+        const firstMatch = data.match[0]!;
+        expect(firstMatch.group_id).toBeGreaterThan(2);
+        expect(getUserFriendlyRoundNumber(firstMatch, data.match)).toBe('WB Round 1');
+
+        // A winners bracket match is raced to raceWinners even though its group id is not 1
+        const ready = await firstReadyMatch(svc);
+        await expect(svc.updateMatch(ready.id, 5, 2, 'win', 'loss')).resolves.toBeUndefined();
+        await expect(svc.updateMatch(ready.id, 6, 2, 'win', 'loss')).rejects.toThrow('race limit of 5');
+    });
+
+    it('deletes a tournament and falls back to another one', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(mainPlayers, 'double_elimination', 'Main');
+        const mainId = svc.getCurrentTournamentId();
+        await svc.addTournament('Second Chance');
+        await svc.createTournament(secondChancePlayers, 'single_elimination', 'Second Chance');
+        const secondId = svc.getCurrentTournamentId();
+
+        await svc.deleteTournament(secondId);
+        expect(svc.getCurrentTournamentId()).toBe(mainId);
+        expect((await svc.listTournaments()).map(t => t.id)).toEqual([mainId]);
+
+        const storage = svc.getStorage();
+        const participants = await storage.select('participant') as any[];
+        expect(participants.every(p => p.tournament_id === mainId)).toBe(true);
+        expect((await storage.select('stage') as any[]).map(s => s.tournament_id)).toEqual([mainId]);
+    });
+
+    it('imports saved bracket data next to existing tournaments', async () => {
+        const source = new TournamentService();
+        const saved = JSON.parse(JSON.stringify(await source.createTournament(secondChancePlayers, 'double_elimination', 'Saved')));
+
+        const svc = new TournamentService();
+        await svc.createTournament(mainPlayers, 'double_elimination', 'Main');
+        const imported = await svc.importTournament(saved, 'Saved');
+
+        expect(imported.participant.map(p => p.name)).toEqual(['Erin', 'Frank', 'Grace', 'Heidi']);
+        expect(imported.match).toHaveLength(saved.match.length);
+        const participantIds = new Set(imported.participant.map(p => p.id));
+        imported.match.forEach(m => {
+            if (m.opponent1?.id != null) expect(participantIds.has(m.opponent1.id)).toBe(true);
+        });
+
+        const ready = await firstReadyMatch(svc);
+        await svc.updateMatch(ready.id, 7, 1, 'win', 'loss');
+        expect((await svc.listTournaments()).map(t => t.name)).toEqual(['Main', 'Saved']);
+    });
+
+    it('keeps session state out of the undo history', async () => {
+        const svc = new TournamentService();
+        await svc.createTournament(mainPlayers, 'double_elimination', 'Main');
+        const match = await firstReadyMatch(svc);
+
+        await svc.setMatchTable(match.id, 1);
+        const session = {
+            settings: { name: 'Main', description: '', gameType: 'Nine Ball', bracketType: 'double' as const, trueDouble: true, raceWinners: 7, raceLosers: 5 },
+            players: mainPlayers
+        };
+        await svc.saveSession(session);
+        await svc.updateTables({ tableCount: 3, globalAutoAssign: false });
+        await svc.undo();
+
+        expect((await svc.getCurrentTournament())?.session?.players).toHaveLength(mainPlayers.length);
+        expect((await svc.getTables()).tableCount).toBe(3);
+    });
+});
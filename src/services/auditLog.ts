@@ -0,0 +1,156 @@
+// Append-only audit log of tournament mutations.
+// Unlike the undo history this log is never rewritten: undoing a score adds a
+// new event instead of removing the original one, so disputes can be traced.
+
+import { AuditEvent, Participant } from '../types';
+
+export type AuditEventInput = Omit<AuditEvent, 'id' | 'timestamp' | 'operator'>;
+
+export interface AuditFilter {
+    tournamentId?: number;
+    participantId?: number;
+    matchId?: number;
+}
+
+/**
+ * Where events are appended. The main process keeps a JSON-lines journal.
+ */
+export interface AuditPersistence {
+    load(): Promise<AuditEvent[]>;
+    append(events: AuditEvent[]): Promise<void>;
+}
+
+/**
+ * Persistence backed by the preload bridge (`window.api`), or null outside Electron
+ */
+export const getIpcAuditPersistence = (): AuditPersistence | null => {
+    const api = typeof window !== 'undefined' ? (window as any).api : undefined;
+    if (!api || typeof api.loadAuditLog !== 'function' || typeof api.appendAuditLog !== 'function') {
+        return null;
+    }
+
+    return {
+        load: () => api.loadAuditLog(),
+        append: (events: AuditEvent[]) => api.appendAuditLog(events)
+    };
+};
+
+export class AuditLog {
+    private events: AuditEvent[] = [];
+    private persistence: AuditPersistence | null;
+    private operator = '';
+    private nextId = 1;
+    private listeners = new Set<() => void>();
+
+    constructor(persistence: AuditPersistence | null = null) {
+        this.persistence = persistence;
+    }
+
+    /**
+     * Load events journaled by a previous session
+     */
+    async load(): Promise<void> {
+        if (!this.persistence) return;
+        try {
+            this.setEvents(await this.persistence.load());
+        } catch (error) {
+            console.error('Failed to load audit log:', error);
+        }
+    }
+
+    /**
+     * Append an event; returns the stored (immutable) event
+     */
+    record(input: AuditEventInput): AuditEvent {
+        const event: AuditEvent = Object.freeze({
+            ...input,
+            id: this.nextId++,
+            timestamp: Date.now(),
+            operator: this.operator
+        });
+        this.append([event]);
+        return event;
+    }
+
+    /**
+     * Append events recorded elsewhere (e.g. carried in a tournament file).
+     * They keep their time and operator but get new ids in this log.
+     */
+    importEvents(events: AuditEvent[]): void {
+        if (events.length === 0) return;
+        this.append(events.map(event => Object.freeze({ ...event, id: this.nextId++ })));
+    }
+
+    /**
+     * Events in the order they happened, optionally filtered by player or match
+     */
+    getEvents(filter: AuditFilter = {}): AuditEvent[] {
+        return this.events.filter(event => {
+            if (filter.tournamentId !== undefined && event.tournamentId !== filter.tournamentId) return false;
+            if (filter.participantId !== undefined && !event.participantIds.includes(filter.participantId)) return false;
+            if (filter.matchId !== undefined && event.matchId !== filter.matchId) return false;
+            return true;
+        });
+    }
+
+    setOperator(operator: string): void {
+        this.operator = operator.trim();
+    }
+
+    getOperator(): string {
+        return this.operator;
+    }
+
+    /**
+     * Listen for new events; returns an unsubscribe function
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private append(events: AuditEvent[]): void {
+        this.events.push(...events);
+        this.notify();
+
+        if (this.persistence) {
+            this.persistence.append(events).catch(error => console.error('Failed to journal audit event:', error));
+        }
+    }
+
+    private setEvents(events: AuditEvent[]): void {
+        this.events = (events || []).map(event => Object.freeze({ ...event }));
+        this.nextId = this.events.reduce((max, event) => Math.max(max, event.id), 0) + 1;
+        this.notify();
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+const csvCell = (value: any): string => {
+    const text = value === undefined || value === null ? '' : (typeof value === 'object' ? JSON.stringify(value) : String(value));
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Export events as CSV (one row per event, players listed by name)
+ */
+export const auditEventsToCsv = (events: AuditEvent[], participants: Participant[]): string => {
+    const nameOf = (id: number) => participants.find(p => p.id === id)?.name || `#${id}`;
+    const header = ['Time', 'Type', 'Operator', 'Match', 'Players', 'Description', 'Before', 'After'];
+    const rows = events.map(event => [
+        new Date(event.timestamp).toISOString(),
+        event.type,
+        event.operator,
+        event.matchId ?? '',
+        event.participantIds.map(nameOf).join(' / '),
+        event.description,
+        event.before,
+        event.after
+    ]);
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
@@ -0,0 +1,154 @@
+// Undo / redo history for tournament mutations.
+// Every command records the storage snapshot from before and after it ran, so
+// undoing a step simply restores the prior snapshot (and redo the later one).
+
+import { MemoryStorage, StorageSnapshot } from './memoryStorage';
+
+// The tournament registry stores UI session state (players, tables, settings) that
+// is saved outside of commands; undo must not roll it back
+const UNTRACKED_TABLES = ['tournament'];
+
+export interface HistoryEntry {
+    id: number;
+    label: string;
+    timestamp: number;
+}
+
+interface HistoryRecord extends HistoryEntry {
+    // Snapshots are kept serialized; they are only ever restored, never inspected
+    before: string;
+    after: string;
+}
+
+export class CommandHistory {
+    private storage: MemoryStorage;
+    private limit: number;
+    private done: HistoryRecord[] = [];
+    private undone: HistoryRecord[] = [];
+    private depth = 0;
+    private nextId = 1;
+    private listeners = new Set<() => void>();
+
+    constructor(storage: MemoryStorage, limit = 50) {
+        this.storage = storage;
+        this.limit = limit;
+    }
+
+    /**
+     * Run an action as a single undoable step.
+     * Nested calls are folded into the outermost command.
+     */
+    async run<T>(label: string, action: () => Promise<T>): Promise<T> {
+        if (this.depth > 0) {
+            return action();
+        }
+
+        const before = this.snapshot();
+        this.depth++;
+        try {
+            const result = await action();
+            const after = this.snapshot();
+
+            // Commands that did not change anything are not worth undoing
+            if (after !== before) {
+                this.done.push({ id: this.nextId++, label, timestamp: Date.now(), before, after });
+                if (this.done.length > this.limit) {
+                    this.done.splice(0, this.done.length - this.limit);
+                }
+                this.undone = [];
+                this.notify();
+            }
+
+            return result;
+        } finally {
+            this.depth--;
+        }
+    }
+
+    /**
+     * Restore the storage snapshot from before the most recent command
+     */
+    async undo(): Promise<HistoryEntry | null> {
+        const record = this.done.pop();
+        if (!record) return null;
+
+        this.restore(record.before);
+        await this.storage.flush();
+        this.undone.push(record);
+        this.notify();
+        return toEntry(record);
+    }
+
+    /**
+     * Re-apply the most recently undone command
+     */
+    async redo(): Promise<HistoryEntry | null> {
+        const record = this.undone.pop();
+        if (!record) return null;
+
+        this.restore(record.after);
+        await this.storage.flush();
+        this.done.push(record);
+        this.notify();
+        return toEntry(record);
+    }
+
+    canUndo(): boolean {
+        return this.done.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.undone.length > 0;
+    }
+
+    /**
+     * Applied commands (oldest first) and undone commands (next redo last)
+     */
+    getEntries(): { done: HistoryEntry[]; undone: HistoryEntry[] } {
+        return {
+            done: this.done.map(toEntry),
+            undone: this.undone.map(toEntry)
+        };
+    }
+
+    clear(): void {
+        this.done = [];
+        this.undone = [];
+        this.notify();
+    }
+
+    /**
+     * Listen for history changes; returns an unsubscribe function
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private snapshot(): string {
+        const data: StorageSnapshot = this.storage.exportData();
+        UNTRACKED_TABLES.forEach(table => delete data[table]);
+        return JSON.stringify(data);
+    }
+
+    private restore(serialized: string): void {
+        const current = this.storage.exportData();
+        const untracked: StorageSnapshot = {};
+        UNTRACKED_TABLES.forEach(table => {
+            if (current[table]) untracked[table] = current[table];
+        });
+        this.storage.importData({ ...JSON.parse(serialized), ...untracked });
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+const toEntry = (record: HistoryRecord): HistoryEntry => ({
+    id: record.id,
+    label: record.label,
+    timestamp: record.timestamp
+});
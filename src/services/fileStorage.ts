@@ -0,0 +1,141 @@
+// File-backed storage for brackets-manager.js
+// Keeps the working set in memory (MemoryStorage) and writes every mutation
+// through to disk via the Electron main process, so a crash or an accidental
+// window close does not lose the bracket. Inside a transaction nothing is written
+// until the outermost commit, so a rolled back change never reaches the disk.
+
+import { MemoryStorage, StorageSnapshot } from './memoryStorage';
+
+/**
+ * Where snapshots are read from and written to. The main process implements
+ * this with atomic file writes; tests can pass an in-memory implementation.
+ */
+export interface StoragePersistence {
+    load(): Promise<StorageSnapshot | null>;
+    save(snapshot: StorageSnapshot): Promise<void>;
+}
+
+/**
+ * Persistence backed by the preload bridge (`window.api`). Returns null when the
+ * bridge is not available (e.g. running outside Electron or in tests).
+ */
+export const getIpcPersistence = (): StoragePersistence | null => {
+    const api = typeof window !== 'undefined' ? (window as any).api : undefined;
+    if (!api || typeof api.loadStorage !== 'function' || typeof api.saveStorage !== 'function') {
+        return null;
+    }
+
+    return {
+        load: () => api.loadStorage(),
+        save: (snapshot: StorageSnapshot) => api.saveStorage(snapshot)
+    };
+};
+
+export class FileStorage extends MemoryStorage {
+    private persistence: StoragePersistence;
+    private writing: Promise<void> | null = null;
+    private writeQueued = false;
+    // Mutations made inside the current transaction that still need a write
+    private pendingCommit = false;
+
+    constructor(persistence: StoragePersistence) {
+        super();
+        this.persistence = persistence;
+    }
+
+    /**
+     * Load the last persisted snapshot into memory.
+     * Returns true if a snapshot was found.
+     */
+    async load(): Promise<boolean> {
+        try {
+            const snapshot = await this.persistence.load();
+            if (!snapshot) return false;
+            super.importData(snapshot);
+            return true;
+        } catch (error) {
+            console.error('Failed to load persisted tournament storage:', error);
+            return false;
+        }
+    }
+
+    async insert(table: string, valueOrValues: any): Promise<any> {
+        const result = await super.insert(table, valueOrValues);
+        this.persist();
+        return result;
+    }
+
+    async update(table: string, idOrFilter: any, value: any): Promise<boolean> {
+        const result = await super.update(table, idOrFilter, value);
+        if (result) this.persist();
+        return result;
+    }
+
+    async delete(table: string, filter?: any): Promise<boolean> {
+        const result = await super.delete(table, filter);
+        if (result) this.persist();
+        return result;
+    }
+
+    clear(): void {
+        super.clear();
+        this.persist();
+    }
+
+    importData(snapshot: StorageSnapshot): void {
+        super.importData(snapshot);
+        this.persist();
+    }
+
+    commit(): void {
+        super.commit();
+        if (!this.inTransaction() && this.pendingCommit) {
+            this.pendingCommit = false;
+            this.persist();
+        }
+    }
+
+    rollback(): void {
+        super.rollback();
+        // Storage is back to what was persisted before the outermost begin()
+        if (!this.inTransaction()) {
+            this.pendingCommit = false;
+        }
+    }
+
+    /**
+     * Wait until every mutation made so far has been written to disk.
+     */
+    async flush(): Promise<void> {
+        while (this.writing) {
+            await this.writing;
+        }
+    }
+
+    // Writes are coalesced: while one write is in flight, further mutations only
+    // mark the store dirty and the latest snapshot is written once it completes.
+    private persist(): void {
+        if (this.inTransaction()) {
+            this.pendingCommit = true;
+            return;
+        }
+
+        this.writeQueued = true;
+        if (!this.writing) {
+            this.writing = this.drain();
+        }
+    }
+
+    private async drain(): Promise<void> {
+        try {
+            while (this.writeQueued) {
+                this.writeQueued = false;
+                await this.persistence.save(this.exportData());
+            }
+        } catch (error) {
+            console.error('Failed to persist tournament storage:', error);
+        } finally {
+            this.writing = null;
+        }
+    }
+}
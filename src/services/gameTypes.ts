@@ -0,0 +1,120 @@
+// Game types and their scoring rules.
+// A tournament stores the name of its game type in the stage settings
+// (gameType). Names that are not registered, such as free-form names saved by
+// older versions, are scored like Nine Ball.
+
+import { MatchGame } from '../types';
+
+export type ScoringUnit = 'racks' | 'points';
+export type BreakFormat = 'winner' | 'alternate';
+
+export interface GameTypeRules {
+    name: string;
+    unit: ScoringUnit;
+    // What the score counts, e.g. 'racks' or 'balls'
+    unitLabel: string;
+    defaultRaceWinners: number;
+    defaultRaceLosers: number;
+    breakFormat: BreakFormat;
+    callShot: boolean;
+    // Rough minutes of play per unit of the race, used to project match lengths until matches have been timed
+    minutesPerUnit: number;
+    // Error message for a score one player cannot have, or null. race is 0 when none is configured.
+    validateScore: (score: number, race: number) => string | null;
+    // Error message for the final score of a match, or null
+    validateResult: (score1: number, race1: number, score2: number, race2: number) => string | null;
+}
+
+/**
+ * 1 or 2 for the player who has won with this score, or null when the match is not decided.
+ * With races the winner is the only player to reach theirs (with handicaps that can be the
+ * player with fewer racks); without races it is the player with the higher score.
+ */
+export const getRaceWinner = (score1: number, race1: number, score2: number, race2: number): 1 | 2 | null => {
+    if (race1 > 0 && race2 > 0) {
+        const reached1 = score1 >= race1;
+        const reached2 = score2 >= race2;
+        if (reached1 === reached2) return null;
+        return reached1 ? 1 : 2;
+    }
+    if (score1 === score2) return null;
+    return score1 > score2 ? 1 : 2;
+};
+
+/**
+ * Opponent (1 or 2) due to break the next rack, or null before the first rack (the
+ * lag decides) and, with alternating breaks, when the last breaker was not recorded
+ */
+export const getNextBreaker = (racks: MatchGame[], breakFormat: BreakFormat): 1 | 2 | null => {
+    const last = racks
+        .filter(r => r.opponent1?.result === 'win' || r.opponent2?.result === 'win')
+        .sort((a, b) => a.number - b.number)
+        .pop();
+    if (!last) return null;
+    if (breakFormat === 'winner') return last.opponent1?.result === 'win' ? 1 : 2;
+    return last.breaker ? (last.breaker === 1 ? 2 : 1) : null;
+};
+
+// Rules of a game played to a race: the winner reaches their race exactly and the loser
+// stays short of theirs. Games with fouls that cost points allow negative scores.
+const raceRules = (rules: Omit<GameTypeRules, 'validateScore' | 'validateResult'>, allowNegative = false): GameTypeRules => {
+    const target = (race: number) => rules.unit === 'points' ? `${race} ${rules.unitLabel}` : String(race);
+
+    const validateScore = (score: number, race: number): string | null => {
+        if (!Number.isInteger(score)) return 'Scores must be whole numbers.';
+        if (score < 0 && !allowNegative) return 'Scores cannot be negative.';
+        if (race > 0 && score > race) {
+            return rules.unit === 'points'
+                ? `Score exceeds the target of ${target(race)}`
+                : `Score exceeds configured race limit of ${race}`;
+        }
+        return null;
+    };
+
+    const validateResult = (score1: number, race1: number, score2: number, race2: number): string | null => {
+        const invalid = validateScore(score1, race1) || validateScore(score2, race2);
+        if (invalid) return invalid;
+        if (getRaceWinner(score1, race1, score2, race2) !== null) return null;
+        if (race1 > 0 && race2 > 0) {
+            return race1 === race2
+                ? `One player must reach ${target(race1)} and the other must be less than ${race1}.`
+                : `One player must reach their race (${race1} / ${race2}) and the other must be short of theirs.`;
+        }
+        return 'Scores cannot be tied - someone must win!';
+    };
+
+    return { ...rules, validateScore, validateResult };
+};
+
+const NINE_BALL = raceRules({ name: 'Nine Ball', unit: 'racks', unitLabel: 'racks', defaultRaceWinners: 7, defaultRaceLosers: 5, breakFormat: 'winner', callShot: false, minutesPerUnit: 6 });
+
+const registry = new Map<string, GameTypeRules>();
+
+/**
+ * Add a game type, or replace the one with the same name
+ */
+export const registerGameType = (rules: GameTypeRules): void => {
+    registry.set(rules.name.trim().toLowerCase(), rules);
+};
+
+[
+    NINE_BALL,
+    raceRules({ name: 'Ten Ball', unit: 'racks', unitLabel: 'racks', defaultRaceWinners: 7, defaultRaceLosers: 5, breakFormat: 'alternate', callShot: true, minutesPerUnit: 7 }),
+    raceRules({ name: 'Eight Ball', unit: 'racks', unitLabel: 'racks', defaultRaceWinners: 5, defaultRaceLosers: 4, breakFormat: 'alternate', callShot: true, minutesPerUnit: 8 }),
+    // A one-pocket game is won by the first player to make eight balls in their pocket
+    raceRules({ name: 'One Pocket', unit: 'points', unitLabel: 'balls', defaultRaceWinners: 8, defaultRaceLosers: 8, breakFormat: 'alternate', callShot: false, minutesPerUnit: 5 }, true),
+    raceRules({ name: 'Bank Pool', unit: 'racks', unitLabel: 'racks', defaultRaceWinners: 3, defaultRaceLosers: 3, breakFormat: 'alternate', callShot: true, minutesPerUnit: 10 }),
+    // Fouls cost a point, so a straight-pool score can drop below zero
+    raceRules({ name: 'Straight Pool', unit: 'points', unitLabel: 'points', defaultRaceWinners: 100, defaultRaceLosers: 100, breakFormat: 'winner', callShot: true, minutesPerUnit: 0.75 }, true)
+].forEach(registerGameType);
+
+/**
+ * All registered game types, in registration order
+ */
+export const getGameTypes = (): GameTypeRules[] => [...registry.values()];
+
+/**
+ * Rules of a game type by name; unknown names use the Nine Ball rules
+ */
+export const getGameTypeRules = (name?: string): GameTypeRules =>
+    registry.get((name || '').trim().toLowerCase()) || NINE_BALL;
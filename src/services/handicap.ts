@@ -0,0 +1,37 @@
+// Handicapping with a Fargo-style race chart.
+// Each match of a handicapped stage gets a race per opponent, looked up from the
+// rating gap between the two players. Players without a rating play the stage's
+// normal race.
+
+import { RaceChartRow } from '../types';
+
+// A starting point for races around 7; events are expected to adjust it
+export const DEFAULT_RACE_CHART: RaceChartRow[] = [
+    { minGap: 0, higher: 7, lower: 7 },
+    { minGap: 30, higher: 7, lower: 6 },
+    { minGap: 60, higher: 7, lower: 5 },
+    { minGap: 100, higher: 8, lower: 5 },
+    { minGap: 150, higher: 9, lower: 5 },
+    { minGap: 200, higher: 9, lower: 4 }
+];
+
+/**
+ * Chart rows sorted by gap, with invalid rows dropped
+ */
+export const normalizeRaceChart = (chart: RaceChartRow[]): RaceChartRow[] =>
+    chart
+        .filter(row => Number.isFinite(row.minGap) && row.minGap >= 0 && row.higher >= 1 && row.lower >= 1)
+        .map(row => ({ minGap: Math.floor(row.minGap), higher: Math.floor(row.higher), lower: Math.floor(row.lower) }))
+        .sort((a, b) => a.minGap - b.minGap);
+
+/**
+ * Races of two players, in the same order, or null when either player has no
+ * rating or the chart has no row for their gap
+ */
+export const getHandicapRaces = (rating1: number | undefined, rating2: number | undefined, chart: RaceChartRow[] = DEFAULT_RACE_CHART): [number, number] | null => {
+    if (typeof rating1 !== 'number' || typeof rating2 !== 'number') return null;
+    const gap = Math.abs(rating1 - rating2);
+    const row = [...normalizeRaceChart(chart)].reverse().find(r => r.minGap <= gap);
+    if (!row) return null;
+    return rating1 >= rating2 ? [row.higher, row.lower] : [row.lower, row.higher];
+};
@@ -1,8 +1,81 @@
 // In-memory storage implementation for brackets-manager.js
 // This replaces the need for brackets-json-db which requires Node.js fs module
+//
+// Rows are kept in a per-table id map with secondary indexes on the keys that
+// brackets-manager filters by, so lookups stay O(1)-ish on 512-player fields.
+// Like the original array store, select() hands out the stored (live) records
+// and update() replaces a record with a merged copy.
+//
+// Mutations can be grouped in a transaction (begin/commit/rollback). Rolling back
+// restores every table as it was at begin(), so a brackets-manager update that
+// throws halfway through propagating a result leaves no partly advanced matches.
+
+// Plain JSON image of every table, used to persist and restore the storage
+export type StorageSnapshot = { [table: string]: any[] };
+
+// Flat keys with a secondary index
+const INDEXED_KEYS = ['tournament_id', 'stage_id', 'group_id', 'round_id', 'parent_id'];
+
+// Virtual index over opponent1.id / opponent2.id (see selectByOpponent)
+const OPPONENT_INDEX = 'opponent';
+
+interface TableData {
+    rows: Map<number, any>;
+    // Insertion position of every row, so filtered selects keep table order
+    order: Map<number, number>;
+    nextOrder: number;
+    // Never goes back while the storage is open (deletes, rollbacks and imports keep it),
+    // so ids of deleted rows are not handed out again. Snapshots do not carry it: a
+    // reloaded file continues from its largest id.
+    nextId: number;
+    // key -> value -> ids
+    indexes: Map<string, Map<any, Set<number>>>;
+    // Values each row was indexed under (records can be mutated in place by callers)
+    indexed: Map<number, { [key: string]: any[] }>;
+}
+
+const createTable = (): TableData => ({
+    rows: new Map(),
+    order: new Map(),
+    nextOrder: 0,
+    nextId: 1,
+    indexes: new Map(),
+    indexed: new Map()
+});
+
+const isIndexable = (value: any) => value !== undefined && value !== null;
+
+// Index values of a row: one value per flat key, up to two for opponents
+const getIndexValues = (row: any): { [key: string]: any[] } => {
+    const values: { [key: string]: any[] } = {};
+    for (const key of INDEXED_KEYS) {
+        if (isIndexable(row[key])) values[key] = [row[key]];
+    }
+    const opponents = [row.opponent1?.id, row.opponent2?.id].filter(isIndexable);
+    if (opponents.length > 0) values[OPPONENT_INDEX] = opponents;
+    return values;
+};
+
+const matchesFilter = (row: any, filter: any) => Object.keys(filter).every(key => row[key] === filter[key]);
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Updates by filter merge nested objects one level deep, like the reference storages:
+// brackets-manager syncs child games with `{ opponent1: { id } }`, which must keep their results
+const mergeNested = (row: any, value: any) => {
+    const merged = { ...row };
+    for (const key of Object.keys(value)) {
+        merged[key] = isPlainObject(row[key]) && isPlainObject(value[key]) ? { ...row[key], ...value[key] } : value[key];
+    }
+    return merged;
+};
 
 export class MemoryStorage {
-    private data: { [table: string]: any[] } = {};
+    private tables: { [table: string]: TableData } = {};
+    // Table images taken at begin(), innermost transaction last
+    private transactions: StorageSnapshot[] = [];
+    // Callbacks waiting for each open transaction to be kept (see afterCommit)
+    private commitCallbacks: (() => void)[][] = [];
 
     // Select all from table
     async select(table: string): Promise<any[] | null>;
@@ -11,26 +84,21 @@ export class MemoryStorage {
     // Select with filter
     async select(table: string, filter: any): Promise<any[] | null>;
     async select(table: string, idOrFilter?: number | any): Promise<any | any[] | null> {
-        if (!this.data[table]) {
-            this.data[table] = [];
-        }
+        const data = this.getTable(table);
 
         // If no parameter provided, return all
         if (idOrFilter === undefined) {
-            return [...this.data[table]];
+            return [...data.rows.values()];
         }
 
         // If number provided, find by ID
         if (typeof idOrFilter === 'number') {
-            const item = this.data[table].find(item => item.id === idOrFilter);
-            return item || null;
+            return data.rows.get(idOrFilter) || null;
         }
 
         // If object provided, use as filter
         if (typeof idOrFilter === 'object' && idOrFilter !== null) {
-            return this.data[table].filter(item => {
-                return Object.keys(idOrFilter).every(key => item[key] === idOrFilter[key]);
-            });
+            return this.findIds(data, idOrFilter).map(id => data.rows.get(id));
         }
 
         return null;
@@ -64,24 +132,30 @@ export class MemoryStorage {
         return results[results.length - 1];
     }
 
+    // Rows where the participant is opponent1 or opponent2 (matches, match games)
+    async selectByOpponent(table: string, participantId: number): Promise<any[]> {
+        const data = this.getTable(table);
+        const ids = data.indexes.get(OPPONENT_INDEX)?.get(participantId);
+        if (!ids) return [];
+        return this.sortByOrder(data, [...ids])
+            .map(id => data.rows.get(id))
+            .filter(row => row.opponent1?.id === participantId || row.opponent2?.id === participantId);
+    }
+
     // Insert single value (return ID) or multiple values (return boolean)
     async insert(table: string, value: any): Promise<number>;
     async insert(table: string, values: any[]): Promise<boolean>;
     async insert(table: string, valueOrValues: any | any[]): Promise<number | boolean> {
-        if (!this.data[table]) {
-            this.data[table] = [];
-        }
+        const data = this.getTable(table);
 
         // Multiple values
         if (Array.isArray(valueOrValues)) {
             for (const item of valueOrValues) {
                 // Generate ID if not provided
                 if (!item.id) {
-                    const maxId = this.data[table].reduce((max, curr) =>
-                        Math.max(max, curr.id || 0), 0);
-                    item.id = maxId + 1;
+                    item.id = data.nextId;
                 }
-                this.data[table].push({ ...item });
+                this.addRow(data, { ...item });
             }
             return true;
         }
@@ -89,12 +163,10 @@ export class MemoryStorage {
         // Single value
         const item = { ...valueOrValues };
         if (!item.id) {
-            const maxId = this.data[table].reduce((max, curr) =>
-                Math.max(max, curr.id || 0), 0);
-            item.id = maxId + 1;
+            item.id = data.nextId;
         }
 
-        this.data[table].push(item);
+        this.addRow(data, item);
         return item.id;
     }
 
@@ -103,68 +175,250 @@ export class MemoryStorage {
     // Update by filter
     async update(table: string, filter: any, value: any): Promise<boolean>;
     async update(table: string, idOrFilter: number | any, value: any): Promise<boolean> {
-        if (!this.data[table]) {
+        const data = this.tables[table];
+        if (!data) {
             return false;
         }
 
-        let updated = false;
-        this.data[table] = this.data[table].map(item => {
-            let matches = false;
+        // If first param is number, match by ID; otherwise use as filter
+        const ids = typeof idOrFilter === 'number'
+            ? (data.rows.has(idOrFilter) ? [idOrFilter] : [])
+            : this.findIds(data, idOrFilter);
 
-            // If first param is number, match by ID
-            if (typeof idOrFilter === 'number') {
-                matches = item.id === idOrFilter;
-            } else {
-                // Otherwise use as filter
-                matches = Object.keys(idOrFilter).every(key => item[key] === idOrFilter[key]);
-            }
-
-            if (matches) {
-                updated = true;
-                return { ...item, ...value };
-            }
-            return item;
-        });
+        for (const id of ids) {
+            const existing = data.rows.get(id);
+            const merged = typeof idOrFilter === 'number' ? { ...existing, ...value } : mergeNested(existing, value);
+            // The id is the row's key and stays stable
+            const row = { ...merged, id };
+            data.rows.set(id, row);
+            this.reindex(data, row);
+        }
 
-        return updated;
+        return ids.length > 0;
     }
 
     // Delete all from table
     async delete(table: string): Promise<boolean>;
     // Delete by filter
     async delete(table: string, filter: any): Promise<boolean>;
+    // Returns true when the delete succeeded, even if nothing matched: brackets-manager
+    // treats false as a failure (e.g. deleting a stage without match games)
     async delete(table: string, filter?: any): Promise<boolean> {
-        if (!this.data[table]) {
-            return false;
-        }
-
-        const originalLength = this.data[table].length;
+        const data = this.getTable(table);
 
         if (!filter || Object.keys(filter).length === 0) {
-            // Delete all
-            this.data[table] = [];
+            // Delete all (the id counter keeps counting)
+            const nextId = data.nextId;
+            this.tables[table] = { ...createTable(), nextId };
         } else {
             // Delete matching items
-            this.data[table] = this.data[table].filter(item => {
-                return !Object.keys(filter).every(key => item[key] === filter[key]);
-            });
+            for (const id of this.findIds(data, filter)) {
+                this.removeRow(data, id);
+            }
         }
 
-        return this.data[table].length < originalLength;
+        return true;
     }
 
     // Additional method to get all tables (for debugging)
     getTables(): string[] {
-        return Object.keys(this.data);
+        return Object.keys(this.tables);
     }
 
     // Method to get table data (for debugging)
     getTableData(table: string): any[] {
-        return this.data[table] || [];
+        return this.tables[table] ? [...this.tables[table].rows.values()] : [];
     }
 
     // Method to clear all data
     clear(): void {
-        this.data = {};
+        this.tables = {};
+    }
+
+    // Deep copy of every table so callers can serialize it safely
+    exportData(): StorageSnapshot {
+        const snapshot: StorageSnapshot = {};
+        for (const table of Object.keys(this.tables)) {
+            snapshot[table] = [...this.tables[table]!.rows.values()];
+        }
+        return JSON.parse(JSON.stringify(snapshot));
+    }
+
+    // Replace all tables with the contents of a snapshot. Ids handed out since the
+    // snapshot was taken stay used (undo restores older snapshots).
+    importData(snapshot: StorageSnapshot): void {
+        this.restoreTables(JSON.parse(JSON.stringify(snapshot || {})));
+    }
+
+    // Start a transaction. Transactions nest: an inner rollback only undoes the
+    // changes made since the matching begin().
+    begin(): void {
+        this.transactions.push(this.exportData());
+        this.commitCallbacks.push([]);
+    }
+
+    // Keep the changes of the innermost transaction
+    commit(): void {
+        if (!this.transactions.pop()) {
+            throw new Error('No transaction to commit');
+        }
+        const callbacks = this.commitCallbacks.pop() || [];
+        const outer = this.commitCallbacks[this.commitCallbacks.length - 1];
+        if (outer) outer.push(...callbacks);
+        else callbacks.forEach(callback => callback());
+    }
+
+    // Discard the changes of the innermost transaction
+    rollback(): void {
+        const snapshot = this.transactions.pop();
+        if (!snapshot) {
+            throw new Error('No transaction to roll back');
+        }
+        this.commitCallbacks.pop();
+
+        // Ids handed out inside the transaction stay used
+        this.restoreTables(snapshot);
+    }
+
+    inTransaction(): boolean {
+        return this.transactions.length > 0;
+    }
+
+    // Run a callback once the changes made so far are kept: right away outside a
+    // transaction, otherwise at the outermost commit. A rollback drops it.
+    afterCommit(callback: () => void): void {
+        const current = this.commitCallbacks[this.commitCallbacks.length - 1];
+        if (current) current.push(callback);
+        else callback();
+    }
+
+    // Run an action in a transaction: committed when it resolves, rolled back when it throws
+    async transaction<T>(action: () => Promise<T>): Promise<T> {
+        this.begin();
+        try {
+            const result = await action();
+            this.commit();
+            return result;
+        } catch (error) {
+            this.rollback();
+            throw error;
+        }
+    }
+
+    // Wait for pending writes; the in-memory store has none
+    async flush(): Promise<void> {
+        return;
+    }
+
+    // Replace every table with a snapshot, keeping each table's id counter. Tables
+    // the snapshot does not have (first written since) come back empty.
+    private restoreTables(snapshot: StorageSnapshot): void {
+        const nextIds = Object.keys(this.tables).map(table => [table, this.tables[table]!.nextId] as const);
+        this.replaceTables(snapshot);
+        for (const [table, nextId] of nextIds) {
+            const data = this.getTable(table);
+            if (nextId > data.nextId) data.nextId = nextId;
+        }
+    }
+
+    // Rebuild every table (and its indexes) from rows the storage may keep
+    private replaceTables(snapshot: StorageSnapshot): void {
+        this.tables = {};
+        for (const table of Object.keys(snapshot)) {
+            const data = this.getTable(table);
+            for (const row of snapshot[table] || []) {
+                this.addRow(data, row);
+            }
+        }
+    }
+
+    private getTable(table: string): TableData {
+        if (!this.tables[table]) {
+            this.tables[table] = createTable();
+        }
+        return this.tables[table]!;
+    }
+
+    private addRow(data: TableData, row: any): void {
+        // Ids are unique: inserting an existing id replaces that row
+        if (data.rows.has(row.id)) {
+            this.removeRow(data, row.id);
+        }
+        data.rows.set(row.id, row);
+        data.order.set(row.id, data.nextOrder++);
+        if (typeof row.id === 'number' && row.id >= data.nextId) {
+            data.nextId = row.id + 1;
+        }
+        this.reindex(data, row);
+    }
+
+    private removeRow(data: TableData, id: number): void {
+        this.unindex(data, id);
+        data.rows.delete(id);
+        data.order.delete(id);
+    }
+
+    private reindex(data: TableData, row: any): void {
+        this.unindex(data, row.id);
+        const values = getIndexValues(row);
+        for (const key of Object.keys(values)) {
+            let index = data.indexes.get(key);
+            if (!index) {
+                index = new Map();
+                data.indexes.set(key, index);
+            }
+            for (const value of values[key]!) {
+                let ids = index.get(value);
+                if (!ids) {
+                    ids = new Set();
+                    index.set(value, ids);
+                }
+                ids.add(row.id);
+            }
+        }
+        data.indexed.set(row.id, values);
+    }
+
+    private unindex(data: TableData, id: number): void {
+        const previous = data.indexed.get(id);
+        if (!previous) return;
+        for (const key of Object.keys(previous)) {
+            const index = data.indexes.get(key);
+            for (const value of previous[key]!) {
+                const ids = index?.get(value);
+                if (!ids) continue;
+                ids.delete(id);
+                if (ids.size === 0) index!.delete(value);
+            }
+        }
+        data.indexed.delete(id);
+    }
+
+    // Ids of the rows matching a filter, in table order. Uses the most selective
+    // index among the filter keys and checks the remaining keys on each candidate.
+    private findIds(data: TableData, filter: any): number[] {
+        const keys = Object.keys(filter || {});
+        if (keys.length === 0) {
+            return [...data.rows.keys()];
+        }
+
+        if (keys.includes('id')) {
+            const row = data.rows.get(filter.id);
+            return row && matchesFilter(row, filter) ? [filter.id] : [];
+        }
+
+        let candidates: Set<number> | null = null;
+        for (const key of keys) {
+            if (!INDEXED_KEYS.includes(key) || !isIndexable(filter[key])) continue;
+            const ids: Set<number> = data.indexes.get(key)?.get(filter[key]) || new Set<number>();
+            if (!candidates || ids.size < candidates.size) candidates = ids;
+        }
+
+        const ids = candidates ? this.sortByOrder(data, [...candidates]) : [...data.rows.keys()];
+        return ids.filter(id => matchesFilter(data.rows.get(id), filter));
+    }
+
+    private sortByOrder(data: TableData, ids: number[]): number[] {
+        return ids.sort((a, b) => (data.order.get(a) ?? 0) - (data.order.get(b) ?? 0));
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,266 @@
+// Estimated start times for the matches still to be played, and when the event ends.
+// A match is expected to take as long as the matches of the same race length have held
+// their tables so far (from the call to the result). The remaining matches are then played
+// out on the tables in play in the order the scheduler would send them, each one starting once its
+// players are free and rested and the matches that feed it players are over.
+
+import { Match, Stage, TableState } from '../types';
+import { getMatchPositions, getMatchRaces } from '../utils';
+import { getGameTypeRules } from './gameTypes';
+import { getLastCompleted, getSchedulingStrategy } from './scheduler';
+import { getTablesInPlay } from './tableRules';
+
+export interface ProjectionInput {
+    matches: Match[];
+    stages: Stage[];
+    tables: TableState;
+    // The unfinished matches that will send players to each match
+    feeders: Map<number, number[]>;
+    // Time the projection starts from, in ms since the epoch
+    now: number;
+}
+
+export interface MatchProjection {
+    matchId: number;
+    start: number;
+    finish: number;
+}
+
+export interface RaceAverage {
+    race: number;
+    minutes: number;
+    // Number of timed matches behind the average
+    count: number;
+}
+
+export interface Projection {
+    // Every unfinished match that could be placed, by match id
+    matches: Map<number, MatchProjection>;
+    // End of the last projected match, or null when nothing is left to play
+    finish: number | null;
+    averages: RaceAverage[];
+}
+
+// Used when neither a timed match nor a race is available
+const DEFAULT_MATCH_MINUTES = 45;
+
+const MINUTE = 60 * 1000;
+
+const isFinished = (m: Match) => typeof m.status === 'number' ? m.status >= 4 : m.status === 'completed' || m.status === 'archived';
+
+// A BYE side is null rather than an opponent still to be decided
+const isByeMatch = (m: Match) => m.opponent1 === null || m.opponent2 === null;
+
+const playerIds = (m: Match): number[] =>
+    [m.opponent1?.id, m.opponent2?.id].filter((id): id is number => id != null);
+
+// The longer of the two races of a match; handicapped matches end when either player gets there
+const raceOf = (match: Match, matches: Match[], stages: Stage[]): number =>
+    Math.max(...getMatchRaces(match, matches, stages.find(s => s.id === match.stage_id)));
+
+/**
+ * Average minutes per race length over the matches timed so far, shortest race first
+ */
+export const getRaceAverages = (matches: Match[], stages: Stage[]): RaceAverage[] => {
+    const totals = new Map<number, { ms: number; count: number }>();
+    matches
+        .filter(m => isFinished(m) && m.durationMs && m.durationMs > 0)
+        .forEach(m => {
+            const race = raceOf(m, matches, stages);
+            const total = totals.get(race) || { ms: 0, count: 0 };
+            totals.set(race, { ms: total.ms + m.durationMs!, count: total.count + 1 });
+        });
+    return [...totals.entries()]
+        .map(([race, { ms, count }]) => ({ race, minutes: ms / count / MINUTE, count }))
+        .sort((a, b) => a.race - b.race);
+};
+
+/**
+ * Expected length of a match in ms. Race lengths that have not been timed yet are scaled
+ * from the timed ones, and before any match has been timed the game type's pace is used.
+ */
+export const getExpectedDuration = (match: Match, matches: Match[], stages: Stage[], averages: RaceAverage[]): number => {
+    const race = raceOf(match, matches, stages);
+    const measured = averages.find(a => a.race === race);
+    if (measured) return measured.minutes * MINUTE;
+
+    const timed = averages.filter(a => a.race > 0);
+    if (race > 0 && timed.length > 0) {
+        const count = timed.reduce((sum, a) => sum + a.count, 0);
+        const minutesPerUnit = timed.reduce((sum, a) => sum + a.minutes / a.race * a.count, 0) / count;
+        return race * minutesPerUnit * MINUTE;
+    }
+    const stage = stages.find(s => s.id === match.stage_id);
+    const rules = getGameTypeRules((stage?.settings as any)?.gameType);
+    return (race > 0 ? race * rules.minutesPerUnit : DEFAULT_MATCH_MINUTES) * MINUTE;
+};
+
+/**
+ * The matches that will send players to each unfinished match still missing one,
+ * found from bracket positions the way brackets-manager links its matches
+ */
+export const getFeeders = (matches: Match[], stages: Stage[]): Map<number, number[]> => {
+    const positions = getMatchPositions(matches);
+    const positionOf = (m: Match) => positions.get(m.id) || { groupNumber: 0, roundNumber: 0 };
+    // Matches by stage, group number and round number, in match number order
+    const rounds = new Map<string, Match[]>();
+    const lastRound = new Map<string, number>();
+    for (const m of matches) {
+        const { groupNumber, roundNumber } = positionOf(m);
+        const group = `${m.stage_id}:${groupNumber}`;
+        const key = `${group}:${roundNumber}`;
+        if (!rounds.has(key)) rounds.set(key, []);
+        rounds.get(key)!.push(m);
+        lastRound.set(group, Math.max(lastRound.get(group) || 0, roundNumber));
+    }
+    const roundOf = (stageId: number, group: number, round: number) => rounds.get(`${stageId}:${group}:${round}`) || [];
+    const find = (stageId: number, group: number, round: number, number: number | undefined) =>
+        roundOf(stageId, group, round).find(m => m.number === number);
+    const lastRoundOf = (stageId: number, group: number) => lastRound.get(`${stageId}:${group}`) || 0;
+
+    const previous = (m: Match, stage: Stage): (Match | undefined)[] => {
+        const { groupNumber: group, roundNumber: round } = positionOf(m);
+        const skipFirstRound = Boolean(stage.settings.skipFirstRound);
+        if (group === 1) {
+            return round === 1 ? [] : [find(m.stage_id, 1, round - 1, m.number * 2 - 1), find(m.stage_id, 1, round - 1, m.number * 2)];
+        }
+        if (stage.type === 'single_elimination') {
+            // The consolation final is played by the losers of the semifinals
+            return roundOf(m.stage_id, 1, lastRoundOf(m.stage_id, 1) - 1);
+        }
+        if (group === 2) {
+            if ((skipFirstRound && round === 1) || isByeMatch(m)) return [];
+            const roundWb = Math.ceil((round + 1) / 2) - (skipFirstRound ? 1 : 0);
+            if (round === 1) return [find(m.stage_id, 1, roundWb, m.opponent1?.position), find(m.stage_id, 1, roundWb, m.opponent2?.position)];
+            if (round % 2 === 1) return [find(m.stage_id, 2, round - 1, m.number * 2 - 1), find(m.stage_id, 2, round - 1, m.number * 2)];
+            return [find(m.stage_id, 1, roundWb, m.opponent1?.position), find(m.stage_id, 2, round - 1, m.number)];
+        }
+        if (m.number === 2) {
+            const last = lastRoundOf(m.stage_id, 2);
+            return [...roundOf(m.stage_id, 2, last - 1), ...roundOf(m.stage_id, 2, last)];
+        }
+        if (round > 1) return [find(m.stage_id, group, round - 1, 1)];
+        return [find(m.stage_id, 1, lastRoundOf(m.stage_id, 1), 1), find(m.stage_id, 2, lastRoundOf(m.stage_id, 2), 1)];
+    };
+
+    const feeders = new Map<number, number[]>();
+    for (const m of matches) {
+        if (isFinished(m) || (m.opponent1?.id != null && m.opponent2?.id != null)) continue;
+        const stage = stages.find(s => s.id === m.stage_id);
+        if (!stage || (stage.type !== 'single_elimination' && stage.type !== 'double_elimination')) continue;
+        feeders.set(m.id, previous(m, stage).filter((f): f is Match => f !== undefined).map(f => f.id));
+    }
+    return feeders;
+};
+
+/**
+ * Project a start and finish time for every match still to be played
+ */
+export const projectTournament = ({ matches, stages, tables, feeders, now }: ProjectionInput): Projection => {
+    const averages = getRaceAverages(matches, stages);
+    const durations = new Map<number, number>();
+    const durationOf = (m: Match) => {
+        if (!durations.has(m.id)) durations.set(m.id, getExpectedDuration(m, matches, stages, averages));
+        return durations.get(m.id)!;
+    };
+    const projected = new Map<number, MatchProjection>();
+    const inPlay = getTablesInPlay(tables);
+    const tableFree = inPlay.map(() => now);
+    // When each player is free and rested for their next match
+    const restMs = (tables.minRestMinutes || 0) * MINUTE;
+    const playerFree = new Map([...getLastCompleted(matches)].map(([id, completedAt]) => [id, completedAt + restMs]));
+    // When the players coming out of each projected match are rested
+    const restedAfter = new Map<number, number>();
+    // Matches projected onto a table, while they may still be on it
+    let running: Match[] = [];
+
+    const place = (match: Match, start: number, finish: number) => {
+        projected.set(match.id, { matchId: match.id, start, finish });
+        const rested = finish + (isByeMatch(match) ? 0 : restMs);
+        restedAfter.set(match.id, rested);
+        playerIds(match).forEach(id => playerFree.set(id, Math.max(playerFree.get(id) || now, rested)));
+        if (finish > start) running.push(match);
+    };
+
+    // Matches on a table finish when a match of their length would, or now if they are running late
+    const unfinished = matches.filter(m => !isFinished(m));
+    const unfinishedIds = new Set(unfinished.map(m => m.id));
+    unfinished
+        .filter(m => m.table != null && inPlay.includes(m.table))
+        .forEach(m => {
+            const start = m.calledAt ?? now;
+            const finish = Math.max(now, start + durationOf(m));
+            tableFree[inPlay.indexOf(m.table!)] = finish;
+            place(m, start, finish);
+        });
+
+    const pending = new Set(unfinished.filter(m => !projected.has(m.id)));
+    // When a match can start as far as its players are concerned, or null while a match feeding it has no projection yet
+    const readyAt = (m: Match): number | null => {
+        let ready = now;
+        for (const id of feeders.get(m.id) || []) {
+            const rested = restedAfter.get(id);
+            if (rested !== undefined) ready = Math.max(ready, rested);
+            else if (unfinishedIds.has(id)) return null;
+        }
+        return playerIds(m).reduce((latest, id) => Math.max(latest, playerFree.get(id) || now), ready);
+    };
+    // Matches whose players are known to be free by a given time; ready times only change
+    // for the matches a placed match feeds or shares a player with
+    const ready = new Map<Match, number>();
+    const refresh = (m: Match) => {
+        const at = readyAt(m);
+        if (at === null) ready.delete(m);
+        else ready.set(m, at);
+    };
+    pending.forEach(refresh);
+    const fed = new Map<number, Match[]>();
+    const byPlayer = new Map<number, Match[]>();
+    const add = (map: Map<number, Match[]>, id: number, m: Match) => {
+        if (!map.has(id)) map.set(id, []);
+        map.get(id)!.push(m);
+    };
+    pending.forEach(m => {
+        (feeders.get(m.id) || []).forEach(id => add(fed, id, m));
+        playerIds(m).forEach(id => add(byPlayer, id, m));
+    });
+    const settle = (match: Match) => {
+        pending.delete(match);
+        ready.delete(match);
+        [...(fed.get(match.id) || []), ...playerIds(match).flatMap(id => byPlayer.get(id) || [])]
+            .filter(m => pending.has(m))
+            .forEach(refresh);
+    };
+
+    while (ready.size > 0 && tableFree.length > 0) {
+        // BYEs pass their player on without a table
+        let earliest = Infinity;
+        let bye: Match | undefined;
+        for (const [m, at] of ready) {
+            earliest = Math.min(earliest, at);
+            if (!bye && isByeMatch(m)) bye = m;
+        }
+        if (bye) {
+            const at = ready.get(bye)!;
+            place(bye, at, at);
+            settle(bye);
+            continue;
+        }
+
+        const table = tableFree.indexOf(Math.min(...tableFree));
+        const start = Math.max(tableFree[table]!, earliest);
+        const candidates: Match[] = [];
+        for (const [m, at] of ready) {
+            if (at <= start) candidates.push(m);
+        }
+        running = running.filter(m => projected.get(m.id)!.finish > start);
+        const match = getSchedulingStrategy(tables.scheduler).rank(candidates, { allMatches: matches, stages, onTables: running })[0]!;
+        const finish = start + durationOf(match);
+        tableFree[table] = finish;
+        place(match, start, finish);
+        settle(match);
+    }
+
+    const finishes = [...projected.values()].map(p => p.finish);
+    return { matches: projected, finish: finishes.length > 0 ? Math.max(...finishes) : null, averages };
+};
@@ -0,0 +1,245 @@
+// Choosing which waiting match goes to a free table.
+// A scheduling strategy ranks the matches that can be played right now; the
+// engine leaves out matches with a player who is already at a table and fills
+// free tables one at a time, so every pick sees the tables filled before it.
+// Players who have just finished a match get a minimum rest before they are sent out
+// again, unless nothing else could be played and no table would be in use.
+// Auto-assignment and the "Assign Next" button both go through this engine.
+
+import { Match, Stage } from '../types';
+import { getMatchPositions, isPoolMatch, MatchPosition } from '../utils';
+
+export interface SchedulerContext {
+    // Every match of the tournament, for stage-relative rounds
+    allMatches: Match[];
+    stages?: Stage[];
+    // Matches on a table; their players are not available
+    onTables: Match[];
+    // Minimum rest between a player's matches, and the time of the pick (defaults to now)
+    minRestMinutes?: number;
+    now?: number;
+    // Whether a match may be played on a table (see tableRules); any table when left out
+    canPlayOn?: (match: Match, table: number) => boolean;
+}
+
+export interface SchedulingStrategy {
+    name: string;
+    label: string;
+    description: string;
+    // The candidates in the order they should go to a table, best first
+    rank: (candidates: Match[], context: SchedulerContext) => Match[];
+}
+
+export interface PlannedAssignment {
+    table: number;
+    match: Match;
+}
+
+export const DEFAULT_SCHEDULING_STRATEGY = 'bracket_flow';
+
+// TUNABLE: Increase >1 to make Losers Bracket matches more aggressive (higher priority)
+// Decrease <1 to make losers less aggressive.
+const LB_AGGRESSIVENESS = 1.25;
+
+type Bracket = 'WB' | 'LB' | 'POOL' | 'F';
+
+// Bracket side and friendly round of a match, as shown in the round labels.
+// Round-robin pools (and Swiss) have no bracket sides and are handled like the winners side.
+const getSlot = (match: Match, positions: Map<number, MatchPosition>, stages?: Stage[]) => {
+    const position = positions.get(match.id) || { groupNumber: match.group_id, roundNumber: match.round_id };
+    if (isPoolMatch(match, stages)) return { group: 1, bracket: 'POOL' as Bracket, round: position.roundNumber };
+    const bracket: Bracket = position.groupNumber === 1 ? 'WB' : position.groupNumber === 2 ? 'LB' : 'F';
+    return { group: position.groupNumber, bracket, round: bracket === 'F' ? 0 : position.roundNumber };
+};
+
+const playerIds = (match: Match): number[] =>
+    [match.opponent1?.id, match.opponent2?.id].filter((id): id is number => id != null);
+
+const byNumber = (a: Match, b: Match) => (a.number || 0) - (b.number || 0) || a.id - b.id;
+
+/**
+ * Matches in the order they became playable: earlier stages and rounds first
+ */
+const fifo: SchedulingStrategy = {
+    name: 'fifo',
+    label: 'First come, first served',
+    description: 'Matches go out in bracket order, regardless of bracket side.',
+    rank: (candidates, { allMatches }) => {
+        const positions = getMatchPositions(allMatches);
+        const roundOf = (m: Match) => positions.get(m.id)?.roundNumber ?? m.round_id;
+        return [...candidates].sort((a, b) => a.stage_id - b.stage_id || roundOf(a) - roundOf(b) || a.id - b.id);
+    }
+};
+
+/*
+ * DOUBLE ELIMINATION TOURNAMENT FLOW
+ *
+ * 1. WINNERS BRACKET PRIORITY: WB matches form the foundation - they must progress to unlock LB matches
+ * 2. PARALLEL EXECUTION: LB matches can run simultaneously with WB matches when dependencies allow
+ * 3. DEPENDENCY MANAGEMENT: LB matches only become available after their WB dependencies complete
+ *
+ * PRIORITY ORDER (for any tournament size):
+ * 1. Grand Finals - Highest priority when available
+ * 2. Winners Bracket - Foundation matches, prioritized by round (WB1 → WB2 → WB3...)
+ * 3. Parallel Losers Bracket - LB matches that can run alongside WB matches
+ * 4. Sequential Losers Bracket - LB matches that must wait for WB completion
+ *
+ * PARALLEL EXECUTION RULES:
+ * - LB1 must wait for WB1 to complete (needs WB1 losers)
+ * - LB2 can run parallel with WB2 (has WB1 losers vs LB1 winners)
+ * - LB3 must wait for WB2 to complete (needs WB2 losers)
+ * - LB4 can run parallel with WB3 (has WB2 losers vs LB3 winners)
+ * - Pattern: Even LB rounds can run parallel, odd LB rounds must wait
+ */
+const bracketFlow: SchedulingStrategy = {
+    name: 'bracket_flow',
+    label: 'Bracket flow',
+    description: 'Keeps the winners bracket moving and runs losers rounds alongside it where they can.',
+    rank: (candidates, { allMatches, stages, onTables }) => {
+        const positions = getMatchPositions(allMatches);
+        const slots = new Map(candidates.map(m => [m, getSlot(m, positions, stages)]));
+        const slotOf = (m: Match) => slots.get(m) || getSlot(m, positions, stages);
+        // Winners rounds on a table or waiting to go
+        const wbRounds = (list: Match[]) => new Set(list.map(slotOf).filter(s => s.bracket === 'WB').map(s => s.round));
+        const wbOnTables = wbRounds(onTables);
+        const wbWaiting = wbRounds(candidates);
+
+        // Higher score = higher priority; finals outrank everything
+        const scoreMatch = (m: Match): number => {
+            const { group, round } = slotOf(m);
+            if (group >= 3) return 100000 - (group === 3 ? 0 : 1000);
+            if (group === 1) {
+                // Winners: earlier rounds higher priority
+                return 80000 - round * 1000 - (m.number || 0);
+            }
+            if (round === 1) return Math.round((20000 - (m.number || 0)) * LB_AGGRESSIVENESS);
+
+            if (round % 2 === 0) {
+                const correspondingWBRound = (round / 2) + 1;
+                if (wbOnTables.has(correspondingWBRound) || wbWaiting.has(correspondingWBRound)) {
+                    return Math.round((79000 - correspondingWBRound * 1000 - (m.number || 0)) * LB_AGGRESSIVENESS);
+                }
+                return Math.round((40000 - round * 100) * LB_AGGRESSIVENESS);
+            }
+
+            const correspondingWBRound = Math.ceil(round / 2);
+            const wbInPlay = wbOnTables.has(correspondingWBRound);
+            return Math.round(((wbInPlay ? 70000 : 30000) - round * 100 - (m.number || 0)) * LB_AGGRESSIVENESS);
+        };
+
+        // Score first, then friendly round number, then match number
+        return candidates
+            .map(m => ({ m, score: scoreMatch(m), round: slotOf(m).round }))
+            .sort((a, b) => b.score - a.score || a.round - b.round || byNumber(a.m, b.m))
+            .map(({ m }) => m);
+    }
+};
+
+/**
+ * Players who have played the fewest matches go first, so nobody sits out for long
+ * while others play back to back. Ties follow the bracket flow.
+ */
+const minimizeIdle: SchedulingStrategy = {
+    name: 'minimize_idle',
+    label: 'Minimize idle players',
+    description: 'Players who have played the fewest matches so far go first.',
+    rank: (candidates, context) => {
+        const played = new Map<number, number>();
+        context.allMatches
+            .filter(m => typeof m.status === 'number' && m.status >= 4)
+            .forEach(m => playerIds(m).forEach(id => played.set(id, (played.get(id) || 0) + 1)));
+        const playedOf = (m: Match) => playerIds(m).reduce((sum, id) => sum + (played.get(id) || 0), 0);
+        const flow = bracketFlow.rank(candidates, context);
+        return [...flow].sort((a, b) => playedOf(a) - playedOf(b) || flow.indexOf(a) - flow.indexOf(b));
+    }
+};
+
+const registry = new Map<string, SchedulingStrategy>();
+
+/**
+ * Add a scheduling strategy, or replace the one with the same name
+ */
+export const registerSchedulingStrategy = (strategy: SchedulingStrategy): void => {
+    registry.set(strategy.name, strategy);
+};
+
+[bracketFlow, fifo, minimizeIdle].forEach(registerSchedulingStrategy);
+
+/**
+ * All registered scheduling strategies, in registration order
+ */
+export const getSchedulingStrategies = (): SchedulingStrategy[] => [...registry.values()];
+
+/**
+ * Strategy by name; unknown names use the bracket flow
+ */
+export const getSchedulingStrategy = (name?: string): SchedulingStrategy =>
+    registry.get(name || '') || bracketFlow;
+
+/**
+ * When each participant last finished a match they played, by participant id.
+ * Forfeited matches were not played and give no rest.
+ */
+export const getLastCompleted = (matches: Match[]): Map<number, number> => {
+    const last = new Map<number, number>();
+    matches
+        .filter(m => m.completedAt && !m.opponent1?.forfeit && !m.opponent2?.forfeit)
+        .forEach(m => playerIds(m).forEach(id => last.set(id, Math.max(last.get(id) || 0, m.completedAt!))));
+    return last;
+};
+
+/**
+ * Time left, in ms, before both players of a match have had their minimum rest (0 when they have)
+ */
+export const getRestRemaining = (match: Match, context: SchedulerContext, lastCompleted = getLastCompleted(context.allMatches)): number => {
+    const restMs = (context.minRestMinutes || 0) * 60 * 1000;
+    if (restMs <= 0) return 0;
+    const now = context.now ?? Date.now();
+    return Math.max(0, ...playerIds(match).map(id => (lastCompleted.get(id) ?? -Infinity) + restMs - now));
+};
+
+/**
+ * Waiting matches that can go to a table now: both players are known and neither is at a table
+ */
+export const getAssignableMatches = (waiting: Match[], onTables: Match[]): Match[] => {
+    const busy = new Set(onTables.flatMap(playerIds));
+    return waiting.filter(m => playerIds(m).length === 2 && !playerIds(m).some(id => busy.has(id)));
+};
+
+/**
+ * The match the strategy would send to the next free table, or null when none can go
+ */
+export const pickNextMatch = (waiting: Match[], context: SchedulerContext, strategy?: string): Match | null => {
+    const candidates = getAssignableMatches(waiting, context.onTables);
+    if (candidates.length === 0) return null;
+    // Resting players only go out when no other match can and every table would sit idle
+    const lastCompleted = getLastCompleted(context.allMatches);
+    const rested = candidates.filter(m => getRestRemaining(m, context, lastCompleted) === 0);
+    const pool = rested.length > 0 || context.onTables.length > 0 ? rested : candidates;
+    if (pool.length === 0) return null;
+    return getSchedulingStrategy(strategy).rank(pool, context)[0] || null;
+};
+
+/**
+ * Matches for the free tables, in table order. Each pick counts the matches placed
+ * before it as being on a table, and only matches allowed on the table are considered.
+ */
+export const planAssignments = (
+    waiting: Match[],
+    freeTables: number[],
+    context: SchedulerContext,
+    strategy?: string
+): PlannedAssignment[] => {
+    const plan: PlannedAssignment[] = [];
+    let remaining = [...waiting];
+    let onTables = [...context.onTables];
+    for (const table of freeTables) {
+        const allowed = context.canPlayOn ? remaining.filter(m => context.canPlayOn!(m, table)) : remaining;
+        const match = pickNextMatch(allowed, { ...context, onTables }, strategy);
+        if (!match) continue;
+        plan.push({ table, match });
+        remaining = remaining.filter(m => m.id !== match.id);
+        onTables = [...onTables, match];
+    }
+    return plan;
+};
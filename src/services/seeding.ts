@@ -0,0 +1,115 @@
+// Seeding of elimination brackets.
+// Entrants are seeded by a random draw, by Fargo rating or by hand, and seeds are
+// placed with the standard bracket order (1 vs N, top seeds in different halves).
+// A playoff is seeded from round-robin pool results: pool winners get the best
+// seeds, then the runners-up and so on; within a place better records seed higher.
+// Players from the same pool are kept out of each other's first-round match
+// wherever a swap within the bracket allows it.
+
+import { Player, SeedingMode } from '../types';
+import { shuffleArray } from '../utils';
+import { PoolStandings } from './standings';
+
+export interface PoolQualifier {
+    participantId: number;
+    groupNumber: number;
+    // 1-based finishing place within the pool
+    place: number;
+    wins: number;
+    rackDifferential: number;
+}
+
+/**
+ * The top players of every pool, in pool order
+ */
+export const getPoolQualifiers = (standings: PoolStandings[], perGroup: number): PoolQualifier[] => {
+    return standings.flatMap(pool => pool.rows.slice(0, Math.max(0, perGroup)).map((row, i) => ({
+        participantId: row.participantId,
+        groupNumber: pool.groupNumber,
+        place: i + 1,
+        wins: row.wins,
+        rackDifferential: row.rackDifferential
+    })));
+};
+
+/**
+ * Seed numbers in bracket slot order, e.g. size 8 -> [1, 8, 4, 5, 2, 7, 3, 6].
+ * Slots 2k and 2k+1 meet in the first round; top seeds end up in different halves.
+ */
+export const getBracketOrder = (size: number): number[] => {
+    let order = [1];
+    while (order.length < size) {
+        const length = order.length * 2;
+        order = order.flatMap(seed => [seed, length + 1 - seed]);
+    }
+    return order;
+};
+
+/**
+ * Players in seed order: a random draw, best rating first (unrated players last,
+ * in entry order), or exactly as entered
+ */
+export const orderPlayersForSeeding = <T extends Pick<Player, 'effectiveRating'>>(players: T[], mode: SeedingMode): T[] => {
+    if (mode === 'random') return shuffleArray(players);
+    if (mode === 'manual') return [...players];
+    const ratingOf = (p: T) => typeof p.effectiveRating === 'number' ? p.effectiveRating : -Infinity;
+    return [...players].sort((a, b) => ratingOf(b) - ratingOf(a));
+};
+
+/**
+ * Entrants (given in seed order) in bracket slot order, padded to a power of
+ * two with BYEs, which go to the top seeds. Meant for the 'natural' seed ordering.
+ */
+export const placeSeeds = <T>(seeded: T[]): (T | null)[] => {
+    const size = Math.pow(2, Math.ceil(Math.log2(Math.max(2, seeded.length))));
+    return getBracketOrder(size).map(seed => seeded[seed - 1] ?? null);
+};
+
+/**
+ * Participant ids (null for BYEs) in bracket slot order, padded to a power of
+ * two. Meant for a stage created with the 'natural' seed ordering.
+ */
+export const seedFromPools = (qualifiers: PoolQualifier[]): (number | null)[] => {
+    const seeded = [...qualifiers].sort((a, b) =>
+        (a.place - b.place) ||
+        (b.wins - a.wins) ||
+        (b.rackDifferential - a.rackDifferential) ||
+        (a.groupNumber - b.groupNumber)
+    );
+
+    const slots = placeSeeds(seeded);
+    separatePools(slots, seeded);
+    return slots.map(q => q ? q.participantId : null);
+};
+
+const meetsPoolmate = (slots: (PoolQualifier | null)[], slot: number): boolean => {
+    const own = slots[slot];
+    const opponent = slots[slot ^ 1];
+    return Boolean(own && opponent && own.groupNumber === opponent.groupNumber);
+};
+
+// Swap the lower seed of every same-pool pairing with another player, preferring
+// players who finished in the same place so the seeding changes as little as possible
+const separatePools = (slots: (PoolQualifier | null)[], seeded: PoolQualifier[]): void => {
+    const seedOf = (q: PoolQualifier | null | undefined) => q ? seeded.indexOf(q) : Number.MAX_SAFE_INTEGER;
+
+    for (let slot = 0; slot < slots.length; slot += 2) {
+        if (!meetsPoolmate(slots, slot)) continue;
+
+        const lower = seedOf(slots[slot]) > seedOf(slots[slot + 1]) ? slot : slot + 1;
+        const mover = slots[lower]!;
+        const candidates = slots
+            .map((q, i) => ({ q, i }))
+            .filter(({ q, i }) => q && (i >> 1) !== (slot >> 1))
+            .sort((a, b) =>
+                (Number(a.q!.place !== mover.place) - Number(b.q!.place !== mover.place)) ||
+                (Math.abs(seedOf(a.q) - seedOf(mover)) - Math.abs(seedOf(b.q) - seedOf(mover)))
+            );
+
+        for (const { i } of candidates) {
+            [slots[lower], slots[i]] = [slots[i]!, slots[lower]!];
+            if (!meetsPoolmate(slots, lower) && !meetsPoolmate(slots, i)) break;
+            [slots[lower], slots[i]] = [slots[i]!, slots[lower]!];
+        }
+    }
+};
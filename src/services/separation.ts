@@ -0,0 +1,141 @@
+// Separation of players who share a club, city or state.
+// Bracket slots 2k and 2k+1 meet in the first winners round, slots in the same
+// block of four can meet in the second, and so on. The losers of neighbouring
+// first-round matches meet in the first losers round, so spreading players over
+// the winners bracket also keeps them apart on the losers side. Players only
+// move within their seed band (1, 2, 3-4, 5-8, ...) and BYEs stay in place,
+// so a seeded bracket keeps its shape.
+
+import { Player } from '../types';
+import { getBracketOrder, placeSeeds } from './seeding';
+
+export type SeparationKey = 'club' | 'city' | 'state';
+
+export interface SeparationConflict {
+    // The shared club, city or state
+    value: string;
+    players: [string, string];
+    bracket: 'winners' | 'losers';
+    // 1-based round of that bracket in which the two can meet
+    round: number;
+}
+
+const valueOf = (player: Pick<Player, SeparationKey>, key: SeparationKey) => (player[key] || '').trim().toLowerCase();
+
+// Round of the winners bracket in which the players of two slots can first meet
+const meetingRound = (a: number, b: number) => Math.floor(Math.log2(a ^ b)) + 1;
+
+/**
+ * Rearrange bracket slots (in slot order, null for BYEs) so players with the
+ * same value meet as late as possible. With seeded slots, players only move
+ * within their seed band; otherwise any player may take any slot.
+ */
+export const separateSlots = <T extends Pick<Player, SeparationKey>>(slots: (T | null)[], key: SeparationKey, seeded: boolean): (T | null)[] => {
+    const rounds = Math.log2(slots.length);
+    const order = getBracketOrder(slots.length);
+    const bandOf = (slot: number) => seeded ? Math.ceil(Math.log2(order[slot]!)) : 0;
+
+    // Number values so players can be counted per block of the bracket
+    const values = new Map<string, number>();
+    const valueIndex = slots.map(player => {
+        const value = player ? valueOf(player, key) : '';
+        if (!value) return -1;
+        if (!values.has(value)) values.set(value, values.size);
+        return values.get(value)!;
+    });
+    const groupSize = new Int32Array(values.size);
+    valueIndex.forEach(value => { if (value >= 0) groupSize[value]!++; });
+    // counts[level][block * values + value]: players of a value in each block of 2^level slots
+    const counts = Array.from({ length: rounds + 1 }, (_, level) => new Int32Array((slots.length >> level) * values.size));
+
+    // Players meeting in round r cost rounds + 1 - r, so earlier meetings cost more
+    const costAt = (slot: number, value: number): number => {
+        let cost = 0;
+        for (let level = 1; level <= rounds; level++) {
+            const inBlock = counts[level]![(slot >> level) * values.size + value]!;
+            const inHalf = counts[level - 1]![(slot >> (level - 1)) * values.size + value]!;
+            cost += (inBlock - inHalf) * (rounds + 1 - level);
+        }
+        return cost;
+    };
+
+    // Free slots per band, in slot order
+    const freeSlots = new Map<number, number[]>();
+    slots.forEach((player, slot) => {
+        if (!player) return;
+        const band = bandOf(slot);
+        if (!freeSlots.has(band)) freeSlots.set(band, []);
+        freeSlots.get(band)!.push(slot);
+    });
+
+    // Take the groups in turn, in proportion to their size, so the last players
+    // of a big group are not left with whatever slots remain
+    const taken = new Int32Array(values.size);
+    const queue = slots
+        .map((player, slot) => {
+            const value = valueIndex[slot]!;
+            const share = value < 0 ? Infinity : taken[value]!++ / groupSize[value]!;
+            return { player, slot, value, share };
+        })
+        .filter(entry => entry.player)
+        .sort((a, b) => (a.share - b.share) || ((groupSize[b.value] ?? 0) - (groupSize[a.value] ?? 0)));
+
+    const result: (T | null)[] = slots.map(() => null);
+    for (const { player, slot, value } of queue) {
+        const free = freeSlots.get(bandOf(slot))!;
+        let best = 0;
+        if (value >= 0) {
+            let bestCost = Infinity;
+            free.forEach((candidate, i) => {
+                const cost = costAt(candidate, value);
+                if (cost < bestCost) {
+                    bestCost = cost;
+                    best = i;
+                }
+            });
+        }
+        const [target] = free.splice(best, 1);
+        result[target!] = player;
+        if (value < 0) continue;
+        for (let level = 0; level <= rounds; level++) {
+            counts[level]![(target! >> level) * values.size + value]!++;
+        }
+    }
+    return result;
+};
+
+/**
+ * Pairs of players with the same value who can meet in the first winners round
+ * or, in a double-elimination bracket, the first losers round
+ */
+export const findSeparationConflicts = <T extends Pick<Player, 'name' | SeparationKey>>(slots: (T | null)[], key: SeparationKey, doubleElimination: boolean): SeparationConflict[] => {
+    const conflicts: SeparationConflict[] = [];
+    const values = slots.map(player => player ? valueOf(player, key) : '');
+    for (let a = 0; a < slots.length; a++) {
+        for (let b = a + 1; b < slots.length; b++) {
+            const first = slots[a];
+            const second = slots[b];
+            if (!first || !second || !values[a] || values[a] !== values[b]) continue;
+
+            const round = meetingRound(a, b);
+            const players: [string, string] = [first.name, second.name];
+            const shared = (first[key] || '').trim();
+            if (round === 1) {
+                conflicts.push({ value: shared, players, bracket: 'winners', round: 1 });
+            } else if (round === 2 && doubleElimination && slots[a ^ 1] && slots[b ^ 1]) {
+                // Both losing their first match drops them into the same first losers match
+                conflicts.push({ value: shared, players, bracket: 'losers', round: 1 });
+            }
+        }
+    }
+    return conflicts;
+};
+
+/**
+ * Conflicts left after separating a field given in seed order (entry order for
+ * a random draw, where the count rarely depends on the draw)
+ */
+export const getSeparationReport = <T extends Pick<Player, 'name' | SeparationKey>>(players: T[], key: SeparationKey, seeded: boolean, doubleElimination: boolean): SeparationConflict[] => {
+    if (players.length < 2) return [];
+    return findSeparationConflicts(separateSlots(placeSeeds(players), key, seeded), key, doubleElimination);
+};
@@ -0,0 +1,120 @@
+// Standings of round-robin pools.
+// Players are ranked by match wins; players level on wins are separated by their
+// head-to-head results against each other, then by rack differential and racks won.
+
+import { BracketsData, Match, WithdrawalReason } from '../types';
+
+export interface StandingRow {
+    participantId: number;
+    name: string;
+    played: number;
+    wins: number;
+    losses: number;
+    draws: number;
+    racksWon: number;
+    racksLost: number;
+    rackDifferential: number;
+    // 1-based; players that cannot be separated share a rank
+    rank: number;
+    // Set for players who left the event; their remaining matches count as lost
+    withdrawn?: WithdrawalReason;
+}
+
+// Final place of a player in an elimination bracket
+export interface Placing {
+    participantId: number;
+    name: string;
+    rank: number;
+    withdrawn?: WithdrawalReason;
+}
+
+export interface PoolStandings {
+    groupId: number;
+    // 1-based pool number within the stage
+    groupNumber: number;
+    rows: StandingRow[];
+}
+
+const isPlayed = (match: Match) =>
+    match.opponent1?.result !== undefined || match.opponent2?.result !== undefined;
+
+/**
+ * Standings of every pool of a round-robin stage, best player first
+ */
+export const computeStandings = (data: BracketsData, stageId: number): PoolStandings[] => {
+    const groups = data.group.filter(g => g.stage_id === stageId).sort((a, b) => a.number - b.number);
+
+    return groups.map(group => {
+        const matches = data.match.filter(m => m.group_id === group.id);
+        const rows = new Map<number, StandingRow>();
+        const rowOf = (id: number) => {
+            let row = rows.get(id);
+            if (!row) {
+                const participant = data.participant.find(p => p.id === id);
+                row = {
+                    participantId: id, name: participant?.name || `#${id}`, played: 0, wins: 0, losses: 0, draws: 0, racksWon: 0, racksLost: 0, rackDifferential: 0, rank: 0,
+                    ...(participant?.withdrawn ? { withdrawn: participant.withdrawn } : {})
+                };
+                rows.set(id, row);
+            }
+            return row;
+        };
+
+        // Every player drawn into the pool is listed, even before playing
+        for (const match of matches) {
+            if (match.opponent1?.id != null) rowOf(match.opponent1.id);
+            if (match.opponent2?.id != null) rowOf(match.opponent2.id);
+        }
+
+        const played = matches.filter(m => isPlayed(m) && m.opponent1?.id != null && m.opponent2?.id != null);
+        for (const match of played) {
+            const sides = [[match.opponent1!, match.opponent2!], [match.opponent2!, match.opponent1!]] as const;
+            for (const [own, other] of sides) {
+                const row = rowOf(own.id!);
+                row.played++;
+                // brackets-manager drops the result of the side that forfeited
+                if (own.result === 'win') row.wins++;
+                else if (own.result === 'loss' || own.forfeit) row.losses++;
+                else row.draws++;
+                row.racksWon += own.score ?? 0;
+                row.racksLost += other.score ?? 0;
+                row.rackDifferential = row.racksWon - row.racksLost;
+            }
+        }
+
+        return { groupId: group.id, groupNumber: group.number, rows: rankRows([...rows.values()], played) };
+    });
+};
+
+// Sort by wins, then break ties among players level on wins: head-to-head among
+// the tied players first (a mini-table of the matches they played against each
+// other), then rack differential and racks won
+const rankRows = (rows: StandingRow[], played: Match[]): StandingRow[] => {
+    const headToHead = new Map<number, number>();
+    rows.forEach(row => {
+        const tied = new Set(rows.filter(r => r.wins === row.wins).map(r => r.participantId));
+        const wins = played.filter(m =>
+            tied.has(m.opponent1!.id!) && tied.has(m.opponent2!.id!) &&
+            ((m.opponent1!.id === row.participantId && m.opponent1!.result === 'win') ||
+                (m.opponent2!.id === row.participantId && m.opponent2!.result === 'win'))
+        ).length;
+        headToHead.set(row.participantId, wins);
+    });
+
+    const keyOf = (row: StandingRow) => [row.wins, headToHead.get(row.participantId) ?? 0, row.rackDifferential, row.racksWon];
+    const ranked = [...rows].sort((a, b) => {
+        const ka = keyOf(a);
+        const kb = keyOf(b);
+        for (let i = 0; i < ka.length; i++) {
+            if (ka[i] !== kb[i]) return kb[i]! - ka[i]!;
+        }
+        return a.name.localeCompare(b.name);
+    });
+
+    // Players level on every criterion share the better rank
+    ranked.forEach((row, i) => {
+        const previous = ranked[i - 1];
+        row.rank = previous && keyOf(previous).join() === keyOf(row).join() ? previous.rank : i + 1;
+    });
+    return ranked;
+};
@@ -0,0 +1,181 @@
+// Swiss-system pairing and standings.
+// A Swiss stage is stored as a single-group round-robin stage flagged with
+// `settings.swiss`; its rounds are inserted one at a time as the previous round
+// completes. Nobody is eliminated: each round pairs players with equal (or the
+// closest) points who have not met yet, and an odd field gives one player a bye.
+
+import { BracketsData, Match } from '../types';
+import { StandingRow } from './standings';
+
+export interface SwissSettings {
+    // Total number of rounds to play
+    rounds: number;
+}
+
+export interface SwissStandingRow extends StandingRow {
+    byes: number;
+    // 1 per win or bye, 0.5 per draw
+    points: number;
+    // Sum of the points of every opponent played
+    buchholz: number;
+    // Points of the opponents beaten plus half the points of those drawn
+    sonnebornBerger: number;
+}
+
+export interface SwissPairing {
+    pairs: [number, number][];
+    bye: number | null;
+}
+
+/**
+ * Default number of rounds: enough to separate a single unbeaten player
+ */
+export const getDefaultSwissRounds = (playerCount: number): number =>
+    Math.max(1, Math.ceil(Math.log2(Math.max(2, playerCount))));
+
+const isBye = (match: Match) => (match.opponent1?.id == null) !== (match.opponent2?.id == null);
+
+const isPlayed = (match: Match) =>
+    match.opponent1?.id != null && match.opponent2?.id != null &&
+    (match.opponent1.result !== undefined || match.opponent2.result !== undefined);
+
+/**
+ * Standings of a Swiss stage: points, then Buchholz, Sonneborn-Berger, rack
+ * differential and racks won. Players are listed in entry order until they differ.
+ */
+export const computeSwissStandings = (data: BracketsData, stageId: number): SwissStandingRow[] => {
+    const matches = data.match.filter(m => m.stage_id === stageId);
+    const rows = new Map<number, SwissStandingRow>();
+    const opponents = new Map<number, { id: number; result: string | undefined }[]>();
+    const stage = data.stage.find(s => s.id === stageId);
+    const stageParticipants = stage ? data.participant.filter(p => p.tournament_id === stage.tournament_id) : [];
+
+    for (const participant of stageParticipants) {
+        rows.set(participant.id, {
+            participantId: participant.id, name: participant.name, played: 0, wins: 0, losses: 0, draws: 0, byes: 0,
+            racksWon: 0, racksLost: 0, rackDifferential: 0, points: 0, buchholz: 0, sonnebornBerger: 0, rank: 0,
+            ...(participant.withdrawn ? { withdrawn: participant.withdrawn } : {})
+        });
+        opponents.set(participant.id, []);
+    }
+
+    for (const match of matches) {
+        if (isBye(match)) {
+            const row = rows.get((match.opponent1?.id ?? match.opponent2?.id)!);
+            if (row) {
+                row.byes++;
+                row.points++;
+            }
+            continue;
+        }
+        if (!isPlayed(match)) continue;
+
+        const sides = [[match.opponent1!, match.opponent2!], [match.opponent2!, match.opponent1!]] as const;
+        for (const [own, other] of sides) {
+            const row = rows.get(own.id!);
+            if (!row) continue;
+            row.played++;
+            // brackets-manager drops the result of the side that forfeited
+            const result = own.forfeit ? 'loss' : own.result;
+            if (result === 'win') {
+                row.wins++;
+                row.points++;
+            } else if (result === 'loss') {
+                row.losses++;
+            } else {
+                row.draws++;
+                row.points += 0.5;
+            }
+            row.racksWon += own.score ?? 0;
+            row.racksLost += other.score ?? 0;
+            row.rackDifferential = row.racksWon - row.racksLost;
+            opponents.get(own.id!)!.push({ id: other.id!, result });
+        }
+    }
+
+    // Tiebreaks use the opponents' final points, so they are computed in a second pass
+    rows.forEach(row => {
+        for (const opponent of opponents.get(row.participantId) || []) {
+            const points = rows.get(opponent.id)?.points ?? 0;
+            row.buchholz += points;
+            if (opponent.result === 'win') row.sonnebornBerger += points;
+            else if (opponent.result !== 'loss') row.sonnebornBerger += points / 2;
+        }
+    });
+
+    const keyOf = (row: SwissStandingRow) => [row.points, row.buchholz, row.sonnebornBerger, row.rackDifferential, row.racksWon];
+    const ranked = [...rows.values()].sort((a, b) => {
+        const ka = keyOf(a);
+        const kb = keyOf(b);
+        for (let i = 0; i < ka.length; i++) {
+            if (ka[i] !== kb[i]) return kb[i]! - ka[i]!;
+        }
+        return a.participantId - b.participantId;
+    });
+
+    // Players level on every criterion share the better rank
+    ranked.forEach((row, i) => {
+        const previous = ranked[i - 1];
+        row.rank = previous && keyOf(previous).join() === keyOf(row).join() ? previous.rank : i + 1;
+    });
+    return ranked;
+};
+
+/**
+ * Pair the next round from the current standings (best player first).
+ * Players are paired within their score group, top half against bottom half,
+ * floating to the nearest score group when a group cannot be paired. Rematches
+ * are only allowed when no pairing without them exists. With an odd field the
+ * lowest-ranked player who has not had a bye yet sits out.
+ */
+export const pairSwissRound = (standings: SwissStandingRow[], matches: Match[]): SwissPairing => {
+    const met = new Set<string>();
+    const hadBye = new Set<number>();
+    const key = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+    for (const match of matches) {
+        if (isBye(match)) hadBye.add((match.opponent1?.id ?? match.opponent2?.id)!);
+        else if (match.opponent1?.id != null && match.opponent2?.id != null) met.add(key(match.opponent1.id, match.opponent2.id));
+    }
+
+    const pointsOf = new Map(standings.map(row => [row.participantId, row.points]));
+    const ids = standings.map(row => row.participantId);
+
+    // Sets of players already known to have no pairing, so backtracking stays cheap
+    const unpairable = new Set<string>();
+    const pairAll = (remaining: number[], allowRematch: boolean): [number, number][] | null => {
+        if (remaining.length === 0) return [];
+        const state = `${allowRematch}:${remaining.join()}`;
+        if (unpairable.has(state)) return null;
+        const [first, ...rest] = remaining as [number, ...number[]];
+        const points = pointsOf.get(first);
+        const group = rest.filter(id => pointsOf.get(id) === points);
+        // The ideal opponent sits half a score group below; players closer in points come next
+        const ideal = Math.floor((group.length + 1) / 2) - 1;
+        const candidates = [
+            ...group.slice(Math.max(0, ideal)),
+            ...group.slice(0, Math.max(0, ideal)).reverse(),
+            ...rest.filter(id => pointsOf.get(id) !== points)
+                .sort((a, b) => Math.abs(pointsOf.get(a)! - points!) - Math.abs(pointsOf.get(b)! - points!))
+        ];
+
+        for (const opponent of candidates) {
+            if (!allowRematch && met.has(key(first, opponent))) continue;
+            const others = pairAll(rest.filter(id => id !== opponent), allowRematch);
+            if (others) return [[first, opponent], ...others];
+        }
+        unpairable.add(state);
+        return null;
+    };
+
+    const byeCandidates = ids.length % 2 === 0
+        ? [null]
+        : [...ids].reverse().sort((a, b) => Number(hadBye.has(a)) - Number(hadBye.has(b)));
+
+    for (const allowRematch of [false, true]) {
+        for (const bye of byeCandidates) {
+            const pairs = pairAll(ids.filter(id => id !== bye), allowRematch);
+            if (pairs) return { pairs, bye };
+        }
+    }
+    return { pairs: [], bye: null };
+};
@@ -1,122 +1,106 @@
-import { Match, TableSettings, TableSettingsMap } from '../types';
-import { getDefaultTableName, isBye } from '../utils';
+import { Match, Stage, TableSettings, TableSettingsMap, TableState } from '../types';
+import { getDefaultTableName } from '../utils';
+import { DEFAULT_SCHEDULING_STRATEGY, getRestRemaining, planAssignments, PlannedAssignment, SchedulerContext } from './scheduler';
+import { canPlayOnTable, describeRule, getMatchRules, isTableInService, tableMeetsRule } from './tableRules';
 
 /**
- * Get all matches that are waiting to be assigned to tables (new brackets-manager format)
+ * Table layout of a tournament whose tables have not been set up yet.
+ * Matches go to tables by hand until auto-assignment is switched on.
  */
-export const getWaitingMatches = (
-    matches: Match[],
-    tableAssignments: (number | null)[]
-): Match[] => {
+export const createTableState = (tableCount = 1): TableState => ({
+    tableCount,
+    tableSettings: { 1: { name: getDefaultTableName(1), doNotAutoAssign: false } },
+    globalAutoAssign: false,
+    scheduler: DEFAULT_SCHEDULING_STRATEGY
+});
+
+/**
+ * Display name of a table
+ */
+export const getTableName = (tables: TableState, tableNumber: number): string =>
+    tables.tableSettings[tableNumber]?.name || getDefaultTableName(tableNumber);
+
+/**
+ * The match on a table (1-based), if any. Matches carry their own table number.
+ */
+export const getTableMatch = (matches: Match[], tableNumber: number): Match | null =>
+    matches.find(m => m.table === tableNumber) || null;
+
+/**
+ * Matches that are ready (or running, when taken off a table mid-match), have both
+ * players and are not on a table
+ */
+export const getWaitingMatches = (matches: Match[]): Match[] => {
     return matches.filter(m =>
-        !tableAssignments.includes(m.id) &&
-        m.status === 'ready' &&
+        (m.status === 2 || m.status === 3 || m.status === 'ready' || m.status === 'running') &&
         m.opponent1 &&
         m.opponent2 &&
-        m.opponent1.id !== null &&
-        m.opponent2.id !== null &&
-        !m.table
+        m.opponent1.id != null &&
+        m.opponent2.id != null &&
+        m.table == null
     );
 };
 
 /**
- * Get available (empty) table numbers
+ * Table numbers without a match
  */
-export const getAvailableTables = (
-    tableAssignments: (number | null)[],
-    tableCount: number
-): number[] => {
-    const availableTables: number[] = [];
-    for (let i = 0; i < tableCount; i++) {
-        if (tableAssignments[i] === null) {
-            availableTables.push(i + 1); // Convert to 1-based table numbers
+export const getFreeTables = (matches: Match[], tableCount: number): number[] => {
+    const freeTables: number[] = [];
+    for (let tableNumber = 1; tableNumber <= tableCount; tableNumber++) {
+        if (!getTableMatch(matches, tableNumber)) {
+            freeTables.push(tableNumber);
         }
     }
-    return availableTables;
+    return freeTables;
 };
 
 /**
- * Auto-assign matches to tables based on settings (new brackets-manager format)
+ * Scheduler context for the current matches and table layout
  */
-export const autoAssignMatches = (
-    matches: Match[],
-    tableAssignments: (number | null)[],
-    tableCount: number,
-    tableSettings: TableSettingsMap,
-    globalAutoAssign: boolean
-): (number | null)[] => {
-    if (!globalAutoAssign) return tableAssignments;
-
-    const waitingMatches = getWaitingMatches(matches, tableAssignments);
-    const newAssignments = [...tableAssignments];
-
-    // Find available tables that should auto-assign
-    for (let tableNumber = 1; tableNumber <= tableCount; tableNumber++) {
-        const tableIndex = tableNumber - 1;
-        const settings = tableSettings[tableNumber];
-
-        // Skip if table is occupied or excluded from auto-assign
-        if (newAssignments[tableIndex] !== null || settings?.doNotAutoAssign) {
-            continue;
-        }
-
-        // Assign first available waiting match
-        if (waitingMatches.length > 0) {
-            const waitingMatch = waitingMatches.shift(); // Remove from waiting list
-            if (waitingMatch) {
-                newAssignments[tableIndex] = waitingMatch.id;
-            }
-        }
-    }
-
-    return newAssignments;
-};
+export const getSchedulerContext = (matches: Match[], stages: Stage[], tables: TableState, now: number = Date.now()): SchedulerContext => ({
+    allMatches: matches,
+    stages,
+    onTables: matches.filter(m => m.table != null),
+    minRestMinutes: tables.minRestMinutes || 0,
+    now,
+    canPlayOn: (match, table) => canPlayOnTable(match, table, tables, matches, stages)
+});
 
 /**
- * Assign a specific match to a specific table
+ * Matches auto-assignment would place on the free tables that take part in it.
+ * The scheduler picks the match for each table.
  */
-export const assignMatchToTable = (
-    tableAssignments: (number | null)[],
-    matchId: number,
-    tableIndex: number
-): (number | null)[] => {
-    const newAssignments = [...tableAssignments];
-    newAssignments[tableIndex] = matchId;
-    return newAssignments;
+export const planAutoAssignments = (matches: Match[], stages: Stage[], tables: TableState, now: number = Date.now()): PlannedAssignment[] => {
+    if (!tables.globalAutoAssign) return [];
+
+    const freeTables = getFreeTables(matches, tables.tableCount)
+        .filter(tableNumber => isTableInService(tables, tableNumber) && !tables.tableSettings[tableNumber]?.doNotAutoAssign);
+    return planAssignments(getWaitingMatches(matches), freeTables, getSchedulerContext(matches, stages, tables, now), tables.scheduler);
 };
 
 /**
- * Remove a match from a table
+ * Why the table rules keep a waiting match off the free tables, or null when they do not
  */
-export const removeMatchFromTable = (
-    tableAssignments: (number | null)[],
-    tableIndex: number
-): (number | null)[] => {
-    const newAssignments = [...tableAssignments];
-    newAssignments[tableIndex] = null;
-    return newAssignments;
+export const getHoldReason = (match: Match, matches: Match[], stages: Stage[] | undefined, tables: TableState): string | null => {
+    const rules = getMatchRules(match, matches, stages, tables.rules);
+    if (rules.length === 0) return null;
+    const meets = (tableNumber: number) => isTableInService(tables, tableNumber) && rules.every(rule => tableMeetsRule(tables, tableNumber, rule));
+    const rule = rules.map(describeRule).join('; ');
+
+    if (!Array.from({ length: tables.tableCount }, (_, i) => i + 1).some(meets)) return `${rule}. No table in play qualifies.`;
+    const free = getFreeTables(matches, tables.tableCount).filter(tableNumber => isTableInService(tables, tableNumber));
+    if (free.length > 0 && !free.some(meets)) return `${rule}. Waiting for one to free up.`;
+    return null;
 };
 
 /**
- * Initialize or resize table assignments array
+ * When the next waiting player comes off their rest, or null when nobody is resting.
+ * Auto-assignment has to run again then, as nothing else happens at that moment.
  */
-export const resizeTableAssignments = (
-    currentAssignments: (number | null)[],
-    newTableCount: number
-): (number | null)[] => {
-    const newAssignments = [...currentAssignments];
-
-    // Expand array if needed
-    while (newAssignments.length < newTableCount) {
-        newAssignments.push(null);
-    }
-
-    // Shrink array if needed
-    if (newAssignments.length > newTableCount) {
-        return newAssignments.slice(0, newTableCount);
-    }
-
-    return newAssignments;
+export const getNextRestEnd = (matches: Match[], stages: Stage[], tables: TableState, now: number = Date.now()): number | null => {
+    const context = getSchedulerContext(matches, stages, tables, now);
+    const remaining = getWaitingMatches(matches).map(m => getRestRemaining(m, context)).filter(ms => ms > 0);
+    return remaining.length > 0 ? now + Math.min(...remaining) : null;
 };
 
 /**
@@ -192,31 +176,6 @@ export const renameTable = (
     });
 };
 
-/**
- * Check if a table has an active match and get match details (new format)
- */
-export const getTableMatch = (
-    matches: Match[],
-    tableAssignments: (number | null)[],
-    tableIndex: number
-): Match | null => {
-    const assignedMatchId = tableAssignments[tableIndex];
-    if (!assignedMatchId) return null;
-
-    return matches.find(m => m.id === assignedMatchId) || null;
-};
-
-/**
- * Find which table a match is assigned to
- */
-export const findMatchTable = (
-    tableAssignments: (number | null)[],
-    matchId: number
-): number | null => {
-    const tableIndex = tableAssignments.findIndex(assignment => assignment === matchId);
-    return tableIndex !== -1 ? tableIndex : null;
-};
-
 /**
  * Migrate old table settings to new naming convention
  */
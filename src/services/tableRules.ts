@@ -0,0 +1,124 @@
+// Which matches may be played on which tables.
+// Tables carry attributes (size, cloth, featured, out of service) in their settings, and
+// rules tie rounds of the bracket to tables with an attribute, e.g. "grand final on
+// featured tables" or "LB first two rounds on 7ft tables". A match covered by several
+// rules needs a table that meets all of them.
+
+import { Match, Stage, TableRule, TableSize, TableState } from '../types';
+import { getMatchPositions, isPoolMatch } from '../utils';
+
+export interface RoundScope {
+    name: string;
+    label: string;
+}
+
+export const TABLE_SIZES: TableSize[] = ['9ft', '8ft', '7ft'];
+
+// Rounds a rule can cover. In single elimination the final is the WB final and the
+// third-place match is in none of them.
+export const ROUND_SCOPES: RoundScope[] = [
+    { name: 'finals', label: 'Grand final' },
+    { name: 'wb_final', label: 'WB final' },
+    { name: 'wb_semifinals', label: 'WB semifinals' },
+    { name: 'wb_early', label: 'WB first two rounds' },
+    { name: 'lb_final', label: 'LB final' },
+    { name: 'lb_early', label: 'LB first two rounds' },
+    { name: 'pools', label: 'Pool and Swiss matches' }
+];
+
+// Scopes of every match, worked out in one pass and kept per matches array, as the
+// scheduler asks for them once per match and table
+const scopesCache = new WeakMap<Match[], { length: number; stages: Stage[] | undefined; scopes: Map<number, string[]> }>();
+
+const computeRoundScopes = (allMatches: Match[], stages?: Stage[]): Map<number, string[]> => {
+    const positions = getMatchPositions(allMatches);
+    const lastRound = new Map<number, number>();
+    allMatches.forEach(m => lastRound.set(m.group_id, Math.max(lastRound.get(m.group_id) ?? 0, positions.get(m.id)?.roundNumber ?? 0)));
+
+    const scopesOf = (match: Match): string[] => {
+        if (isPoolMatch(match, stages)) return ['pools'];
+        const position = positions.get(match.id);
+        if (!position) return [];
+        const { groupNumber, roundNumber } = position;
+        // Without its stage a match is taken to be double elimination
+        const stageType = stages?.find(s => s.id === match.stage_id)?.type ?? 'double_elimination';
+        // The third-place match of a single-elimination stage is in no scope
+        if (stageType === 'single_elimination' && groupNumber !== 1) return [];
+        if (groupNumber >= 3) return ['finals'];
+
+        const last = lastRound.get(match.group_id) ?? 0;
+        const side = groupNumber === 1 ? 'wb' : 'lb';
+        const scopes: string[] = [];
+        if (roundNumber === last) scopes.push(`${side}_final`);
+        if (side === 'wb' && roundNumber === last - 1) scopes.push('wb_semifinals');
+        if (roundNumber <= 2) scopes.push(`${side}_early`);
+        return scopes;
+    };
+    return new Map(allMatches.map(m => [m.id, scopesOf(m)]));
+};
+
+/**
+ * Names of the round scopes a match falls in
+ */
+export const getRoundScopes = (match: Match, allMatches: Match[], stages?: Stage[]): string[] => {
+    let cached = scopesCache.get(allMatches);
+    if (!cached || cached.length !== allMatches.length || cached.stages !== stages) {
+        cached = { length: allMatches.length, stages, scopes: computeRoundScopes(allMatches, stages) };
+        scopesCache.set(allMatches, cached);
+    }
+    return cached.scopes.get(match.id) ?? [];
+};
+
+/**
+ * Rules that cover a match
+ */
+export const getMatchRules = (match: Match, allMatches: Match[], stages: Stage[] | undefined, rules: TableRule[] = []): TableRule[] => {
+    if (rules.length === 0) return [];
+    const scopes = getRoundScopes(match, allMatches, stages);
+    return rules.filter(rule => rule.rounds.some(round => scopes.includes(round)));
+};
+
+/**
+ * Whether a table is in play
+ */
+export const isTableInService = (tables: TableState, tableNumber: number): boolean =>
+    tableNumber >= 1 && tableNumber <= tables.tableCount && !tables.tableSettings[tableNumber]?.outOfService;
+
+/**
+ * Numbers of the tables in play
+ */
+export const getTablesInPlay = (tables: TableState): number[] =>
+    Array.from({ length: tables.tableCount }, (_, i) => i + 1).filter(n => isTableInService(tables, n));
+
+/**
+ * Whether a table has what a rule asks for
+ */
+export const tableMeetsRule = (tables: TableState, tableNumber: number, rule: TableRule): boolean => {
+    const settings = tables.tableSettings[tableNumber];
+    if (rule.featured && !settings?.featured) return false;
+    if (rule.size && settings?.size !== rule.size) return false;
+    return true;
+};
+
+/**
+ * Whether a match may be played on a table: the table is in play and meets every rule covering the match
+ */
+export const canPlayOnTable = (match: Match, tableNumber: number, tables: TableState, allMatches: Match[], stages?: Stage[]): boolean =>
+    isTableInService(tables, tableNumber) &&
+    getMatchRules(match, allMatches, stages, tables.rules).every(rule => tableMeetsRule(tables, tableNumber, rule));
+
+/**
+ * The tables a rule asks for, e.g. "featured 9ft tables"
+ */
+export const describeRequirement = (rule: TableRule): string => {
+    const attributes = [rule.featured ? 'featured' : '', rule.size || ''].filter(Boolean).join(' ');
+    return attributes ? `${attributes} tables` : 'any table';
+};
+
+/**
+ * A rule as a sentence, e.g. "Grand final, WB semifinals: featured tables only"
+ */
+export const describeRule = (rule: TableRule): string => {
+    const rounds = rule.rounds.map(name => ROUND_SCOPES.find(s => s.name === name)?.label || name).join(', ');
+    return `${rounds}: ${describeRequirement(rule)} only`;
+};
@@ -0,0 +1,193 @@
+import { AuditEvent, AuditEventType, BracketsData, Player, TableState, TournamentFile, TournamentSettings } from '../types';
+import { normalizeRaceChart } from './handicap';
+import { TABLE_SIZES } from './tableRules';
+
+// Bump when the file layout changes and add a migration step in migrateTournamentFile
+export const TOURNAMENT_FILE_VERSION = 1;
+export const TOURNAMENT_FILE_EXTENSION = 'tournament';
+
+const BRACKETS_TABLES: (keyof BracketsData)[] = ['stage', 'group', 'round', 'match', 'match_game', 'participant'];
+
+const AUDIT_EVENT_TYPES: AuditEventType[] = ['match_score', 'participant_edit', 'table_assignment', 'table_rename', 'history'];
+
+const optionalText = (raw: any, key: string) => typeof raw[key] === 'string' && raw[key] ? { [key]: raw[key] } : {};
+const optionalNumber = (raw: any, key: string) => raw[key] != null && Number.isFinite(Number(raw[key])) ? { [key]: Number(raw[key]) } : {};
+
+// A player entry from a file, or null when it is not an object with a name
+const parsePlayer = (raw: any): Player | null => {
+    if (!raw || typeof raw !== 'object') return null;
+    const name = String(raw.name ?? '');
+    if (!name.trim()) return null;
+    return {
+        name,
+        phone: String(raw.phone ?? ''),
+        ...optionalText(raw, 'email'),
+        ...optionalNumber(raw, 'effectiveRating'),
+        ...optionalNumber(raw, 'robustness'),
+        ...optionalText(raw, 'city'),
+        ...optionalText(raw, 'state'),
+        ...optionalText(raw, 'membershipId'),
+        ...optionalText(raw, 'club')
+    };
+};
+
+// An audit event from a file, or null when its type or time is unusable
+const parseAuditEvent = (raw: any): AuditEvent | null => {
+    if (!raw || typeof raw !== 'object' || !AUDIT_EVENT_TYPES.includes(raw.type)) return null;
+    const timestamp = Number(raw.timestamp);
+    if (!Number.isFinite(timestamp)) return null;
+    return {
+        id: Number(raw.id) || 0,
+        timestamp,
+        type: raw.type,
+        operator: String(raw.operator ?? ''),
+        tournamentId: Number(raw.tournamentId) || 0,
+        ...optionalNumber(raw, 'matchId'),
+        participantIds: Array.isArray(raw.participantIds) ? raw.participantIds.map(Number).filter(Number.isFinite) : [],
+        description: String(raw.description ?? ''),
+        before: raw.before ?? null,
+        after: raw.after ?? null
+    };
+};
+
+/**
+ * Build a tournament file from the current application state
+ */
+export const createTournamentFile = (
+    settings: TournamentSettings,
+    players: Player[],
+    tables: TableState,
+    bracketsData: BracketsData,
+    auditLog: AuditEvent[] = []
+): TournamentFile => {
+    return {
+        version: TOURNAMENT_FILE_VERSION,
+        savedAt: new Date().toISOString(),
+        settings: { ...settings },
+        players: players.map(p => ({ ...p })),
+        tables: {
+            tableCount: tables.tableCount,
+            tableSettings: { ...tables.tableSettings },
+            globalAutoAssign: tables.globalAutoAssign,
+            ...(tables.scheduler ? { scheduler: tables.scheduler } : {}),
+            ...(tables.minRestMinutes ? { minRestMinutes: tables.minRestMinutes } : {}),
+            ...(tables.rules?.length ? { rules: tables.rules.map(rule => ({ ...rule, rounds: [...rule.rounds] })) } : {})
+        },
+        bracketsData,
+        auditLog: [...auditLog]
+    };
+};
+
+/**
+ * Serialize a tournament file for writing to disk
+ */
+export const serializeTournamentFile = (file: TournamentFile): string => {
+    return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Upgrade older file layouts to the current version
+ */
+const migrateTournamentFile = (file: any): any => {
+    // Version 1 is the first released layout; future migrations go here, e.g.
+    // if (file.version === 1) { file = { ...file, version: 2, newField: default }; }
+    return file;
+};
+
+/**
+ * Parse and validate the contents of a tournament file.
+ * Throws an Error describing the problem when the file cannot be used.
+ */
+export const parseTournamentFile = (contents: string): TournamentFile => {
+    let raw: any;
+    try {
+        raw = JSON.parse(contents);
+    } catch (error) {
+        throw new Error('Tournament file is not valid JSON');
+    }
+
+    if (!raw || typeof raw !== 'object' || typeof raw.version !== 'number') {
+        throw new Error('Not a tournament file (missing version)');
+    }
+
+    if (raw.version > TOURNAMENT_FILE_VERSION) {
+        throw new Error(`Tournament file version ${raw.version} was created by a newer version of this app`);
+    }
+
+    const file = migrateTournamentFile(raw);
+
+    const data = file.bracketsData;
+    if (!data || typeof data !== 'object') {
+        throw new Error('Tournament file is missing bracket data');
+    }
+    for (const table of BRACKETS_TABLES) {
+        if (!Array.isArray(data[table])) {
+            throw new Error(`Tournament file bracket data is missing the "${table}" table`);
+        }
+    }
+
+    const settings = file.settings || {};
+    const tables = file.tables || {};
+
+    return {
+        version: TOURNAMENT_FILE_VERSION,
+        savedAt: typeof file.savedAt === 'string' ? file.savedAt : '',
+        settings: {
+            name: String(settings.name || ''),
+            description: String(settings.description || ''),
+            gameType: String(settings.gameType || 'Nine Ball'),
+            bracketType: ['single', 'round_robin', 'swiss'].includes(settings.bracketType) ? settings.bracketType : 'double',
+            trueDouble: settings.trueDouble !== false,
+            raceWinners: Number(settings.raceWinners) || 7,
+            raceLosers: Number(settings.raceLosers) || 5,
+            ...(settings.groupCount !== undefined ? { groupCount: Math.max(1, Number(settings.groupCount) || 1) } : {}),
+            ...(settings.playoffType === 'single' || settings.playoffType === 'double' || settings.playoffType === 'none' ? { playoffType: settings.playoffType } : {}),
+            ...(settings.advancePerGroup !== undefined ? { advancePerGroup: Math.max(1, Number(settings.advancePerGroup) || 1) } : {}),
+            ...(settings.swissRounds !== undefined ? { swissRounds: Math.max(0, Number(settings.swissRounds) || 0) } : {}),
+            ...(['random', 'rating', 'manual'].includes(settings.seedingMode) ? { seedingMode: settings.seedingMode } : {}),
+            ...(['none', 'club', 'city', 'state'].includes(settings.separateBy) ? { separateBy: settings.separateBy } : {}),
+            ...(settings.handicap !== undefined ? { handicap: settings.handicap === true } : {}),
+            ...(Array.isArray(settings.raceChart) ? { raceChart: normalizeRaceChart(settings.raceChart.map((row: any) => ({ minGap: Number(row?.minGap), higher: Number(row?.higher), lower: Number(row?.lower) }))) } : {}),
+            ...(Array.isArray(settings.raceSchedule) ? {
+                raceSchedule: settings.raceSchedule
+                    .filter((entry: any) => ['winners', 'losers', 'grand_final', 'gf_reset'].includes(entry?.side) && Number(entry?.race) >= 1)
+                    .map((entry: any) => ({ side: entry.side, ...(entry.round !== undefined ? { round: Number(entry.round) } : {}), race: Number(entry.race) }))
+            } : {}),
+            ...(settings.callTimer && typeof settings.callTimer === 'object' ? {
+                callTimer: {
+                    enabled: settings.callTimer.enabled !== false,
+                    minutes: Math.max(1, Number(settings.callTimer.minutes) || 10),
+                    recallMinutes: Math.max(0, Number(settings.callTimer.recallMinutes) || 0)
+                }
+            } : {})
+        },
+        players: Array.isArray(file.players) ? file.players.map(parsePlayer).filter((p: Player | null): p is Player => p !== null) : [],
+        tables: {
+            tableCount: Math.max(1, Number(tables.tableCount) || 1),
+            tableSettings: tables.tableSettings && typeof tables.tableSettings === 'object' ? tables.tableSettings : {},
+            globalAutoAssign: tables.globalAutoAssign !== false,
+            ...(typeof tables.scheduler === 'string' ? { scheduler: tables.scheduler } : {}),
+            ...(Number(tables.minRestMinutes) > 0 ? { minRestMinutes: Number(tables.minRestMinutes) } : {}),
+            ...(Array.isArray(tables.rules) ? {
+                rules: tables.rules
+                    .filter((rule: any) => Array.isArray(rule?.rounds))
+                    .map((rule: any) => ({
+                        rounds: rule.rounds.map(String),
+                        ...(rule.featured === true ? { featured: true } : {}),
+                        ...(TABLE_SIZES.includes(rule.size) ? { size: rule.size } : {})
+                    }))
+            } : {})
+        },
+        bracketsData: data as BracketsData,
+        // Files saved before the audit log existed simply have no events
+        auditLog: Array.isArray(file.auditLog) ? file.auditLog.map(parseAuditEvent).filter((e: AuditEvent | null): e is AuditEvent => e !== null) : []
+    };
+};
+
+/**
+ * Suggest a file name for saving, based on the tournament name
+ */
+export const getSuggestedFileName = (tournamentName: string): string => {
+    const base = (tournamentName || 'tournament').trim().replace(/[^a-z0-9-_ ]/gi, '').replace(/\s+/g, '-') || 'tournament';
+    return `${base}.${TOURNAMENT_FILE_EXTENSION}`;
+};
@@ -1,15 +1,248 @@
 import { BracketsManager } from 'brackets-manager';
 import { MemoryStorage } from './memoryStorage';
-import { Player, Participant, Match, Stage, Group, Round, BracketsData, Tournament } from '../types';
+import { FileStorage } from './fileStorage';
+import { CommandHistory, HistoryEntry } from './commandHistory';
+import { AuditEventInput, AuditLog } from './auditLog';
+import { AuditEvent, ForfeitReason, Player, Participant, Match, Stage, Group, Round, BracketsData, MatchGame, RackEntry, RaceChartRow, RaceScheduleEntry, TableState, Tournament, TournamentSession, WithdrawalReason } from '../types';
+import { getForfeitLabel, getMatchRaces } from '../utils';
+import { computeStandings, Placing, PoolStandings } from './standings';
+import { getPoolQualifiers, placeSeeds, seedFromPools } from './seeding';
+import { separateSlots, SeparationKey } from './separation';
+import { getHandicapRaces, normalizeRaceChart } from './handicap';
+import { getGameTypeRules, getRaceWinner } from './gameTypes';
+import { computeSwissStandings, getDefaultSwissRounds, pairSwissRound, SwissSettings, SwissStandingRow } from './swiss';
+import { createTableState, getTableName, planAutoAssignments, updateTableSettings } from './tableManager';
+import { PlannedAssignment } from './scheduler';
+import { isTableInService } from './tableRules';
+import { getFeeders, Projection, projectTournament } from './projection';
+
+const BRACKETS_TABLES: (keyof BracketsData)[] = ['participant', 'stage', 'group', 'round', 'match', 'match_game'];
 
 class TournamentService {
     private manager: BracketsManager;
     private storage: MemoryStorage;
+    private history: CommandHistory;
+    private auditLog: AuditLog;
     private currentTournamentId: number = 1;
 
-    constructor() {
-        this.storage = new MemoryStorage();
+    constructor(storage?: MemoryStorage, auditLog?: AuditLog) {
+        this.storage = storage || new MemoryStorage();
         this.manager = new BracketsManager(this.storage);
+        this.history = new CommandHistory(this.storage);
+        this.auditLog = auditLog || new AuditLog();
+    }
+
+    /**
+     * Run a group of mutations as one undoable history step. The group is a
+     * storage transaction: if any of it fails, none of it is kept.
+     */
+    async runCommand<T>(label: string, action: () => Promise<T>): Promise<T> {
+        return this.storage.transaction(() => this.history.run(label, action));
+    }
+
+    /**
+     * Add an event to the audit log once the change it describes is kept. Inside a
+     * command run by another one it waits for the outermost commit, and a rollback drops it.
+     */
+    private recordAudit(input: AuditEventInput): void {
+        this.storage.afterCommit(() => this.auditLog.record(input));
+    }
+
+    /**
+     * Resume the most recently opened tournament from durable storage (if any).
+     * Returns the tournament data, or null when it has no bracket yet.
+     */
+    async resumeTournament(): Promise<BracketsData | null> {
+        try {
+            if (this.storage instanceof FileStorage) {
+                await this.storage.load();
+            }
+            await this.auditLog.load();
+
+            const tournaments = await this.listTournaments();
+            const lastOpened = [...tournaments].sort((a, b) => (a.lastOpenedAt || '').localeCompare(b.lastOpenedAt || '')).pop();
+            if (lastOpened) {
+                this.currentTournamentId = lastOpened.id;
+            }
+
+            const data = await this.getTournamentData();
+            return data.stage.length > 0 ? data : null;
+        } catch (error) {
+            console.error('Error resuming tournament:', error);
+            return null;
+        }
+    }
+
+    /**
+     * All tournaments in the library, in creation order
+     */
+    async listTournaments(): Promise<Tournament[]> {
+        await this.ensureRegistered();
+        return await this.storage.select('tournament') as Tournament[] || [];
+    }
+
+    /**
+     * The tournament that reads and mutations currently apply to
+     */
+    async getCurrentTournament(): Promise<Tournament | null> {
+        await this.ensureRegistered();
+        return await this.storage.select('tournament', this.currentTournamentId) as Tournament | null;
+    }
+
+    getCurrentTournamentId(): number {
+        return this.currentTournamentId;
+    }
+
+    /**
+     * Add an empty tournament to the library and make it current
+     */
+    async addTournament(name: string = 'Untitled Tournament'): Promise<Tournament> {
+        try {
+            const now = new Date().toISOString();
+            const id = await this.storage.transaction(async () => {
+                await this.ensureRegistered();
+                return await this.storage.insert('tournament', { name, createdAt: now, lastOpenedAt: now }) as number;
+            });
+            this.currentTournamentId = id;
+            this.history.clear();
+            await this.storage.flush();
+            return await this.storage.select('tournament', id) as Tournament;
+        } catch (error) {
+            console.error('Error adding tournament:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Make another tournament of the library current
+     */
+    async switchTournament(tournamentId: number): Promise<BracketsData> {
+        try {
+            const tournament = await this.storage.select('tournament', tournamentId);
+            if (!tournament) {
+                throw new Error(`Tournament ${tournamentId} not found`);
+            }
+
+            await this.storage.update('tournament', tournamentId, { lastOpenedAt: new Date().toISOString() });
+            this.currentTournamentId = tournamentId;
+            // Undo history covers a single tournament
+            this.history.clear();
+            await this.storage.flush();
+            return await this.getTournamentData();
+        } catch (error) {
+            console.error('Error switching tournament:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Delete a tournament with its bracket and participants. When the current
+     * tournament is deleted, the most recently opened remaining one becomes current.
+     */
+    async deleteTournament(tournamentId: number): Promise<void> {
+        try {
+            await this.storage.transaction(async () => {
+                await this.manager.delete.tournament(tournamentId);
+                await this.storage.delete('participant', { tournament_id: tournamentId });
+                await this.storage.delete('tournament', { id: tournamentId });
+            });
+            this.history.clear();
+
+            if (tournamentId === this.currentTournamentId) {
+                const remaining = await this.storage.select('tournament') as Tournament[] || [];
+                const next = [...remaining].sort((a, b) => (a.lastOpenedAt || '').localeCompare(b.lastOpenedAt || '')).pop();
+                if (next) {
+                    await this.switchTournament(next.id);
+                } else {
+                    await this.addTournament();
+                }
+            }
+            await this.storage.flush();
+        } catch (error) {
+            console.error('Error deleting tournament:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Remember the current tournament's players and settings
+     */
+    async saveSession(session: TournamentSession): Promise<void> {
+        const name = session.settings.name.trim();
+        await this.storage.transaction(async () => {
+            await this.ensureRegistered();
+            await this.storage.update('tournament', this.currentTournamentId, name ? { session, name } : { session });
+        });
+    }
+
+    /**
+     * Add a tournament from previously saved bracket data (e.g. a tournament file
+     * opened on another machine) and make it current. Ids are reassigned so the
+     * data can sit next to the tournaments already in storage. The table layout
+     * saved with the data is restored when given.
+     */
+    async importTournament(data: BracketsData, name: string, auditEvents: AuditEvent[] = [], tables?: TableState): Promise<BracketsData> {
+        try {
+            // Reuse the current tournament when nothing has been set up in it yet
+            const current = await this.getCurrentTournament();
+            const currentData = await this.getTournamentData();
+            const isBlank = current && currentData.stage.length === 0 && !(current.session?.players.length);
+            const tournament = isBlank
+                ? { ...current, name: name || current.name }
+                : await this.addTournament(name || 'Imported Tournament');
+            if (isBlank) {
+                await this.storage.update('tournament', tournament.id, { name: tournament.name });
+            }
+            if (tables) {
+                await this.storage.update('tournament', tournament.id, { tables });
+            }
+
+            const firstIds: { [table: string]: number } = {};
+            for (const table of BRACKETS_TABLES) {
+                const rows = await this.storage.select(table) as any[] || [];
+                firstIds[table] = rows.reduce((max, row) => Math.max(max, row.id || 0), 0) + 1;
+            }
+
+            const relocated = relocateBracketsData(data, tournament.id, firstIds);
+            await this.storage.transaction(async () => {
+                for (const table of BRACKETS_TABLES) {
+                    await this.storage.insert(table, relocated.data[table] as any[]);
+                }
+            });
+            await this.storage.flush();
+            this.history.clear();
+
+            this.auditLog.importEvents(auditEvents.map(event => ({
+                ...event,
+                tournamentId: tournament.id,
+                participantIds: event.participantIds.map(id => relocated.ids.participant.get(id) ?? id),
+                ...(event.matchId !== undefined ? { matchId: relocated.ids.match.get(event.matchId) ?? event.matchId } : {})
+            })));
+
+            return await this.getTournamentData();
+        } catch (error) {
+            console.error('Error importing tournament data:', error);
+            throw error;
+        }
+    }
+
+    // Register tournaments that only exist as stages (storage written before the
+    // library existed) and make sure the current tournament has a library entry
+    private async ensureRegistered(): Promise<void> {
+        const tournaments = await this.storage.select('tournament') as Tournament[] || [];
+        const stages = await this.storage.select('stage') as Stage[] || [];
+        const known = new Set(tournaments.map(t => t.id));
+        const now = new Date().toISOString();
+
+        for (const stage of stages) {
+            if (known.has(stage.tournament_id)) continue;
+            await this.storage.insert('tournament', { id: stage.tournament_id, name: stage.name, createdAt: now });
+            known.add(stage.tournament_id);
+        }
+
+        if (!known.has(this.currentTournamentId)) {
+            await this.storage.insert('tournament', { id: this.currentTournamentId, name: 'Untitled Tournament', createdAt: now, lastOpenedAt: now });
+        }
     }
 
     /**
@@ -17,7 +250,7 @@ class TournamentService {
      */
     async createTournament(
         players: Player[],
-        bracketType: 'single_elimination' | 'double_elimination' = 'double_elimination',
+        bracketType: 'single_elimination' | 'double_elimination' | 'round_robin' | 'swiss' = 'double_elimination',
         tournamentName?: string,
         options?: {
             description?: string;
@@ -25,6 +258,24 @@ class TournamentService {
             trueDouble?: boolean;
             raceWinners?: number;
             raceLosers?: number;
+            // Number of round-robin pools
+            groupCount?: number;
+            // Elimination stage the top players of each pool advance to once all pools are finished
+            playoff?: {
+                bracketType: 'single_elimination' | 'double_elimination';
+                advancePerGroup: number;
+            };
+            // Number of Swiss rounds (defaults to enough rounds for a single unbeaten player)
+            swissRounds?: number;
+            // Players are given in seed order: place them with the standard bracket
+            // order and store each player's seed on the participant
+            seeded?: boolean;
+            // Keep players sharing a club, city or state apart for as many rounds as possible
+            separateBy?: SeparationKey;
+            // Give every match per-player races from this chart, based on the players' ratings
+            handicap?: { chart: RaceChartRow[] };
+            // Race lengths of individual rounds, overriding raceWinners / raceLosers
+            raceSchedule?: RaceScheduleEntry[];
         }
     ): Promise<BracketsData> {
         try {
@@ -155,17 +406,28 @@ class TournamentService {
                 seedByIndex.push(newSeed);
             }
 
-            // Calculate next power of 2
-            const nextPowerOf2 = Math.pow(2, Math.ceil(Math.log2(Math.max(2, participantNames.length))));
+            // Calculate next power of 2 (round-robin pools and Swiss rounds are played without BYE slots)
+            const isRoundRobin = bracketType === 'round_robin';
+            const isSwiss = bracketType === 'swiss';
+            const nextPowerOf2 = isRoundRobin || isSwiss
+                ? participantNames.length
+                : Math.pow(2, Math.ceil(Math.log2(Math.max(2, participantNames.length))));
             const byesNeeded = nextPowerOf2 - participantNames.length;
 
             console.log(`Players: ${participantNames.length}, Next power of 2: ${nextPowerOf2}, BYEs needed: ${byesNeeded}`);
 
-            // Add BYE participants if needed
-            const paddedParticipants: (string | null)[] = [...participantNames];
-            for (let i = 0; i < byesNeeded; i++) {
+            // Add BYE participants if needed; seeded brackets give the BYEs to the top seeds.
+            // Separated brackets are laid out here too, so the engine keeps the slot order.
+            const isElimination = !isRoundRobin && !isSwiss;
+            const placeSlots = isElimination && (options?.seeded || options?.separateBy);
+            let paddedParticipants: (string | null)[] = placeSlots ? placeSeeds(participantNames) : [...participantNames];
+            for (let i = paddedParticipants.length; i < nextPowerOf2; i++) {
                 paddedParticipants.push(null); // null represents a BYE
             }
+            if (placeSlots && options?.separateBy) {
+                const entries = paddedParticipants.map(name => name === null ? null : { ...players[participantNames.indexOf(name)], name });
+                paddedParticipants = separateSlots(entries, options.separateBy, Boolean(options.seeded)).map(e => e ? e.name : null);
+            }
 
             console.log('Final participants (with BYEs):', paddedParticipants);
 
@@ -181,10 +443,32 @@ class TournamentService {
             if (bracketType === 'double_elimination') {
                 const isTrueDouble = options && options.trueDouble === true;
                 stageSettings.grandFinal = isTrueDouble ? 'double' : 'simple';
+            } else if (isRoundRobin) {
+                // Every pool needs at least two players
+                const maxGroups = Math.max(1, Math.floor(participantNames.length / 2));
+                stageSettings.groupCount = Math.min(maxGroups, Math.max(1, Math.floor(options?.groupCount || 1)));
+                delete stageSettings.balanceByes;
+                if (options?.playoff) {
+                    stageSettings.playoff = {
+                        bracketType: options.playoff.bracketType,
+                        advancePerGroup: Math.max(1, Math.floor(options.playoff.advancePerGroup || 1))
+                    };
+                }
+            } else if (isSwiss) {
+                const rounds = Math.floor(options?.swissRounds || getDefaultSwissRounds(participantNames.length));
+                // A player can meet every other player at most once
+                stageSettings.swiss = { rounds: Math.min(Math.max(1, participantNames.length - 1), Math.max(1, rounds)) };
+                delete stageSettings.balanceByes;
             } else {
                 stageSettings.grandFinal = 'none';
             }
 
+            if (placeSlots) {
+                // Slots are already in bracket order
+                stageSettings.seedOrdering = ['natural'];
+                stageSettings.balanceByes = false;
+            }
+
             if (options) {
                 // keep explicit trueDouble flag if provided (consumer can use it); grandFinal drives engine behavior
                 if (options.trueDouble !== undefined) stageSettings.trueDouble = !!options.trueDouble;
@@ -192,44 +476,70 @@ class TournamentService {
                 if (options.description) stageSettings.description = options.description;
                 if (options.raceWinners) stageSettings.raceWinners = options.raceWinners;
                 if (options.raceLosers) stageSettings.raceLosers = options.raceLosers;
+                if (options.raceSchedule && options.raceSchedule.length > 0) {
+                    stageSettings.raceSchedule = options.raceSchedule.filter(entry => entry.race >= 1);
+                }
+                if (options.handicap) stageSettings.handicap = { chart: normalizeRaceChart(options.handicap.chart) };
             }
 
-            await this.manager.create.stage({
-                tournamentId: this.currentTournamentId,
-                name: stageName,
-                type: bracketType,
-                seeding: paddedParticipants,
-                settings: stageSettings
-            });
-            console.log('Stage created successfully');
-
-            // After stage creation, storage will contain participant records with the seeded names.
-            // Update those participant records to include phone/email/membershipId and any metadata
-            try {
-                for (let i = 0; i < players.length; i++) {
-                    const p: any = players[i];
-                    const seedName = seedByIndex[i];
-
-                    const updateData: any = {};
-                    if (p.phone) updateData.phone = p.phone;
-                    if (p.email) updateData.email = p.email;
-                    if (p.membershipId) updateData.membershipId = p.membershipId;
-                    if (p.effectiveRating !== undefined) updateData.effectiveRating = p.effectiveRating;
-                    if (p.city) updateData.city = p.city;
-                    if (p.state) updateData.state = p.state;
-                    if (p.robustness !== undefined) updateData.robustness = p.robustness;
-
-                    if (Object.keys(updateData).length > 0) {
-                        try {
-                            await this.storage.update('participant', { name: seedName }, updateData);
-                        } catch (err) {
-                            console.warn('Failed to update participant metadata for', seedName, err);
+            // A stage that fails halfway through creation is discarded as a whole
+            await this.storage.transaction(async () => {
+                await this.ensureRegistered();
+                if (isSwiss) {
+                    await this.createSwissStage(stageName, participantNames, stageSettings);
+                } else {
+                    await this.manager.create.stage({
+                        tournamentId: this.currentTournamentId,
+                        name: stageName,
+                        type: bracketType,
+                        seeding: paddedParticipants,
+                        settings: stageSettings
+                    });
+                }
+                console.log('Stage created successfully');
+
+                // After stage creation, storage will contain participant records with the seeded names.
+                // Update those participant records to include phone/email/membershipId and any metadata
+                try {
+                    for (let i = 0; i < players.length; i++) {
+                        const p: any = players[i];
+                        const seedName = seedByIndex[i];
+
+                        const updateData: any = {};
+                        if (p.phone) updateData.phone = p.phone;
+                        if (p.email) updateData.email = p.email;
+                        if (p.membershipId) updateData.membershipId = p.membershipId;
+                        if (p.effectiveRating !== undefined) updateData.effectiveRating = p.effectiveRating;
+                        if (p.city) updateData.city = p.city;
+                        if (p.state) updateData.state = p.state;
+                        if (p.club) updateData.club = p.club;
+                        if (p.robustness !== undefined) updateData.robustness = p.robustness;
+                        if (options?.seeded) updateData.seed = i + 1;
+
+                        if (Object.keys(updateData).length > 0) {
+                            try {
+                                // Other tournaments of the library may have a player of the same name
+                                await this.storage.update('participant', { tournament_id: this.currentTournamentId, name: seedName }, updateData);
+                            } catch (err) {
+                                console.warn('Failed to update participant metadata for', seedName, err);
+                            }
                         }
                     }
+                } catch (err) {
+                    console.warn('Error updating stored participant metadata:', err);
                 }
-            } catch (err) {
-                console.warn('Error updating stored participant metadata:', err);
-            }
+
+                if (tournamentName) {
+                    await this.storage.update('tournament', this.currentTournamentId, { name: tournamentName });
+                }
+
+                // Ratings are on the participants now
+                await this.assignRaces();
+                await this.fillTables();
+            });
+
+            await this.storage.flush();
+            this.history.clear();
 
             // Get all tournament data
             const data = await this.getTournamentData();
@@ -250,7 +560,7 @@ class TournamentService {
     }
 
     /**
-     * Get all tournament data
+     * Get all data of the current tournament
      */
     async getTournamentData(): Promise<BracketsData> {
         try {
@@ -263,13 +573,18 @@ class TournamentService {
                 this.storage.select('participant')
             ]);
 
+            // Storage holds every tournament of the library; keep the current one
+            const tournamentStages = ((stages as Stage[]) || []).filter(s => s.tournament_id === this.currentTournamentId);
+            const stageIds = new Set(tournamentStages.map(s => s.id));
+            const inStage = (row: any) => stageIds.has(row.stage_id);
+
             return {
-                stage: (stages as Stage[]) || [],
-                group: (groups as Group[]) || [],
-                round: (rounds as Round[]) || [],
-                match: (matches as Match[]) || [],
-                match_game: (matchGames as any[]) || [],
-                participant: (participants as Participant[]) || []
+                stage: tournamentStages,
+                group: ((groups as Group[]) || []).filter(inStage),
+                round: ((rounds as Round[]) || []).filter(inStage),
+                match: ((matches as Match[]) || []).filter(inStage),
+                match_game: ((matchGames as any[]) || []).filter(inStage),
+                participant: ((participants as Participant[]) || []).filter(p => p.tournament_id === this.currentTournamentId)
             };
         } catch (error) {
             console.error('Error getting tournament data:', error);
@@ -288,57 +603,31 @@ class TournamentService {
         opponent2Result?: 'win' | 'loss' | 'draw'
     ): Promise<void> {
         try {
-            // Validate scores against stage settings (race limits).
-            // Choose the correct race limit per-match:
-            // - If the match is a losers bracket match (group_id === 2) use raceLosers
-            // - If the match is a Grand Final reset (GF round 2) treat it as losers-side and use raceLosers
-            // - Otherwise use raceWinners
+            // Validate scores against the rules of the stage's game type.
+            // The race of a match comes from the stage's race schedule for its side and
+            // round, falling back to raceLosers on the losers side and for the grand
+            // final reset, and to raceWinners everywhere else. A handicapped match has
+            // its own race per opponent.
             const matches = await this.storage.select('match') as any[] || [];
             const matchRec = matches.find(m => m.id === matchId);
-            let maxAllowed = 0;
             if (matchRec) {
-                const stageId = matchRec.stage_id || matchRec.stageId || null;
-                if (stageId) {
-                    const stages = await this.storage.select('stage') as any[] || [];
-                    const stage = stages.find((s: any) => s.id === stageId);
-                    if (stage && stage.settings) {
-                        const winnersMax = Number(stage.settings.raceWinners || 0) || 0;
-                        const losersMax = Number(stage.settings.raceLosers || winnersMax) || 0;
-
-                        // Determine if this match should be treated as losers-side.
-                        let isLosersSide = false;
-                        const rawGroupId = matchRec.group_id ?? matchRec.groupId;
-                        const rawRoundId = matchRec.round_id ?? matchRec.roundId;
-
-                        // Basic losers bracket detection
-                        if (rawGroupId === 2) {
-                            isLosersSide = true;
-                        }
-
-                        // Grand final reset detection: if stage has grandFinal === 'double' treat the
-                        // highest round among GF matches as the reset (losers-side) when maxRound > 1
-                        if (!isLosersSide) {
-                            const grandFinalMode = stage.settings.grandFinal;
-                            const stageTrueDouble = stage.settings.trueDouble || grandFinalMode === 'double';
-                            if (stageTrueDouble) {
-                                const gfMatches = matches.filter(m => (m.stage_id || m.stageId) === stageId && ((m.group_id || m.groupId) || 0) >= 3);
-                                if (gfMatches.length > 0) {
-                                    const maxRound = Math.max(...gfMatches.map(m => (m.round_id || m.roundId || 0) || 0));
-                                    if (maxRound > 1 && (rawRoundId || 0) === maxRound) {
-                                        isLosersSide = true;
-                                    }
-                                }
-                            }
-                        }
+                const stages = await this.storage.select('stage') as Stage[] || [];
+                const stage = stages.find(s => s.id === matchRec.stage_id);
+                const rules = getGameTypeRules(stage?.settings.gameType);
+                const [race1, race2] = getMatchRaces(matchRec, matches, stage);
 
-                        maxAllowed = isLosersSide ? losersMax : winnersMax;
-                    }
+                for (const [score, race] of [[opponent1Score, race1], [opponent2Score, race2]] as const) {
+                    const invalid = score !== undefined ? rules.validateScore(score, race) : null;
+                    if (invalid) throw new Error(invalid);
                 }
-            }
 
-            if (maxAllowed > 0) {
-                if ((opponent1Score !== undefined && opponent1Score > maxAllowed) || (opponent2Score !== undefined && opponent2Score > maxAllowed)) {
-                    throw new Error(`Score exceeds configured race limit of ${maxAllowed}`);
+                // A result is only accepted for a finished score that it matches
+                if ((opponent1Result === 'win' || opponent2Result === 'win') && opponent1Score !== undefined && opponent2Score !== undefined) {
+                    const invalid = rules.validateResult(opponent1Score, race1, opponent2Score, race2);
+                    if (invalid) throw new Error(invalid);
+                    if (getRaceWinner(opponent1Score, race1, opponent2Score, race2) !== (opponent1Result === 'win' ? 1 : 2)) {
+                        throw new Error('The winner does not match the score');
+                    }
                 }
             }
 
@@ -361,18 +650,758 @@ class TournamentService {
                 updateData.opponent2.result = opponent2Result;
             }
 
-            await this.manager.update.match(updateData);
+            const before = matchRec ? getScoreState(matchRec) : null;
+            // Finishing the last pool match creates the playoff bracket, and finishing
+            // the last match of a Swiss round pairs the next round, in the same step
+            await this.runCommand(`Update match #${matchRec?.number ?? matchId}`, async () => {
+                await this.manager.update.match(updateData);
+                if (matchRec) {
+                    await this.recordFinish(matchRec);
+                    await this.advancePools(matchRec.stage_id);
+                    await this.advanceSwiss(matchRec.stage_id);
+                }
+                await this.forfeitWithdrawn();
+                await this.assignRaces();
+                await this.settleTables();
+            });
+            await this.storage.flush();
+
+            const updated = await this.storage.select('match', matchId) as any;
+            const after = updated ? getScoreState(updated) : null;
+            this.recordAudit({
+                type: 'match_score',
+                tournamentId: this.currentTournamentId,
+                matchId,
+                participantIds: getMatchParticipantIds(updated || matchRec),
+                description: `${await this.describeMatch(updated || matchRec, matchId)} scored ${after?.opponent1.score ?? '-'}-${after?.opponent2.score ?? '-'}`,
+                before,
+                after
+            });
         } catch (error) {
             console.error('Error updating match:', error);
             throw error;
         }
     }
 
+    /**
+     * Record one rack of a match as a match game; the match score is the number of racks
+     * each player has won. Once a player reaches their race the match is finished through
+     * updateMatch, which advances the bracket. Returns whether this rack decided the match.
+     */
+    async recordRack(matchId: number, rack: RackEntry): Promise<boolean> {
+        try {
+            const matches = await this.storage.select('match') as Match[] || [];
+            const match = matches.find(m => m.id === matchId);
+            if (!match) throw new Error('Match not found');
+            if (match.opponent1?.id == null || match.opponent2?.id == null) {
+                throw new Error('Both players must be known before racks can be recorded');
+            }
+            if (match.status !== 2 && match.status !== 3) throw new Error('Only a ready or running match can be scored rack by rack');
+
+            const stage = (await this.storage.select('stage', match.stage_id)) as Stage | null;
+            const rules = getGameTypeRules(stage?.settings.gameType);
+            if (rules.unit !== 'racks') throw new Error(`${rules.name} is scored in ${rules.unitLabel}, not racks`);
+            const [race1, race2] = getMatchRaces(match, matches, stage || undefined);
+            if (race1 <= 0 || race2 <= 0) throw new Error('Set a race before scoring rack by rack');
+
+            const breaker = rack.breaker ?? ((rack.breakAndRun || rack.snap) ? rack.winner : undefined);
+            if ((rack.breakAndRun || rack.snap) && breaker !== rack.winner) {
+                throw new Error('Only the player who broke can win on the break or break and run');
+            }
+
+            const before = getScoreState(match);
+            let decided = false;
+            await this.runCommand(`Rack for match #${match.number}`, async () => {
+                // brackets-manager ends a match with games once a player has won most of them.
+                // Allowing more games than either race keeps the decision with the race rules.
+                const childCount = 2 * Math.max(race1, race2) + 1;
+                if (match.child_count < childCount) {
+                    await this.manager.update.matchChildCount('match', matchId, childCount);
+                }
+
+                const games = (await this.storage.select('match_game', { parent_id: matchId }) as MatchGame[] || [])
+                    .sort((a, b) => a.number - b.number);
+                const game = games.find(g => !g.opponent1?.result && !g.opponent2?.result);
+                if (!game) throw new Error('No racks left to record');
+
+                await this.manager.update.matchGame({
+                    id: game.id,
+                    opponent1: { result: rack.winner === 1 ? 'win' : 'loss' },
+                    opponent2: { result: rack.winner === 2 ? 'win' : 'loss' }
+                });
+                await this.storage.update('match_game', game.id, {
+                    ...(breaker ? { breaker } : {}),
+                    ...(rack.breakAndRun ? { breakAndRun: true } : {}),
+                    ...(rack.snap ? { snap: true } : {})
+                });
+
+                const parent = await this.storage.select('match', matchId) as Match;
+                const score1 = parent.opponent1?.score ?? 0;
+                const score2 = parent.opponent2?.score ?? 0;
+                const winner = getRaceWinner(score1, race1, score2, race2);
+                if (winner) {
+                    await this.updateMatch(matchId, score1, score2, winner === 1 ? 'win' : 'loss', winner === 2 ? 'win' : 'loss');
+                    decided = true;
+                }
+            });
+            await this.storage.flush();
+
+            if (!decided) {
+                const updated = await this.storage.select('match', matchId) as Match;
+                const after = getScoreState(updated);
+                const winnerId = rack.winner === 1 ? updated.opponent1?.id : updated.opponent2?.id;
+                const winnerName = ((await this.storage.select('participant', winnerId as number)) as Participant | null)?.name ?? 'TBD';
+                this.recordAudit({
+                    type: 'match_score',
+                    tournamentId: this.currentTournamentId,
+                    matchId,
+                    participantIds: getMatchParticipantIds(updated),
+                    description: `${await this.describeMatch(updated, matchId)}: rack won by ${winnerName}, now ${after.opponent1.score ?? 0}-${after.opponent2.score ?? 0}`,
+                    before,
+                    after
+                });
+            }
+            return decided;
+        } catch (error) {
+            console.error('Error recording rack:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Change one player's score by delta while the match is played. The match becomes
+     * running and keeps going until a result is given through updateMatch, so a score
+     * that reaches the race can still be corrected. Returns the updated match.
+     */
+    async adjustLiveScore(matchId: number, side: 1 | 2, delta: number): Promise<Match> {
+        try {
+            const match = await this.storage.select('match', matchId) as Match | null;
+            if (!match) throw new Error('Match not found');
+            if (match.opponent1?.id == null || match.opponent2?.id == null) {
+                throw new Error('Both players must be known before the match can be scored');
+            }
+            if (match.status !== 2 && match.status !== 3) throw new Error('Only a ready or running match can be scored live');
+            if (match.child_count > 0) throw new Error('This match is scored rack by rack');
+
+            const score1 = (match.opponent1.score ?? 0) + (side === 1 ? delta : 0);
+            const score2 = (match.opponent2.score ?? 0) + (side === 2 ? delta : 0);
+            // Scores without results leave the match running
+            await this.updateMatch(matchId, score1, score2);
+            return await this.storage.select('match', matchId) as Match;
+        } catch (error) {
+            console.error('Error adjusting live score:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Mark a ready match as running once both players are at the table
+     */
+    async startMatch(matchId: number): Promise<void> {
+        try {
+            const match = await this.storage.select('match', matchId) as Match | null;
+            if (!match) throw new Error('Match not found');
+            if (match.status !== 2) throw new Error('Only a ready match can be started');
+
+            await this.runCommand(`Start match #${match.number}`, () => this.manager.update.match({ id: matchId, status: 3 }));
+            await this.storage.flush();
+        } catch (error) {
+            console.error('Error starting match:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Record that one opponent of a ready or running match forfeits it, e.g. after a
+     * no-show. The other opponent wins and the bracket moves on as for a played match.
+     */
+    async forfeitMatch(matchId: number, side: 1 | 2, reason: ForfeitReason = 'forfeit'): Promise<void> {
+        try {
+            const match = await this.storage.select('match', matchId) as Match | null;
+            if (!match) throw new Error('Match not found');
+            if (match.opponent1?.id == null || match.opponent2?.id == null) {
+                throw new Error('Both players must be known before a match can be forfeited');
+            }
+            if (match.status !== 2 && match.status !== 3) throw new Error('Only a ready or running match can be forfeited');
+
+            const before = getScoreState(match);
+            await this.runCommand(`Forfeit match #${match.number}`, async () => {
+                await this.applyForfeit(matchId, side, reason);
+                await this.recordFinish(match);
+                await this.advancePools(match.stage_id);
+                await this.advanceSwiss(match.stage_id);
+                await this.forfeitWithdrawn();
+                await this.assignRaces();
+                await this.settleTables();
+            });
+            await this.storage.flush();
+
+            const updated = await this.storage.select('match', matchId) as Match;
+            const forfeiterId = side === 1 ? match.opponent1.id : match.opponent2.id;
+            const forfeiter = (await this.storage.select('participant', forfeiterId)) as Participant | null;
+            this.recordAudit({
+                type: 'match_score',
+                tournamentId: this.currentTournamentId,
+                matchId,
+                participantIds: getMatchParticipantIds(updated),
+                description: `${await this.describeMatch(match, matchId)}: ${forfeiter?.name ?? 'TBD'} forfeited (${getForfeitLabel(reason)})`,
+                before,
+                after: getScoreState(updated)
+            });
+        } catch (error) {
+            console.error('Error forfeiting match:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Take a player out of the rest of the event. Every match they are due to play is
+     * forfeited, now and as the bracket brings them into new matches.
+     */
+    async withdrawParticipant(participantId: number, reason: WithdrawalReason = 'withdrawn'): Promise<void> {
+        try {
+            const participant = await this.storage.select('participant', participantId) as Participant | null;
+            if (!participant) throw new Error(`Participant ${participantId} not found`);
+            if (participant.withdrawn) throw new Error(`${participant.name} has already left the event`);
+
+            await this.runCommand(`${getForfeitLabel(reason)}: ${participant.name}`, async () => {
+                await this.storage.update('participant', participantId, { withdrawn: reason });
+                await this.forfeitWithdrawn();
+                await this.assignRaces();
+                await this.settleTables();
+            });
+            await this.storage.flush();
+
+            this.recordAudit({
+                type: 'participant_edit',
+                tournamentId: this.currentTournamentId,
+                participantIds: [participantId],
+                description: `${participant.name} left the event (${getForfeitLabel(reason)})`,
+                before: { withdrawn: null },
+                after: { withdrawn: reason }
+            });
+        } catch (error) {
+            console.error('Error withdrawing participant:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Matches that resetting this match would reopen: every later match that received
+     * one of its players, and in turn the matches fed by those that have been started.
+     * The match itself is not included.
+     */
+    async getResetImpact(matchId: number): Promise<Match[]> {
+        const { downstream } = await this.findResetChain(matchId);
+        return downstream;
+    }
+
+    /**
+     * Reopen a match: clear its result and those of the downstream matches its players
+     * went on to (see getResetImpact), and release their tables. The reopened matches
+     * wait for their players again and are played anew.
+     */
+    async resetMatch(matchId: number): Promise<Match[]> {
+        try {
+            const match = await this.storage.select('match', matchId) as Match | null;
+            if (!match) throw new Error('Match not found');
+            const { downstream, next } = await this.findResetChain(matchId);
+
+            const before = getScoreState(match);
+            await this.runCommand(`Reset match #${match.number}`, async () => {
+                // A match is reset after every match it fed, so no reset meets a started next match
+                const pending = new Set([matchId, ...downstream.map(m => m.id)]);
+                while (pending.size > 0) {
+                    const id = [...pending].find(candidate => !(next.get(candidate) || []).some(n => pending.has(n)));
+                    if (id === undefined) throw new Error('Could not order the matches to reset');
+                    await this.clearMatch(id);
+                    pending.delete(id);
+                }
+                await this.assignRaces();
+                await this.settleTables();
+            });
+            await this.storage.flush();
+
+            const updated = await this.storage.select('match', matchId) as Match;
+            const reopened = downstream.length > 0 ? `; also reopened ${downstream.map(m => `#${m.number}`).join(', ')}` : '';
+            this.recordAudit({
+                type: 'match_score',
+                tournamentId: this.currentTournamentId,
+                matchId,
+                participantIds: getMatchParticipantIds(match),
+                description: `${await this.describeMatch(match, matchId)} reset${reopened}`,
+                before,
+                after: getScoreState(updated)
+            });
+            return downstream;
+        } catch (error) {
+            console.error('Error resetting match:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Place a match on a table (1-based), or return it to waiting when table is undefined
+     */
+    async setMatchTable(matchId: number, table?: number): Promise<void> {
+        try {
+            const match = await this.storage.select('match', matchId) as any;
+            const previous = match ? match.table : undefined;
+            const label = table !== undefined ? `Move match ${matchId} to table ${table}` : `Return match ${matchId} to waiting`;
+            // The players are called when the match first lands on a table; moving it to
+            // another table keeps the time of that call
+            const calledAt = table === undefined ? undefined : (previous != null ? match.calledAt : Date.now());
+            await this.runCommand(label, () => this.storage.update('match', matchId, { table, calledAt }));
+            await this.storage.flush();
+
+            if ((previous ?? null) !== (table ?? null)) {
+                const description = await this.describeMatch(match, matchId);
+                this.recordAudit({
+                    type: 'table_assignment',
+                    tournamentId: this.currentTournamentId,
+                    matchId,
+                    participantIds: getMatchParticipantIds(match),
+                    description: table !== undefined ? `${description} moved to table ${table}` : `${description} returned to waiting`,
+                    before: previous ?? null,
+                    after: table ?? null
+                });
+            }
+        } catch (error) {
+            console.error('Error setting match table:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Table layout of the current tournament
+     */
+    async getTables(): Promise<TableState> {
+        const tournament = await this.getCurrentTournament();
+        // Older versions kept the layout, with an assignments array, in the UI session
+        const stored = tournament?.tables || (tournament?.session as any)?.tables;
+        if (!stored) return createTableState();
+        const { tableAssignments, ...tables } = stored;
+        return { ...createTableState(), ...tables };
+    }
+
+    /**
+     * Change the table layout of the current tournament. Matches on tables that no
+     * longer exist or are out of service return to waiting, and free tables are filled
+     * when auto-assignment is on.
+     */
+    async updateTables(changes: Partial<TableState>): Promise<TableState> {
+        try {
+            const current = await this.getTables();
+            const tables = { ...current, ...changes, tableCount: Math.max(1, changes.tableCount ?? current.tableCount) };
+            // The layout is not part of the undo history, like the rest of the session
+            await this.storage.transaction(async () => {
+                await this.ensureRegistered();
+                await this.storage.update('tournament', this.currentTournamentId, { tables });
+            });
+
+            const stranded = (await this.getTournamentData()).match.filter(m => m.table != null && !isTableInService(tables, m.table));
+            if (stranded.length > 0) {
+                await this.runCommand('Return matches from closed tables', async () => {
+                    for (const match of stranded) {
+                        await this.setMatchTable(match.id, undefined);
+                    }
+                });
+            }
+            await this.autoAssignTables();
+            return tables;
+        } catch (error) {
+            console.error('Error updating tables:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Rename a table
+     */
+    async renameTable(tableNumber: number, name: string): Promise<TableState> {
+        const current = await this.getTables();
+        const previousName = getTableName(current, tableNumber);
+        const tables = await this.updateTables({ tableSettings: updateTableSettings(current.tableSettings, tableNumber, { name: name.trim() }) });
+        const newName = getTableName(tables, tableNumber);
+        if (previousName !== newName) {
+            this.recordAudit({
+                type: 'table_rename',
+                tournamentId: this.currentTournamentId,
+                participantIds: [],
+                description: `Renamed table ${tableNumber} from "${previousName}" to "${newName}"`,
+                before: previousName,
+                after: newName
+            });
+        }
+        return tables;
+    }
+
+    /**
+     * Fill the free tables with the matches the scheduler picks, as one undo step.
+     * Does nothing while auto-assignment is off. Returns the matches placed.
+     */
+    async autoAssignTables(): Promise<Match[]> {
+        try {
+            const plan = await this.runCommand('Auto-assign tables', () => this.fillTables());
+            await this.storage.flush();
+            return plan.map(({ match }) => match);
+        } catch (error) {
+            console.error('Error auto-assigning tables:', error);
+            throw error;
+        }
+    }
+
+    // Put waiting matches on the free tables when auto-assignment is on
+    private async fillTables(): Promise<PlannedAssignment[]> {
+        const data = await this.getTournamentData();
+        const plan = planAutoAssignments(data.match, data.stage, await this.getTables());
+        for (const { match, table } of plan) {
+            await this.setMatchTable(match.id, table);
+        }
+        return plan;
+    }
+
+    // Take finished matches, and matches that lost a player to a reset, off their
+    // tables, then fill the free tables
+    private async settleTables(): Promise<void> {
+        const data = await this.getTournamentData();
+        const done = data.match.filter(m => m.table != null &&
+            ((typeof m.status === 'number' && m.status >= 4) || m.opponent1?.id == null || m.opponent2?.id == null));
+        for (const match of done) {
+            await this.setMatchTable(match.id, undefined);
+        }
+        await this.fillTables();
+    }
+
+    /**
+     * Estimated start of every match still to be played and the projected finish of the
+     * event, from the matches timed so far and the current tables (see projection.ts)
+     */
+    async getProjection(now: number = Date.now()): Promise<Projection> {
+        const data = await this.getTournamentData();
+        // Matches still missing a player start after the matches that will send them one
+        const feeders = getFeeders(data.match, data.stage);
+        return projectTournament({ matches: data.match, stages: data.stage, tables: await this.getTables(), feeders, now });
+    }
+
+    /**
+     * Edit participant details (e.g. a phone number corrected at the desk)
+     */
+    async updateParticipant(participantId: number, changes: Partial<Participant>): Promise<void> {
+        try {
+            const participant = await this.storage.select('participant', participantId) as any;
+            if (!participant) {
+                throw new Error(`Participant ${participantId} not found`);
+            }
+
+            const before: any = {};
+            const after: any = {};
+            for (const key of Object.keys(changes)) {
+                if (participant[key] === (changes as any)[key]) continue;
+                before[key] = participant[key] ?? null;
+                after[key] = (changes as any)[key];
+            }
+            if (Object.keys(after).length === 0) return;
+
+            await this.runCommand(`Edit ${participant.name}`, () => this.storage.update('participant', participantId, after));
+            await this.storage.flush();
+
+            this.recordAudit({
+                type: 'participant_edit',
+                tournamentId: this.currentTournamentId,
+                participantIds: [participantId],
+                description: `Edited ${participant.name}: ${Object.keys(after).join(', ')}`,
+                before,
+                after
+            });
+        } catch (error) {
+            console.error('Error updating participant:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Undo the most recent history step. The audit log keeps the original
+     * event and gains a new one, so undone scores remain traceable.
+     */
+    async undo(): Promise<HistoryEntry | null> {
+        return this.applyHistory('undo');
+    }
+
+    /**
+     * Re-apply the most recently undone history step
+     */
+    async redo(): Promise<HistoryEntry | null> {
+        return this.applyHistory('redo');
+    }
+
+    private async applyHistory(direction: 'undo' | 'redo'): Promise<HistoryEntry | null> {
+        const before = this.storage.exportData().match || [];
+        const entry = direction === 'undo' ? await this.history.undo() : await this.history.redo();
+        if (!entry) return null;
+
+        // Attribute the step to the matches whose rows it changed
+        const after = this.storage.exportData().match || [];
+        const changed = after.filter(m => JSON.stringify(m) !== JSON.stringify(before.find(b => b.id === m.id)));
+        const participantIds = Array.from(new Set(changed.flatMap(getMatchParticipantIds)));
+
+        // Matches that merely gained or lost an opponent are follow-on effects;
+        // the step itself is about the matches whose score or table changed
+        const describe = (m: any) => ({ id: m.id, table: m.table ?? null, ...getScoreState(m) });
+        const previousOf = (m: any) => describe(before.find(b => b.id === m.id) || { id: m.id });
+        const primary = changed.filter(m => JSON.stringify(describe(m)) !== JSON.stringify(previousOf(m)));
+
+        this.recordAudit({
+            type: 'history',
+            tournamentId: this.currentTournamentId,
+            ...(primary.length === 1 ? { matchId: primary[0]!.id } : {}),
+            participantIds,
+            description: `${direction === 'undo' ? 'Undid' : 'Redid'} "${entry.label}"`,
+            before: primary.map(previousOf),
+            after: primary.map(describe)
+        });
+        return entry;
+    }
+
+    // When every match of a round-robin stage with a playoff is finished, create the
+    // elimination stage under the same tournament, seeded from the pool standings
+    private async advancePools(stageId: number): Promise<void> {
+        const data = await this.getTournamentData();
+        const stage = data.stage.find(s => s.id === stageId);
+        const playoff = (stage?.settings as any)?.playoff;
+        if (!stage || stage.type !== 'round_robin' || !playoff) return;
+
+        const stageMatches = data.match.filter(m => m.stage_id === stageId);
+        // 4 = completed, 5 = archived
+        if (stageMatches.some(m => typeof m.status !== 'number' || m.status < 4)) return;
+        if (data.stage.some(s => s.number > stage.number)) return;
+
+        const qualifiers = getPoolQualifiers(computeStandings(data, stageId), playoff.advancePerGroup);
+        if (qualifiers.length < 2) return;
+
+        const settings: any = stage.settings;
+        const playoffSettings: any = {
+            seedOrdering: ['natural'],
+            balanceByes: false,
+            grandFinal: playoff.bracketType === 'double_elimination' ? (settings.trueDouble ? 'double' : 'simple') : 'none'
+        };
+        for (const key of ['trueDouble', 'gameType', 'description', 'raceWinners', 'raceLosers', 'raceSchedule', 'handicap']) {
+            if (settings[key] !== undefined) playoffSettings[key] = settings[key];
+        }
+
+        await this.manager.create.stage({
+            tournamentId: this.currentTournamentId,
+            name: `${stage.name} Playoff`,
+            type: playoff.bracketType,
+            number: stage.number + 1,
+            seedingIds: seedFromPools(qualifiers),
+            settings: playoffSettings
+        });
+    }
+
+    // The downstream matches of a reset (see getResetImpact), in the order found, with the
+    // affected next matches of each match in the chain
+    private async findResetChain(matchId: number): Promise<{ downstream: Match[]; next: Map<number, number[]> }> {
+        const data = await this.getTournamentData();
+        const match = data.match.find(m => m.id === matchId);
+        if (!match) throw new Error('Match not found');
+        if (match.opponent1?.id == null || match.opponent2?.id == null) throw new Error('Only a match between two players can be reset');
+
+        // Pools and Swiss rounds have no bracket to follow: later pairings and the playoff
+        // are built from the results, so these can only be reset before anything is built on them
+        const stage = data.stage.find(s => s.id === match.stage_id);
+        if (stage?.type === 'round_robin') {
+            if ((stage.settings as any).swiss) {
+                const round = data.round.find(r => r.id === match.round_id);
+                if (data.round.some(r => r.stage_id === stage.id && r.number > (round?.number ?? 0))) {
+                    throw new Error('The next Swiss round has already been paired from this result');
+                }
+            } else if (data.stage.some(s => s.tournament_id === stage.tournament_id && s.number > stage.number)) {
+                throw new Error('The playoff has already been seeded from the pool results');
+            }
+            return { downstream: [], next: new Map() };
+        }
+
+        const downstream: Match[] = [];
+        const next = new Map<number, number[]>();
+        const queue = [match];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            const players = getMatchParticipantIds(current);
+            const affected = (await this.manager.find.nextMatches(current.id) as Match[])
+                .map(n => data.match.find(m => m.id === n.id)!)
+                .filter(n => n && getMatchParticipantIds(n).some(id => players.includes(id)));
+            next.set(current.id, affected.map(n => n.id));
+
+            for (const n of affected) {
+                if (n.id === matchId || downstream.some(m => m.id === n.id)) continue;
+                downstream.push(n);
+                // Only a started match has passed its players on
+                if (typeof n.status === 'number' && n.status >= 3) queue.push(n);
+            }
+        }
+        return { downstream, next };
+    }
+
+    // Clear the score, racks and result of a match and release its table. brackets-manager
+    // removes the players it had sent on from the next matches.
+    private async clearMatch(matchId: number): Promise<void> {
+        const match = await this.storage.select('match', matchId) as Match;
+        if (match.child_count > 0) await this.manager.update.matchChildCount('match', matchId, 0);
+
+        const hasResult = [match.opponent1, match.opponent2].some(o => o?.result !== undefined || o?.forfeit !== undefined);
+        const withoutScore = (opponent: Match['opponent1']) => {
+            if (!opponent) return opponent;
+            const { score: _score, forfeitReason: _reason, ...rest } = opponent;
+            return rest;
+        };
+        // Without a score a started match is ready again (2), or waiting (1) for a player
+        const players = getMatchParticipantIds(match).length;
+        await this.storage.update('match', matchId, {
+            opponent1: withoutScore(match.opponent1),
+            opponent2: withoutScore(match.opponent2),
+            table: undefined,
+            calledAt: undefined,
+            completedAt: undefined,
+            durationMs: undefined,
+            ...(!hasResult && match.status === 3 ? { status: players === 2 ? 2 : 1 } : {})
+        });
+        if (hasResult) await this.manager.reset.matchResults(matchId);
+    }
+
+    // Note when a match that was just decided finished, and for a played match how long it
+    // held its table. `match` is the match as it was before the result, with its call time.
+    private async recordFinish(match: Match): Promise<void> {
+        const updated = await this.storage.select('match', match.id) as Match;
+        if (typeof updated.status !== 'number' || updated.status < 4 || updated.completedAt) return;
+        const completedAt = Date.now();
+        const forfeited = updated.opponent1?.forfeit || updated.opponent2?.forfeit;
+        await this.storage.update('match', match.id, {
+            completedAt,
+            ...(match.calledAt && !forfeited ? { durationMs: completedAt - match.calledAt } : {})
+        });
+    }
+
+    // Forfeit one side of a match and keep the reason on the forfeiting opponent.
+    // A forfeited match no longer needs its table.
+    private async applyForfeit(matchId: number, side: 1 | 2, reason: ForfeitReason): Promise<void> {
+        const key = side === 1 ? 'opponent1' : 'opponent2';
+        await this.manager.update.match({ id: matchId, [key]: { forfeit: true } });
+        const match = await this.storage.select('match', matchId) as Match;
+        await this.storage.update('match', matchId, { [key]: { ...match[key], forfeitReason: reason }, table: undefined, calledAt: undefined });
+    }
+
+    // Forfeit the ready and running matches of withdrawn players. Each forfeit moves the
+    // bracket on and can bring a withdrawn player into a new match, so repeat until none is left.
+    private async forfeitWithdrawn(): Promise<void> {
+        const participants = await this.storage.select('participant') as Participant[] || [];
+        const withdrawn = new Map(participants.filter(p => p.withdrawn).map(p => [p.id, p.withdrawn!]));
+        if (withdrawn.size === 0) return;
+
+        for (;;) {
+            const matches = await this.storage.select('match') as Match[] || [];
+            const match = matches.find(m =>
+                (m.status === 2 || m.status === 3) && m.opponent1?.id != null && m.opponent2?.id != null &&
+                (withdrawn.has(m.opponent1.id) || withdrawn.has(m.opponent2.id)));
+            if (!match) return;
+
+            const side = withdrawn.has(match.opponent1!.id!) ? 1 : 2;
+            await this.applyForfeit(match.id, side, withdrawn.get(side === 1 ? match.opponent1!.id! : match.opponent2!.id!)!);
+            await this.advancePools(match.stage_id);
+            await this.advanceSwiss(match.stage_id);
+        }
+    }
+
+    // Store the handicapped race of each opponent on the matches of handicapped stages.
+    // Opponents change as players advance, so this runs after every bracket change.
+    private async assignRaces(): Promise<void> {
+        const stages = (await this.storage.select('stage') as Stage[] || [])
+            .filter(s => s.tournament_id === this.currentTournamentId && (s.settings as any)?.handicap);
+        if (stages.length === 0) return;
+
+        const data = await this.getTournamentData();
+        const ratingOf = (id: number | null | undefined) => data.participant.find(p => p.id === id)?.effectiveRating;
+
+        for (const stage of stages) {
+            const handicap: { chart: RaceChartRow[] } = (stage.settings as any).handicap;
+
+            for (const match of data.match.filter(m => m.stage_id === stage.id)) {
+                const races = match.opponent1?.id != null && match.opponent2?.id != null
+                    ? getHandicapRaces(ratingOf(match.opponent1.id), ratingOf(match.opponent2.id), handicap.chart)
+                    : null;
+                if (match.opponent1?.race === races?.[0] && match.opponent2?.race === races?.[1]) continue;
+
+                const withRace = (opponent: Match['opponent1'], race: number | undefined) => {
+                    if (!opponent) return opponent;
+                    const { race: _previous, ...rest } = opponent;
+                    return race !== undefined ? { ...rest, race } : rest;
+                };
+                await this.storage.update('match', match.id, {
+                    opponent1: withRace(match.opponent1, races?.[0]),
+                    opponent2: withRace(match.opponent2, races?.[1])
+                });
+            }
+        }
+    }
+
+    // brackets-manager has no Swiss stage type: a Swiss stage is a single-group
+    // round-robin stage whose participants, stage and group are inserted directly
+    private async createSwissStage(name: string, participantNames: string[], settings: any): Promise<void> {
+        for (const participantName of participantNames) {
+            await this.storage.insert('participant', { tournament_id: this.currentTournamentId, name: participantName });
+        }
+        const stageId = await this.storage.insert('stage', {
+            tournament_id: this.currentTournamentId,
+            name,
+            type: 'round_robin',
+            number: 1,
+            settings
+        });
+        await this.storage.insert('group', { stage_id: stageId, number: 1 });
+        await this.advanceSwiss(stageId);
+    }
+
+    // Pair the next Swiss round once every match of the previous one is finished
+    private async advanceSwiss(stageId: number): Promise<void> {
+        const data = await this.getTournamentData();
+        const stage = data.stage.find(s => s.id === stageId);
+        const swiss: SwissSettings | undefined = (stage?.settings as any)?.swiss;
+        const group = data.group.find(g => g.stage_id === stageId);
+        if (!stage || !swiss || !group) return;
+
+        // 4 = completed, 5 = archived; byes are never played
+        const stageMatches = data.match.filter(m => m.stage_id === stageId);
+        const isOpen = (m: Match) => m.opponent1?.id != null && m.opponent2?.id != null && (typeof m.status !== 'number' || m.status < 4);
+        if (stageMatches.some(isOpen)) return;
+
+        const playedRounds = data.round.filter(r => r.stage_id === stageId).length;
+        if (playedRounds >= swiss.rounds) return;
+
+        const { pairs, bye } = pairSwissRound(computeSwissStandings(data, stageId), stageMatches);
+        const roundId = await this.storage.insert('round', { stage_id: stageId, group_id: group.id, number: playedRounds + 1 });
+        const base = { stage_id: stageId, group_id: group.id, round_id: roundId, child_count: 0 };
+        // 2 = ready; a bye is stored like a brackets-manager BYE, with no second opponent
+        for (let i = 0; i < pairs.length; i++) {
+            const [opponent1, opponent2] = pairs[i]!;
+            await this.storage.insert('match', { ...base, number: i + 1, status: 2, opponent1: { id: opponent1 }, opponent2: { id: opponent2 } });
+        }
+        if (bye !== null) {
+            await this.storage.insert('match', { ...base, number: pairs.length + 1, status: 0, opponent1: { id: bye }, opponent2: null });
+        }
+    }
+
+    private async describeMatch(match: any, matchId: number): Promise<string> {
+        if (!match) return `Match ${matchId}`;
+        const participants = await this.storage.select('participant') as Participant[] || [];
+        const nameOf = (id: number | null | undefined) => participants.find(p => p.id === id)?.name || 'TBD';
+        return `Match #${match.number} (${nameOf(match.opponent1?.id)} vs ${nameOf(match.opponent2?.id)})`;
+    }
+
     /**
      * Get participants with their phone numbers (custom field)
      */
     async getParticipantsWithPhone(players: Player[]): Promise<Participant[]> {
-        const participants = await this.storage.select('participant') as Participant[] || [];
+        const { participant: participants } = await this.getTournamentData();
 
         return participants.map((p: Participant) => {
             // Attempt to match by membershipId (if participant has one and a player shares it), else fall back to exact name
@@ -407,6 +1436,48 @@ class TournamentService {
         }
     }
 
+    /**
+     * Final places in the current tournament's elimination bracket, best first, or an
+     * empty list until its final is decided
+     */
+    async getPlacings(): Promise<Placing[]> {
+        const data = await this.getTournamentData();
+        const stage = data.stage.filter(s => s.type !== 'round_robin').sort((a, b) => b.number - a.number)[0];
+        if (!stage) return [];
+
+        let standings: { id: number; name: string; rank: number }[];
+        try {
+            standings = await this.manager.get.finalStandings(stage.id) as any[];
+        } catch {
+            // brackets-manager only ranks a bracket whose final has a winner
+            return [];
+        }
+        return standings.map(row => {
+            const withdrawn = data.participant.find(p => p.id === row.id)?.withdrawn;
+            return { participantId: row.id, name: row.name, rank: row.rank, ...(withdrawn ? { withdrawn } : {}) };
+        });
+    }
+
+    /**
+     * Standings of the pools of the current tournament's round-robin stage
+     * (wins, then head-to-head, rack differential and racks won)
+     */
+    async getStandings(): Promise<PoolStandings[]> {
+        const data = await this.getTournamentData();
+        const stage = [...data.stage].reverse().find(s => s.type === 'round_robin' && !(s.settings as any)?.swiss);
+        return stage ? computeStandings(data, stage.id) : [];
+    }
+
+    /**
+     * Standings of the current tournament's Swiss stage
+     * (points, then Buchholz, Sonneborn-Berger and rack differential)
+     */
+    async getSwissStandings(): Promise<SwissStandingRow[]> {
+        const data = await this.getTournamentData();
+        const stage = data.stage.find(s => (s.settings as any)?.swiss);
+        return stage ? computeSwissStandings(data, stage.id) : [];
+    }
+
     /**
      * Find next matches for a participant
      */
@@ -424,7 +1495,7 @@ class TournamentService {
      */
     async isTournamentComplete(): Promise<boolean> {
         try {
-            const matches = await this.storage.select('match') as Match[] || [];
+            const { match: matches } = await this.getTournamentData();
             return matches.every((match: Match) =>
                 match.status === 'completed' || match.status === 'archived'
             );
@@ -439,7 +1510,7 @@ class TournamentService {
      */
     async getMatchesByStatus(status: 'waiting' | 'ready' | 'running' | 'completed'): Promise<Match[]> {
         try {
-            const matches = await this.storage.select('match') as Match[] || [];
+            const { match: matches } = await this.getTournamentData();
             return matches.filter((match: Match) => match.status === status);
         } catch (error) {
             console.error('Error getting matches by status:', error);
@@ -454,6 +1525,20 @@ class TournamentService {
         return this.manager;
     }
 
+    /**
+     * Get the undo / redo history
+     */
+    getHistory(): CommandHistory {
+        return this.history;
+    }
+
+    /**
+     * Get the append-only audit log
+     */
+    getAuditLog(): AuditLog {
+        return this.auditLog;
+    }
+
     /**
      * Get storage instance for direct access
      */
@@ -462,4 +1547,64 @@ class TournamentService {
     }
 }
 
+/**
+ * Give bracket data new ids (starting at firstIds per table) under another
+ * tournament id, rewriting every reference between the tables
+ */
+const relocateBracketsData = (data: BracketsData, tournamentId: number, firstIds: { [table: string]: number }) => {
+    const ids: { [table: string]: Map<number, number> } = {};
+    for (const table of BRACKETS_TABLES) {
+        const map = new Map<number, number>();
+        let next = firstIds[table] ?? 1;
+        for (const row of (data[table] || []) as any[]) {
+            if (!map.has(row.id)) map.set(row.id, next++);
+        }
+        ids[table] = map;
+    }
+
+    const idIn = (table: keyof BracketsData, id: any) => (id === null || id === undefined) ? id : (ids[table]!.get(id) ?? id);
+    const opponent = (o: any) => (o && o.id !== null && o.id !== undefined) ? { ...o, id: idIn('participant', o.id) } : o;
+
+    const relocated: BracketsData = {
+        participant: (data.participant || []).map(p => ({ ...p, id: idIn('participant', p.id), tournament_id: tournamentId })),
+        stage: (data.stage || []).map(st => ({ ...st, id: idIn('stage', st.id), tournament_id: tournamentId })),
+        group: (data.group || []).map(g => ({ ...g, id: idIn('group', g.id), stage_id: idIn('stage', g.stage_id) })),
+        round: (data.round || []).map(r => ({
+            ...r,
+            id: idIn('round', r.id),
+            stage_id: idIn('stage', r.stage_id),
+            group_id: idIn('group', r.group_id)
+        })),
+        match: (data.match || []).map(m => ({
+            ...m,
+            id: idIn('match', m.id),
+            stage_id: idIn('stage', m.stage_id),
+            group_id: idIn('group', m.group_id),
+            round_id: idIn('round', m.round_id),
+            opponent1: opponent(m.opponent1),
+            opponent2: opponent(m.opponent2)
+        })),
+        match_game: (data.match_game || []).map(g => ({
+            ...g,
+            id: idIn('match_game', g.id),
+            stage_id: idIn('stage', g.stage_id),
+            parent_id: idIn('match', g.parent_id),
+            opponent1: opponent(g.opponent1),
+            opponent2: opponent(g.opponent2)
+        }))
+    };
+
+    return { data: relocated, ids: { participant: ids.participant!, match: ids.match! } };
+};
+
+const getScoreState = (match: any) => ({
+    opponent1: { score: match.opponent1?.score ?? null, result: match.opponent1?.result ?? null },
+    opponent2: { score: match.opponent2?.score ?? null, result: match.opponent2?.result ?? null }
+});
+
+const getMatchParticipantIds = (match: any): number[] => {
+    if (!match) return [];
+    return [match.opponent1?.id, match.opponent2?.id].filter((id): id is number => typeof id === 'number');
+};
+
 export default TournamentService;
\ No newline at end of file
@@ -10,8 +10,17 @@ export interface Participant {
     robustness?: number;
     city?: string;
     state?: string;
+    club?: string;
+    // 1-based seed when the field was seeded by rating or by hand
+    seed?: number;
+    // Set once the player has left the event; their remaining matches are forfeited
+    withdrawn?: WithdrawalReason;
 }
 
+// Why an opponent gave up a match
+export type ForfeitReason = 'forfeit' | 'no_show' | 'withdrawn' | 'disqualified';
+export type WithdrawalReason = Extract<ForfeitReason, 'withdrawn' | 'disqualified'>;
+
 export interface Match {
     id: number;
     number: number;
@@ -25,16 +34,48 @@ export interface Match {
         score?: number;
         result?: 'win' | 'loss' | 'draw';
         forfeit?: boolean;
+        forfeitReason?: ForfeitReason; // Why this opponent forfeited (custom field)
         position?: number;
+        race?: number; // Handicapped race of this opponent (custom field)
     } | null;
     opponent2?: {
         id: number | null;
         score?: number;
         result?: 'win' | 'loss' | 'draw';
         forfeit?: boolean;
+        forfeitReason?: ForfeitReason; // Why this opponent forfeited (custom field)
         position?: number;
+        race?: number; // Handicapped race of this opponent (custom field)
     } | null;
     table?: number | undefined; // Table assignment (custom field)
+    calledAt?: number | undefined; // When the match was sent to its table, in ms since the epoch (custom field)
+    completedAt?: number | undefined; // When the result was entered, in ms since the epoch (custom field)
+    durationMs?: number | undefined; // How long a played match held its table, from the call to the result (custom field)
+}
+
+// One rack of a match, stored as a brackets-manager match game of the match
+export interface MatchGame {
+    id: number;
+    number: number;
+    stage_id: number;
+    parent_id: number;
+    status: number;
+    opponent1?: { id: number | null; result?: 'win' | 'loss' | 'draw' } | null;
+    opponent2?: { id: number | null; result?: 'win' | 'loss' | 'draw' } | null;
+    // Opponent (1 or 2) who broke the rack (custom field)
+    breaker?: 1 | 2;
+    // The breaker ran the rack (custom field)
+    breakAndRun?: boolean;
+    // The game ball went down on the break (custom field)
+    snap?: boolean;
+}
+
+// A rack as entered at the table
+export interface RackEntry {
+    winner: 1 | 2;
+    breaker?: 1 | 2;
+    breakAndRun?: boolean;
+    snap?: boolean;
 }
 
 export interface Stage {
@@ -52,6 +93,12 @@ export interface Stage {
         consolationFinal?: boolean;
         matchesChildCount?: number;
         groupCount?: number;
+        // Present on Swiss stages, which are stored as single-group round robins
+        swiss?: { rounds: number };
+        // Race lengths that differ from the stage-wide winners/losers race
+        raceSchedule?: RaceScheduleEntry[];
+        // Name of a registered game type (see services/gameTypes)
+        gameType?: string;
     };
 }
 
@@ -79,11 +126,29 @@ export interface Player {
     city?: string;
     state?: string;
     membershipId?: string;
+    // Home club or league team, used to keep club mates apart early on
+    club?: string;
 }
 
+export type TableSize = '7ft' | '8ft' | '9ft';
+
 export interface TableSettings {
     name: string;
     doNotAutoAssign: boolean;
+    size?: TableSize | undefined;
+    cloth?: string | undefined;
+    // Stream or TV table
+    featured?: boolean;
+    // Not in play: nothing is sent here and it does not count toward the tables in use
+    outOfService?: boolean;
+}
+
+// Matches of the listed rounds (see services/tableRules) may only be played on tables
+// with the given attributes, e.g. the grand final on featured tables
+export interface TableRule {
+    rounds: string[];
+    featured?: boolean;
+    size?: TableSize;
 }
 
 export interface TableSettingsMap {
@@ -91,12 +156,39 @@ export interface TableSettingsMap {
 }
 
 export type TabType = 'bracket' | 'tables';
-export type BracketType = 'single' | 'double';
+export type BracketType = 'single' | 'double' | 'round_robin' | 'swiss';
+export type SeedingMode = 'random' | 'rating' | 'manual';
+
+// One row of a handicap race chart: from a rating gap of minGap upwards the
+// higher-rated player races to `higher` and the lower-rated player to `lower`
+export interface RaceChartRow {
+    minGap: number;
+    higher: number;
+    lower: number;
+}
 
-// Tournament data structure compatible with brackets-manager
+// Part of the bracket a race length applies to
+export type RaceSide = 'winners' | 'losers' | 'grand_final' | 'gf_reset';
+
+// Race length of one round of a bracket side; the grand final and its reset
+// have a single round and ignore `round`
+export interface RaceScheduleEntry {
+    side: RaceSide;
+    round?: number;
+    race: number;
+}
+
+// Tournament data structure compatible with brackets-manager.
+// Rows of the "tournament" table form the tournament library.
 export interface Tournament {
     id: number;
     name: string;
+    createdAt?: string;
+    lastOpenedAt?: string;
+    // UI state of the tournament, restored when switching back to it
+    session?: TournamentSession;
+    // Table layout, owned by TournamentService (see getTables / updateTables)
+    tables?: TableState;
 }
 
 export interface BracketsData {
@@ -104,10 +196,102 @@ export interface BracketsData {
     group: Group[];
     round: Round[];
     match: Match[];
-    match_game: any[];
+    match_game: MatchGame[];
     participant: Participant[];
 }
 
+// Wizard settings that describe how a tournament is played
+export interface TournamentSettings {
+    name: string;
+    description: string;
+    gameType: string;
+    bracketType: BracketType;
+    trueDouble: boolean;
+    raceWinners: number;
+    raceLosers: number;
+    // Number of pools of a round-robin tournament
+    groupCount?: number;
+    // Elimination bracket played after the pools ('none' = pools only)
+    playoffType?: 'none' | 'single' | 'double';
+    // Players of each pool that advance to the playoff bracket
+    advancePerGroup?: number;
+    // Number of rounds of a Swiss tournament
+    swissRounds?: number;
+    // How players are placed into the bracket (random draw when missing)
+    seedingMode?: SeedingMode;
+    // Keep players sharing this value apart in the early rounds
+    separateBy?: 'none' | 'club' | 'city' | 'state';
+    // Handicapped event: every match gets per-player races from the race chart
+    handicap?: boolean;
+    raceChart?: RaceChartRow[];
+    // Per-round races that replace raceWinners/raceLosers for those rounds
+    raceSchedule?: RaceScheduleEntry[];
+    // Countdown for the players of a match sent to a table
+    callTimer?: CallTimerSettings;
+}
+
+// Players of a called match have `minutes` to reach the table before the absent
+// player can be forfeited, and are called again every `recallMinutes`
+export interface CallTimerSettings {
+    enabled: boolean;
+    minutes: number;
+    // 0 = call once
+    recallMinutes: number;
+}
+
+// Table layout of a tournament, kept by TournamentService. Which match is on which
+// table is stored on the matches themselves (Match.table).
+export interface TableState {
+    tableCount: number;
+    tableSettings: TableSettingsMap;
+    globalAutoAssign: boolean;
+    // Name of the scheduling strategy that picks the next match for a table (see services/scheduler)
+    scheduler?: string;
+    // Minutes a player rests after a match before auto-assignment sends them out again (0 = no rest)
+    minRestMinutes?: number;
+    // Which rounds may be played on which tables
+    rules?: TableRule[];
+}
+
+// Per-tournament state that lives outside the bracket tables
+export interface TournamentSession {
+    settings: TournamentSettings;
+    players: Player[];
+}
+
+export type AuditEventType =
+    | 'match_score'
+    | 'participant_edit'
+    | 'table_assignment'
+    | 'table_rename'
+    | 'history';
+
+// One entry of the append-only audit log
+export interface AuditEvent {
+    id: number;
+    timestamp: number;
+    type: AuditEventType;
+    // Who was at the keyboard (set from the Audit tab)
+    operator: string;
+    tournamentId: number;
+    matchId?: number;
+    participantIds: number[];
+    description: string;
+    before: any;
+    after: any;
+}
+
+// Versioned on-disk format used by File > Save As / Open
+export interface TournamentFile {
+    version: number;
+    savedAt: string;
+    settings: TournamentSettings;
+    players: Player[];
+    tables: TableState;
+    bracketsData: BracketsData;
+    auditLog: AuditEvent[];
+}
+
 export interface TournamentState {
     tournament?: Tournament;
     bracketsData?: BracketsData;
@@ -115,7 +299,6 @@ export interface TournamentState {
     tournamentStarted: boolean;
     tournamentComplete: boolean;
     tableCount: number;
-    tableAssignments: (number | null)[];
     activeTab: TabType;
     globalAutoAssign: boolean;
     tableSettings: TableSettingsMap;
@@ -1,4 +1,4 @@
-import { Player } from '../types';
+import { CallTimerSettings, ForfeitReason, Match, Participant, Player, RaceScheduleEntry, RaceSide, Stage } from '../types';
 
 /**
  * Get the default name for a table based on its number
@@ -44,26 +44,245 @@ export const shuffleArray = <T>(array: T[]): T[] => {
     return shuffled;
 };
 
+/**
+ * Position of a match inside its own stage. Storage ids (group_id / round_id) are
+ * global across tournaments and stages, so they can't be compared to fixed numbers.
+ * groupNumber: 1 = winners, 2 = losers, 3 = grand final (double elimination)
+ * roundNumber: 1-based round within the group
+ */
+export interface MatchPosition {
+    groupNumber: number;
+    roundNumber: number;
+}
+
+// Positions are asked for once per match in loops over every match, so they are
+// kept per matches array (and worked out again if the array grows or shrinks)
+const positionsCache = new WeakMap<any[], { length: number; positions: Map<number, MatchPosition> }>();
+
+/**
+ * Compute stage-relative positions for every match in one pass
+ */
+export const getMatchPositions = (matches: any[]): Map<number, MatchPosition> => {
+    const cached = positionsCache.get(matches);
+    if (cached && cached.length === matches.length) return cached.positions;
+
+    const firstGroupByStage = new Map<number, number>();
+    const roundIdsByGroup = new Map<number, Set<number>>();
+    for (const m of matches) {
+        const first = firstGroupByStage.get(m.stage_id);
+        if (first === undefined || m.group_id < first) firstGroupByStage.set(m.stage_id, m.group_id);
+        if (!roundIdsByGroup.has(m.group_id)) roundIdsByGroup.set(m.group_id, new Set());
+        roundIdsByGroup.get(m.group_id)!.add(m.round_id);
+    }
+
+    const sortedRounds = new Map<number, number[]>();
+    roundIdsByGroup.forEach((ids, groupId) => sortedRounds.set(groupId, [...ids].sort((a, b) => a - b)));
+
+    const positions = new Map<number, MatchPosition>();
+    for (const m of matches) {
+        positions.set(m.id, {
+            groupNumber: m.group_id - (firstGroupByStage.get(m.stage_id) ?? 1) + 1,
+            roundNumber: (sortedRounds.get(m.group_id) || []).indexOf(m.round_id) + 1
+        });
+    }
+    positionsCache.set(matches, { length: matches.length, positions });
+    return positions;
+};
+
+/**
+ * Stage-relative position of a single match.
+ * allMatches should include the match's whole stage; without it the raw ids are used.
+ */
+export const getMatchPosition = (match: any, allMatches?: any[]): MatchPosition => {
+    const position = allMatches && allMatches.length > 0 ? getMatchPositions(allMatches).get(match.id) : undefined;
+    return position || { groupNumber: match.group_id, roundNumber: match.round_id };
+};
+
+/**
+ * Whether a match is the grand final reset (second grand final match)
+ */
+export const isGrandFinalReset = (match: any, allMatches?: any[]): boolean => {
+    const { groupNumber, roundNumber } = getMatchPosition(match, allMatches);
+    return groupNumber === 3 && roundNumber === 2;
+};
+
+/**
+ * Whether a match belongs to a round-robin stage (its groups are pools, not brackets)
+ */
+export const isPoolMatch = (match: any, stages?: Stage[]): boolean => {
+    return Boolean(match && stages && stages.find(s => s.id === match.stage_id)?.type === 'round_robin');
+};
+
+/**
+ * Whether a match belongs to a Swiss stage (stored as a single-group round robin)
+ */
+export const isSwissMatch = (match: any, stages?: Stage[]): boolean => {
+    return Boolean(match && stages && (stages.find(s => s.id === match.stage_id)?.settings as any)?.swiss);
+};
+
 /**
  * Convert internal round/group identifiers into a user-friendly label
- * Supports Winners Bracket (WB), Losers Bracket (LB) and Finals mapping.
+ * Supports Winners Bracket (WB), Losers Bracket (LB) and Finals mapping, and
+ * pool or Swiss rounds when the match's stage is passed in and is a round robin.
  * allMatches should include the full tournament matches when available for correct LB numbering.
  */
-export const getUserFriendlyRoundNumber = (match: any, allMatches?: any[]): string => {
+export const getUserFriendlyRoundNumber = (match: any, allMatches?: any[], stages?: Stage[]): string => {
     if (!match) return '';
 
-    if (match.group_id === 1) {
-        return `WB Round ${match.round_id}`;
+    const { groupNumber, roundNumber } = getMatchPosition(match, allMatches);
+
+    if (isSwissMatch(match, stages)) {
+        return `Swiss Round ${roundNumber}`;
+    }
+
+    if (isPoolMatch(match, stages)) {
+        return `Pool ${groupNumber} Round ${roundNumber}`;
+    }
+
+    if (groupNumber === 1) {
+        return `WB Round ${roundNumber}`;
     }
 
-    if (match.group_id === 2) {
-        const tournamentMatches = allMatches || [];
-        const allLBMatches = tournamentMatches.filter(m => m.group_id === 2);
-        const uniqueRoundIds = [...new Set(allLBMatches.map(m => m.round_id))].sort((a, b) => a - b);
-        const lbRoundNumber = uniqueRoundIds.indexOf(match.round_id) + 1;
-        return lbRoundNumber > 0 ? `LB Round ${lbRoundNumber}` : `LB Round ${match.round_id}`;
+    if (groupNumber === 2) {
+        return `LB Round ${roundNumber}`;
     }
 
     return 'Finals';
 };
 
+/**
+ * Side of the bracket a match is played on. Stages without a losers bracket
+ * only have winners-side matches; an unknown stage type is treated as double elimination.
+ */
+export const getRaceSide = (match: any, allMatches?: any[], stageType?: Stage['type']): RaceSide => {
+    if (stageType && stageType !== 'double_elimination') return 'winners';
+    const { groupNumber, roundNumber } = getMatchPosition(match, allMatches);
+    if (groupNumber === 2) return 'losers';
+    if (groupNumber >= 3) return roundNumber === 2 ? 'gf_reset' : 'grand_final';
+    return 'winners';
+};
+
+/**
+ * Race length of a match: its entry in the race schedule, otherwise the stage-wide
+ * race (the losers race on the losers side and for the grand final reset).
+ * Pool and Swiss matches always use the winners race. 0 means no race is configured.
+ */
+export const getScheduledRace = (
+    match: any,
+    allMatches: any[] | undefined,
+    stageType: Stage['type'] | undefined,
+    races: { raceWinners?: number; raceLosers?: number; raceSchedule?: RaceScheduleEntry[] }
+): number => {
+    const winners = Number(races.raceWinners) || 0;
+    const losers = Number(races.raceLosers) || winners;
+    const side = getRaceSide(match, allMatches, stageType);
+    const { roundNumber } = getMatchPosition(match, allMatches);
+
+    const entry = stageType === 'round_robin' ? undefined : (races.raceSchedule || []).find(e =>
+        e.side === side && (side === 'grand_final' || side === 'gf_reset' || e.round === roundNumber));
+    if (entry && entry.race > 0) return entry.race;
+    return side === 'losers' || side === 'gf_reset' ? losers : winners;
+};
+
+/**
+ * Race of each opponent of a match: their handicapped race, otherwise the
+ * scheduled race of the match within its stage (0 when none is configured)
+ */
+export const getMatchRaces = (match: any, allMatches: any[], stage: Stage | undefined): [number, number] => {
+    // Positions are stage-relative, so the whole list can be passed on as it is
+    const race = stage ? getScheduledRace(match, allMatches, stage.type, stage.settings as any) : 0;
+    return [match?.opponent1?.race || race, match?.opponent2?.race || race];
+};
+
+/**
+ * Handicapped races of a match, e.g. "Race 7-5", or '' when both play the stage race
+ */
+export const getRaceLabel = (match: Match | null | undefined): string => {
+    const race1 = match?.opponent1?.race;
+    const race2 = match?.opponent2?.race;
+    return race1 && race2 ? `Race ${race1}-${race2}` : '';
+};
+
+const FORFEIT_LABELS: Record<ForfeitReason, string> = {
+    forfeit: 'Forfeit',
+    no_show: 'No-show',
+    withdrawn: 'Withdrawn',
+    disqualified: 'Disqualified'
+};
+
+/**
+ * Display name of a forfeit reason, e.g. "No-show"
+ */
+export const getForfeitLabel = (reason: ForfeitReason): string => FORFEIT_LABELS[reason];
+
+/**
+ * Reason an opponent of a match forfeited, e.g. "No-show", or '' when they did not.
+ * Forfeits recorded without a reason read "Forfeit".
+ */
+export const getOpponentForfeitLabel = (opponent: Match['opponent1']): string => {
+    if (!opponent?.forfeit) return '';
+    return getForfeitLabel(opponent.forfeitReason || 'forfeit');
+};
+
+/**
+ * Short human-readable description of a match, e.g. "#3 Alice vs Bob"
+ */
+export const getMatchLabel = (match: Match, participants: Participant[]): string => {
+    const nameOf = (id: number | null | undefined) => {
+        if (id === null || id === undefined) return 'TBD';
+        return participants.find(p => p.id === id)?.name || 'TBD';
+    };
+    return `#${match.number} ${nameOf(match.opponent1?.id)} vs ${nameOf(match.opponent2?.id)}`;
+};
+
+export const DEFAULT_CALL_TIMER: CallTimerSettings = { enabled: true, minutes: 10, recallMinutes: 5 };
+
+export type CallTimerLevel = 'waiting' | 'warning' | 'urgent' | 'expired';
+
+export interface CallTimerState {
+    // Time left before a no-show can be forfeited (negative once expired)
+    remainingMs: number;
+    // Calls due so far, counting the first one
+    calls: number;
+    level: CallTimerLevel;
+}
+
+/**
+ * Where the no-show countdown of a match called at calledAt stands at time now.
+ * It turns to a warning with half the time left and becomes urgent in the last two minutes.
+ */
+export const getCallTimerState = (calledAt: number, now: number, settings: CallTimerSettings): CallTimerState => {
+    const totalMs = settings.minutes * 60000;
+    const elapsedMs = Math.max(0, now - calledAt);
+    const remainingMs = totalMs - elapsedMs;
+    const recallMs = settings.recallMinutes * 60000;
+    // No re-calls are made once the time is up
+    const calls = 1 + (recallMs > 0 ? Math.floor(Math.min(elapsedMs, totalMs - 1) / recallMs) : 0);
+
+    let level: CallTimerLevel = 'waiting';
+    if (remainingMs <= 0) level = 'expired';
+    else if (remainingMs <= Math.min(2 * 60000, totalMs / 2)) level = 'urgent';
+    else if (remainingMs <= totalMs / 2) level = 'warning';
+    return { remainingMs, calls, level };
+};
+
+/**
+ * Time left as minutes and seconds, e.g. "4:05", with a minus sign once it has run out
+ */
+export const formatCountdown = (ms: number): string => {
+    const seconds = Math.ceil(Math.abs(ms) / 1000);
+    const text = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    return ms < 0 ? `-${text}` : text;
+};
+
+/**
+ * Time of day of a projected time, e.g. "14:35"
+ */
+export const formatClockTime = (time: number): string =>
+    new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Estimated start of a match for display: "now" once it is due, otherwise "~14:35"
+ */
+export const formatEstimatedStart = (start: number, now: number): string =>
+    start <= now ? 'now' : `~${formatClockTime(start)}`;